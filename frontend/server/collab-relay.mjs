@@ -0,0 +1,324 @@
+/**
+ * Reference Collaboration Relay
+ *
+ * Minimal WebSocket relay for editing a dashboard together. It implements
+ * the protocol described in `docs/COLLABORATION.md`: clients join a room per
+ * dashboard, and the relay forwards their changes and presence to the other
+ * clients of the room. It keeps the merged state of every room in memory, so
+ * that clients joining later receive the current dashboard. No dependencies
+ * beyond Node.js are needed.
+ *
+ * Usage:
+ *   npm run collab-relay
+ *
+ * Environment variables:
+ * - PORT: port to listen on (default: 3002)
+ *
+ * @author Dashboard System
+ * @version 1.0.0
+ */
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.PORT ?? 3002);
+
+/**
+ * GUID appended to the client key in the WebSocket handshake (RFC 6455)
+ */
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+/**
+ * Largest accepted message
+ */
+const MAX_MESSAGE_SIZE = 1024 * 1024;
+
+/**
+ * WebSocket frame opcodes
+ */
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/**
+ * Rooms keyed by dashboard ID
+ *
+ * @type {Map<string, { clients: Set<Client>, registers: Map<string, object> }>}
+ */
+const rooms = new Map();
+
+/**
+ * Compares two Lamport clocks, breaking ties by client ID
+ *
+ * @param {{ counter: number, clientId: string }} a - First clock
+ * @param {{ counter: number, clientId: string }} b - Second clock
+ * @returns {number} Negative if a is older, positive if a is newer, 0 if equal
+ */
+function compareClocks(a, b) {
+  if (a.counter !== b.counter) return a.counter - b.counter;
+  if (a.clientId === b.clientId) return 0;
+  return a.clientId < b.clientId ? -1 : 1;
+}
+
+/**
+ * Checks whether a value is a well-formed operation
+ *
+ * @param {unknown} op - Received value
+ * @returns {boolean} True if the value has the operation shape
+ */
+function isOp(op) {
+  return typeof op === 'object' && op !== null &&
+    typeof op.key === 'string' &&
+    typeof op.clock === 'object' && op.clock !== null &&
+    Number.isFinite(op.clock.counter) &&
+    typeof op.clock.clientId === 'string';
+}
+
+/**
+ * Encodes a text frame
+ *
+ * @param {string} text - Frame payload
+ * @param {number} opcode - Frame opcode
+ * @returns {Buffer} Encoded frame
+ */
+function encodeFrame(text, opcode = OPCODE_TEXT) {
+  const payload = Buffer.from(text);
+  let header;
+
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Connected client
+ */
+class Client {
+  /**
+   * @param {import('node:stream').Duplex} socket - Upgraded connection
+   */
+  constructor(socket) {
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+    this.fragments = [];
+    this.room = null;
+    this.peer = null;
+
+    socket.on('data', data => this.receive(data));
+    socket.on('close', () => leaveRoom(this));
+    socket.on('error', () => socket.destroy());
+  }
+
+  /**
+   * Sends a message
+   *
+   * @param {object} message - Message to send as JSON
+   */
+  send(message) {
+    if (!this.socket.destroyed) {
+      this.socket.write(encodeFrame(JSON.stringify(message)));
+    }
+  }
+
+  /**
+   * Closes the connection with a close frame
+   */
+  close() {
+    if (!this.socket.destroyed) {
+      this.socket.end(encodeFrame('', OPCODE_CLOSE));
+    }
+  }
+
+  /**
+   * Buffers received data and handles every complete frame
+   *
+   * @param {Buffer} data - Received data
+   */
+  receive(data) {
+    this.buffer = Buffer.concat([this.buffer, data]);
+
+    for (;;) {
+      if (this.buffer.length < 2) return;
+
+      const opcode = this.buffer[0] & 0x0f;
+      const final = (this.buffer[0] & 0x80) !== 0;
+      const masked = (this.buffer[1] & 0x80) !== 0;
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+
+      // Clients must mask their frames
+      if (!masked || length > MAX_MESSAGE_SIZE) {
+        this.socket.destroy();
+        return;
+      }
+      if (this.buffer.length < offset + 4 + length) return;
+
+      const mask = this.buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      this.buffer = this.buffer.subarray(offset + 4 + length);
+
+      this.handleFrame(opcode, final, payload);
+    }
+  }
+
+  /**
+   * Handles a complete frame
+   *
+   * @param {number} opcode - Frame opcode
+   * @param {boolean} final - Whether the frame ends a message
+   * @param {Buffer} payload - Unmasked payload
+   */
+  handleFrame(opcode, final, payload) {
+    switch (opcode) {
+      case OPCODE_TEXT:
+      case OPCODE_CONTINUATION: {
+        this.fragments.push(payload);
+        if (this.fragments.reduce((size, fragment) => size + fragment.length, 0) > MAX_MESSAGE_SIZE) {
+          this.socket.destroy();
+          return;
+        }
+        if (!final) return;
+
+        const text = Buffer.concat(this.fragments).toString('utf8');
+        this.fragments = [];
+        try {
+          handleMessage(this, JSON.parse(text));
+        } catch (error) {
+          console.warn('Ignoring unreadable message:', error.message);
+        }
+        break;
+      }
+      case OPCODE_PING:
+        this.socket.write(encodeFrame(payload.toString('utf8'), OPCODE_PONG));
+        break;
+      case OPCODE_CLOSE:
+        this.close();
+        break;
+      default:
+        break;
+    }
+  }
+}
+
+/**
+ * Sends a message to every other client of a room
+ *
+ * @param {Client} sender - Client the message originates from
+ * @param {object} message - Message to send
+ */
+function broadcast(sender, message) {
+  rooms.get(sender.room)?.clients.forEach(client => {
+    if (client !== sender) client.send(message);
+  });
+}
+
+/**
+ * Removes a client from its room; empty rooms are forgotten
+ *
+ * @param {Client} client - Client to remove
+ */
+function leaveRoom(client) {
+  const room = rooms.get(client.room);
+  if (!room || !room.clients.delete(client)) return;
+
+  broadcast(client, { type: 'peer-left', clientId: client.peer.clientId });
+  if (room.clients.size === 0) rooms.delete(client.room);
+}
+
+/**
+ * Handles a message from a client
+ *
+ * @param {Client} client - Sending client
+ * @param {unknown} message - Parsed message
+ */
+function handleMessage(client, message) {
+  if (typeof message !== 'object' || message === null) return;
+
+  if (message.type === 'join') {
+    const { room: roomId, peer } = message;
+    if (client.room || typeof roomId !== 'string' || typeof peer?.clientId !== 'string') return;
+
+    if (!rooms.has(roomId)) rooms.set(roomId, { clients: new Set(), registers: new Map() });
+    const room = rooms.get(roomId);
+
+    client.room = roomId;
+    client.peer = { clientId: peer.clientId, name: String(peer.name ?? ''), color: String(peer.color ?? '') };
+    client.send({
+      type: 'welcome',
+      peers: [...room.clients].map(other => other.peer),
+      ops: [...room.registers.values()],
+    });
+    broadcast(client, { type: 'peer-joined', peer: client.peer });
+    room.clients.add(client);
+    return;
+  }
+
+  const room = rooms.get(client.room);
+  if (!room) return;
+
+  if (message.type === 'ops' && Array.isArray(message.ops)) {
+    const ops = message.ops.filter(isOp);
+    ops.forEach(op => {
+      const current = room.registers.get(op.key);
+      if (!current || compareClocks(op.clock, current.clock) > 0) room.registers.set(op.key, op);
+    });
+    if (ops.length > 0) broadcast(client, { type: 'ops', clientId: client.peer.clientId, ops });
+  } else if (message.type === 'presence') {
+    broadcast(client, { type: 'presence', clientId: client.peer.clientId, presence: message.presence ?? null });
+  }
+}
+
+const server = createServer((request, response) => {
+  const status = request.url === '/health' ? 200 : 426;
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(status === 200 ? { status: 'ok', rooms: rooms.size } : { error: 'WebSocket upgrade required' }));
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    '',
+  ].join('\r\n'));
+  socket.setNoDelay(true);
+  new Client(socket);
+});
+
+server.listen(PORT, () => {
+  console.log(`Collaboration relay listening on ws://localhost:${PORT}`);
+});
@@ -0,0 +1,315 @@
+/**
+ * Reference Layout Server
+ *
+ * Minimal self-hosted server for syncing dashboards between browsers. It
+ * implements the REST API described in `docs/LAYOUT_SERVER.md` and stores
+ * every layout as a JSON file, without any dependencies beyond Node.js.
+ *
+ * Usage:
+ *   npm run layout-server
+ *
+ * Environment variables:
+ * - PORT: port to listen on (default: 3001)
+ * - LAYOUT_DATA_DIR: directory for the layout files (default: server/data)
+ * - ALLOWED_ORIGIN: value of Access-Control-Allow-Origin (default: *)
+ *
+ * @author Dashboard System
+ * @version 1.0.0
+ */
+
+import { createServer } from 'node:http';
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+
+const PORT = Number(process.env.PORT ?? 3001);
+const DATA_DIR = resolve(process.env.LAYOUT_DATA_DIR ?? 'server/data');
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN ?? '*';
+
+/**
+ * Largest accepted request body
+ */
+const MAX_BODY_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Accepted layout IDs; also keeps IDs safe to use as file names
+ */
+const LAYOUT_ID_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+
+/**
+ * Error answered with an HTTP status
+ */
+class HttpError extends Error {
+  /**
+   * @param {number} status - HTTP status
+   * @param {string} message - Error description
+   */
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Requests changing layouts run one at a time, so that version checks and
+// writes cannot interleave
+let writeLock = Promise.resolve();
+
+/**
+ * Runs a change after all previously started changes
+ *
+ * @param {() => Promise<void>} change - Change to run
+ * @returns {Promise<void>} Resolves when the change has finished
+ */
+function withWriteLock(change) {
+  const result = writeLock.then(change);
+  writeLock = result.catch(() => {});
+  return result;
+}
+
+/**
+ * Returns the file of a layout
+ *
+ * @param {string} layoutId - Layout ID
+ * @returns {string} File path
+ */
+function layoutFile(layoutId) {
+  return join(DATA_DIR, `${layoutId}.json`);
+}
+
+/**
+ * Formats a revision number as ETag
+ *
+ * @param {number} revision - Layout revision
+ * @returns {string} Quoted ETag
+ */
+function toEtag(revision) {
+  return `"${revision}"`;
+}
+
+/**
+ * Reads a stored layout record
+ *
+ * @param {string} layoutId - Layout ID
+ * @returns {Promise<{ revision: number, layout: object } | null>} Record, or null if missing
+ */
+async function readRecord(layoutId) {
+  try {
+    return JSON.parse(await readFile(layoutFile(layoutId), 'utf8'));
+  } catch (error) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * Writes a layout record atomically
+ *
+ * @param {string} layoutId - Layout ID
+ * @param {{ revision: number, layout: object }} record - Record to write
+ */
+async function writeRecord(layoutId, record) {
+  const file = layoutFile(layoutId);
+  await writeFile(`${file}.tmp`, JSON.stringify(record));
+  await rename(`${file}.tmp`, file);
+}
+
+/**
+ * Reads and parses a JSON request body
+ *
+ * @param {import('node:http').IncomingMessage} request - Request
+ * @returns {Promise<unknown>} Parsed body
+ */
+async function readJsonBody(request) {
+  let size = 0;
+  const chunks = [];
+
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_SIZE) throw new HttpError(413, 'Layout is too large');
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+}
+
+/**
+ * Sends a JSON response
+ *
+ * @param {import('node:http').ServerResponse} response - Response
+ * @param {number} status - HTTP status
+ * @param {unknown} body - Response body, or undefined for none
+ * @param {Record<string, string>} headers - Additional headers
+ */
+function send(response, status, body, headers = {}) {
+  response.writeHead(status, {
+    ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+    ...headers,
+  });
+  response.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+/**
+ * Answers a failed precondition with the current version of the layout
+ *
+ * @param {import('node:http').ServerResponse} response - Response
+ * @param {{ revision: number, layout: object } | null} record - Current record
+ */
+function sendPreconditionFailed(response, record) {
+  if (record) {
+    send(response, 412, record.layout, { ETag: toEtag(record.revision) });
+  } else {
+    send(response, 412, { error: 'Layout does not exist' });
+  }
+}
+
+/**
+ * GET /api/layouts - lists all layouts
+ *
+ * @param {import('node:http').ServerResponse} response - Response
+ */
+async function listLayouts(response) {
+  const files = (await readdir(DATA_DIR)).filter(file => file.endsWith('.json'));
+  const summaries = [];
+
+  for (const file of files) {
+    const layoutId = file.slice(0, -'.json'.length);
+    const record = await readRecord(layoutId);
+    if (!record) continue;
+
+    summaries.push({
+      id: layoutId,
+      name: record.layout.name ?? layoutId,
+      etag: toEtag(record.revision),
+      modified: record.layout.modified ?? record.updated,
+    });
+  }
+
+  send(response, 200, summaries);
+}
+
+/**
+ * GET /api/layouts/:id - returns a layout
+ *
+ * @param {import('node:http').ServerResponse} response - Response
+ * @param {string} layoutId - Layout ID
+ */
+async function getLayout(response, layoutId) {
+  const record = await readRecord(layoutId);
+  if (!record) throw new HttpError(404, 'Layout not found');
+
+  send(response, 200, record.layout, { ETag: toEtag(record.revision) });
+}
+
+/**
+ * PUT /api/layouts/:id - creates or replaces a layout
+ *
+ * Replacing requires `If-Match` with the current ETag; creating requires
+ * `If-None-Match: *`.
+ *
+ * @param {import('node:http').IncomingMessage} request - Request
+ * @param {import('node:http').ServerResponse} response - Response
+ * @param {string} layoutId - Layout ID
+ */
+async function putLayout(request, response, layoutId) {
+  const layout = await readJsonBody(request);
+  if (typeof layout !== 'object' || layout === null || !Array.isArray(layout.tiles)) {
+    throw new HttpError(400, 'Body must be a layout with a tiles array');
+  }
+  if (layout.id !== layoutId) {
+    throw new HttpError(400, 'Layout ID does not match the URL');
+  }
+
+  await withWriteLock(async () => {
+    const record = await readRecord(layoutId);
+    const ifMatch = request.headers['if-match'];
+    const ifNoneMatch = request.headers['if-none-match'];
+
+    if (!ifMatch && ifNoneMatch !== '*') {
+      throw new HttpError(428, 'If-Match or If-None-Match: * is required');
+    }
+    if (ifNoneMatch === '*' && record) return sendPreconditionFailed(response, record);
+    if (ifMatch && (!record || ifMatch !== toEtag(record.revision))) return sendPreconditionFailed(response, record);
+
+    const revision = (record?.revision ?? 0) + 1;
+    await writeRecord(layoutId, { revision, updated: new Date().toISOString(), layout });
+    send(response, record ? 200 : 201, { id: layoutId, etag: toEtag(revision) }, { ETag: toEtag(revision) });
+  });
+}
+
+/**
+ * DELETE /api/layouts/:id - deletes a layout
+ *
+ * Requires `If-Match` with the current ETag.
+ *
+ * @param {import('node:http').IncomingMessage} request - Request
+ * @param {import('node:http').ServerResponse} response - Response
+ * @param {string} layoutId - Layout ID
+ */
+async function deleteLayout(request, response, layoutId) {
+  await withWriteLock(async () => {
+    const record = await readRecord(layoutId);
+    const ifMatch = request.headers['if-match'];
+
+    if (!ifMatch) throw new HttpError(428, 'If-Match is required');
+    if (!record) throw new HttpError(404, 'Layout not found');
+    if (ifMatch !== toEtag(record.revision)) return sendPreconditionFailed(response, record);
+
+    await unlink(layoutFile(layoutId));
+    send(response, 204);
+  });
+}
+
+/**
+ * Routes a request
+ *
+ * @param {import('node:http').IncomingMessage} request - Request
+ * @param {import('node:http').ServerResponse} response - Response
+ */
+async function handleRequest(request, response) {
+  response.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+  response.setHeader('Access-Control-Allow-Methods', 'GET, PUT, DELETE, OPTIONS');
+  response.setHeader('Access-Control-Allow-Headers', 'Content-Type, If-Match, If-None-Match');
+  response.setHeader('Access-Control-Expose-Headers', 'ETag');
+
+  if (request.method === 'OPTIONS') return send(response, 204);
+
+  const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+  const match = pathname.match(/^\/api\/layouts(?:\/([^/]+))?\/?$/);
+
+  if (pathname === '/api/health' && request.method === 'GET') return send(response, 200, { status: 'ok' });
+  if (!match) throw new HttpError(404, 'Not found');
+
+  if (!match[1]) {
+    if (request.method === 'GET') return listLayouts(response);
+    throw new HttpError(405, 'Method not allowed');
+  }
+
+  const layoutId = decodeURIComponent(match[1]);
+  if (!LAYOUT_ID_PATTERN.test(layoutId)) throw new HttpError(400, 'Invalid layout ID');
+
+  switch (request.method) {
+    case 'GET':
+      return getLayout(response, layoutId);
+    case 'PUT':
+      return putLayout(request, response, layoutId);
+    case 'DELETE':
+      return deleteLayout(request, response, layoutId);
+    default:
+      throw new HttpError(405, 'Method not allowed');
+  }
+}
+
+await mkdir(DATA_DIR, { recursive: true });
+
+createServer((request, response) => {
+  handleRequest(request, response).catch(error => {
+    const status = error instanceof HttpError ? error.status : 500;
+    if (status === 500) console.error(error);
+    if (!response.headersSent) send(response, status, { error: status === 500 ? 'Internal server error' : error.message });
+  });
+}).listen(PORT, () => {
+  console.log(`Layout server listening on http://localhost:${PORT}, storing layouts in ${DATA_DIR}`);
+});
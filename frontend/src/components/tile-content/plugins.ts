@@ -0,0 +1,313 @@
+/**
+ * Built-in Tile Content Plugins
+ *
+ * Declarations of the content types that ship with the dashboard. The
+ * application registers them at startup with
+ * `registerBuiltInTileContentPlugins`.
+ *
+ * @author Dashboard System
+ * @version 1.0.0
+ */
+
+import { registerTileContentPlugin, type TileContentPlugin } from '@/utils/tileContentRegistry';
+import { PRICE_HISTORY_RANGES } from '@/services/googleFinanceService';
+
+/**
+ * Stock quote with price, change and volume
+ */
+const equityQuotePlugin: TileContentPlugin<'equity-quote'> = {
+  type: 'equity-quote',
+  displayName: 'Stock Quote',
+  description: 'Display real-time stock price and market data',
+  icon: 'fas fa-chart-line',
+  defaultConfig: {
+    autoRefresh: true,
+    refreshInterval: 60,
+    symbol: 'AAPL',
+    displayOptions: {
+      showChange: true,
+      showPercentChange: true,
+      showVolume: true,
+      showChart: false,
+    },
+  },
+  configSchema: [
+    {
+      key: 'symbol',
+      label: 'Stock Symbol',
+      kind: 'symbol',
+      placeholder: 'e.g., AAPL, MSFT, VWRL:LON',
+      hint: 'Ticker, optionally with its exchange (SYMBOL:EXCHANGE)',
+    },
+    {
+      key: 'refreshInterval',
+      label: 'Refresh Interval',
+      kind: 'select',
+      options: [
+        { value: 30, label: '30 seconds' },
+        { value: 60, label: '1 minute' },
+        { value: 300, label: '5 minutes' },
+        { value: 900, label: '15 minutes' },
+      ],
+    },
+    { key: 'autoRefresh', label: 'Auto Refresh', kind: 'boolean' },
+    {
+      key: 'displayOptions',
+      label: 'Display Options',
+      kind: 'group',
+      fields: [
+        { key: 'showChange', label: 'Show Price Change', kind: 'boolean' },
+        { key: 'showPercentChange', label: 'Show Percent Change', kind: 'boolean' },
+        { key: 'showVolume', label: 'Show Volume', kind: 'boolean' },
+        { key: 'showChart', label: 'Show Intraday Chart', kind: 'boolean' },
+      ],
+    },
+  ],
+  requiredFields: ['symbol'],
+  summaryField: 'symbol',
+  size: { width: 2, height: 2, minWidth: 1, minHeight: 1 },
+  component: () => import('./EquityQuoteContent.vue'),
+};
+
+/**
+ * Latest articles from Google News
+ */
+const newsPlugin: TileContentPlugin<'news'> = {
+  type: 'news',
+  displayName: 'News Feed',
+  description: 'Display latest news articles from Google News',
+  icon: 'fas fa-newspaper',
+  defaultConfig: {
+    autoRefresh: true,
+    refreshInterval: 300, // 5 minutes
+    query: 'technology',
+    articleCount: 5,
+    language: 'en',
+    country: 'US',
+    displayOptions: {
+      showImages: false,
+      showSource: true,
+      showTimestamp: true,
+      compactView: false,
+    },
+  },
+  configSchema: [
+    {
+      key: 'query',
+      label: 'News Topic or Search Query',
+      kind: 'text',
+      placeholder: 'e.g., technology, business, artificial intelligence',
+      hint: 'Use predefined topics (technology, business, world) or custom search terms',
+      maxLength: 100,
+    },
+    {
+      key: 'articleCount',
+      label: 'Article Count',
+      kind: 'number',
+      min: 1,
+      max: 10,
+    },
+    {
+      key: 'refreshInterval',
+      label: 'Refresh Interval',
+      kind: 'select',
+      options: [
+        { value: 180, label: '3 minutes' },
+        { value: 300, label: '5 minutes' },
+        { value: 600, label: '10 minutes' },
+        { value: 1800, label: '30 minutes' },
+      ],
+    },
+    { key: 'autoRefresh', label: 'Auto Refresh', kind: 'boolean' },
+    {
+      key: 'displayOptions',
+      label: 'Display Options',
+      kind: 'group',
+      fields: [
+        { key: 'showSource', label: 'Show News Source', kind: 'boolean' },
+        { key: 'showTimestamp', label: 'Show Timestamps', kind: 'boolean' },
+        { key: 'compactView', label: 'Compact View', kind: 'boolean' },
+      ],
+    },
+  ],
+  requiredFields: ['query'],
+  summaryField: 'query',
+  size: { width: 3, height: 3, minWidth: 2, minHeight: 2 },
+  component: () => import('./NewsContent.vue'),
+};
+
+/**
+ * Price history of a symbol with selectable ranges
+ */
+const priceChartPlugin: TileContentPlugin<'price-chart'> = {
+  type: 'price-chart',
+  displayName: 'Price Chart',
+  description: 'Chart the price history of a stock over a selectable range',
+  icon: 'fas fa-chart-area',
+  defaultConfig: {
+    autoRefresh: true,
+    refreshInterval: 300,
+    symbol: 'AAPL',
+    range: '1M',
+    displayOptions: {
+      showVolume: true,
+      showPreviousClose: true,
+    },
+  },
+  configSchema: [
+    {
+      key: 'symbol',
+      label: 'Stock Symbol',
+      kind: 'symbol',
+      placeholder: 'e.g., AAPL, MSFT, VWRL:LON',
+      hint: 'Ticker, optionally with its exchange (SYMBOL:EXCHANGE)',
+    },
+    {
+      key: 'range',
+      label: 'Default Range',
+      kind: 'select',
+      options: PRICE_HISTORY_RANGES.map(range => ({ value: range, label: range })),
+      hint: 'Other ranges can be picked on the tile',
+    },
+    {
+      key: 'refreshInterval',
+      label: 'Refresh Interval',
+      kind: 'select',
+      options: [
+        { value: 60, label: '1 minute' },
+        { value: 300, label: '5 minutes' },
+        { value: 900, label: '15 minutes' },
+        { value: 3600, label: '1 hour' },
+      ],
+    },
+    { key: 'autoRefresh', label: 'Auto Refresh', kind: 'boolean' },
+    {
+      key: 'displayOptions',
+      label: 'Display Options',
+      kind: 'group',
+      fields: [
+        { key: 'showVolume', label: 'Show Volume Bars', kind: 'boolean' },
+        { key: 'showPreviousClose', label: 'Show Previous Close', kind: 'boolean' },
+      ],
+    },
+  ],
+  requiredFields: ['symbol'],
+  summaryField: 'symbol',
+  size: { width: 4, height: 3, minWidth: 2, minHeight: 2 },
+  component: () => import('./PriceChartContent.vue'),
+};
+
+/**
+ * Largest number of symbols in a watchlist
+ */
+export const WATCHLIST_MAX_SYMBOLS = 50;
+
+/**
+ * Table of quotes for a list of symbols
+ */
+const watchlistPlugin: TileContentPlugin<'watchlist'> = {
+  type: 'watchlist',
+  displayName: 'Watchlist',
+  description: 'Track quotes of many symbols in one sortable table',
+  icon: 'fas fa-table-list',
+  defaultConfig: {
+    autoRefresh: true,
+    refreshInterval: 60,
+    symbols: ['AAPL', 'MSFT', 'GOOGL', 'AMZN', 'NVDA'],
+    displayOptions: {
+      showChange: true,
+      showPercentChange: true,
+      showVolume: false,
+      showDayRange: false,
+      showMarketStatus: false,
+      flashOnChange: true,
+    },
+  },
+  configSchema: [
+    {
+      key: 'symbols',
+      label: 'Symbols',
+      kind: 'list',
+      itemKind: 'symbol',
+      placeholder: 'Add a symbol, e.g. TSLA',
+      hint: 'Symbols can also be added, removed and reordered on the tile',
+      maxItems: WATCHLIST_MAX_SYMBOLS,
+    },
+    {
+      key: 'refreshInterval',
+      label: 'Refresh Interval',
+      kind: 'select',
+      options: [
+        { value: 30, label: '30 seconds' },
+        { value: 60, label: '1 minute' },
+        { value: 300, label: '5 minutes' },
+        { value: 900, label: '15 minutes' },
+      ],
+    },
+    { key: 'autoRefresh', label: 'Auto Refresh', kind: 'boolean' },
+    {
+      key: 'displayOptions',
+      label: 'Columns',
+      kind: 'group',
+      fields: [
+        { key: 'showChange', label: 'Change', kind: 'boolean' },
+        { key: 'showPercentChange', label: '% Change', kind: 'boolean' },
+        { key: 'showVolume', label: 'Volume', kind: 'boolean' },
+        { key: 'showDayRange', label: 'Day Range', kind: 'boolean' },
+        { key: 'showMarketStatus', label: 'Market Status', kind: 'boolean' },
+        { key: 'flashOnChange', label: 'Flash Price Changes', kind: 'boolean' },
+      ],
+    },
+  ],
+  requiredFields: ['symbols'],
+  summaryField: 'symbols',
+  size: { width: 4, height: 4, minWidth: 2, minHeight: 2 },
+  component: () => import('./WatchlistContent.vue'),
+};
+
+/**
+ * Static message, mainly for testing layouts
+ */
+const placeholderPlugin: TileContentPlugin<'placeholder'> = {
+  type: 'placeholder',
+  displayName: 'Placeholder',
+  description: 'Simple placeholder content for testing',
+  icon: 'fas fa-square',
+  defaultConfig: {
+    message: 'Content coming soon...',
+  },
+  configSchema: [
+    {
+      key: 'message',
+      label: 'Custom Message',
+      kind: 'textarea',
+      placeholder: 'Enter custom message...',
+      maxLength: 200,
+    },
+  ],
+  requiredFields: [],
+  size: { width: 2, height: 2, minWidth: 1, minHeight: 1 },
+  component: () => import('./PlaceholderContent.vue'),
+};
+
+/**
+ * Plugins registered at startup, in menu order
+ */
+export const BUILT_IN_TILE_CONTENT_PLUGINS: TileContentPlugin[] = [
+  equityQuotePlugin,
+  newsPlugin,
+  priceChartPlugin,
+  watchlistPlugin,
+  placeholderPlugin,
+];
+
+/**
+ * Registers the built-in plugins with the tile content registry
+ *
+ * Called once from `main.ts`, before the application is mounted.
+ *
+ * @throws {Error} If a built-in type is already registered
+ */
+export function registerBuiltInTileContentPlugins(): void {
+  BUILT_IN_TILE_CONTENT_PLUGINS.forEach(plugin => registerTileContentPlugin(plugin));
+}
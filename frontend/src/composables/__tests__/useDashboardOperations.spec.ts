@@ -0,0 +1,52 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ref } from 'vue';
+import { createPinia, setActivePinia } from 'pinia';
+import { registerBuiltInTileContentPlugins } from '@/components/tile-content/plugins';
+import { useDashboardOperations } from '@/composables/useDashboardOperations';
+import { useDashboardStore } from '@/stores/dashboard';
+import { REFRESH_INTERVAL_RANGE } from '@/utils/tileConfigSchema';
+
+vi.mock('vue-router', () => ({ useRouter: () => ({}) }));
+
+beforeAll(() => {
+  registerBuiltInTileContentPlugins();
+});
+
+beforeEach(() => {
+  localStorage.clear();
+  setActivePinia(createPinia());
+  useDashboardStore().createTileOfType('news');
+});
+
+/**
+ * Creates the operations of a dashboard view
+ */
+function createOperations() {
+  return useDashboardOperations({ confirmationModal: ref(), fileInput: ref() });
+}
+
+describe('handleSetSelectionRefreshInterval', () => {
+  it('rejects intervals that layout validation would not accept', () => {
+    const store = useDashboardStore();
+    const operations = createOperations();
+    store.selectAllTiles();
+    const tiles = JSON.stringify(store.tiles);
+
+    [REFRESH_INTERVAL_RANGE.min - 1, REFRESH_INTERVAL_RANGE.max + 1, 30.5].forEach(seconds => {
+      operations.handleSetSelectionRefreshInterval(seconds);
+
+      expect(operations.operationMessageClass.value).toBe('text-danger');
+      expect(JSON.stringify(store.tiles)).toBe(tiles);
+    });
+  });
+
+  it('accepts intervals within the range', () => {
+    const store = useDashboardStore();
+    const operations = createOperations();
+    store.selectAllTiles();
+
+    operations.handleSetSelectionRefreshInterval(REFRESH_INTERVAL_RANGE.min);
+
+    expect(store.tiles[0].content?.refreshInterval).toBe(REFRESH_INTERVAL_RANGE.min);
+  });
+});
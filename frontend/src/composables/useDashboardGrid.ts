@@ -10,6 +10,7 @@
  * - Grid line visualization
  * - Responsive grid adjustments
  * - Drop zone calculations and styling
+ * - Live preview of tiles pushed aside by a drag or resize
  * 
  * @author Dashboard System
  * @version 1.0.0
@@ -119,11 +120,66 @@ export function useDashboardGrid(options: UseDashboardGridOptions) {
       return {};
     }
 
-    // Calculate percentage-based positioning for responsive behavior
-    const leftPercent = (dropZone.value.x / dashboardStore.gridColumns) * 100;
-    const widthPercent = (dropZone.value.width / dashboardStore.gridColumns) * 100;
-    const topPixels = dropZone.value.y * dashboardStore.gridConfig.rowHeight;
-    const heightPixels = dropZone.value.height * dashboardStore.gridConfig.rowHeight;
+    return getZoneStyle(dropZone.value);
+  });
+
+  /**
+   * Computed positions of tiles that the current drag or resize would push aside
+   * 
+   * Compares the store's placement preview with the current arrangement and
+   * returns the new position of every other tile that would move.
+   * 
+   * @returns Preview zones keyed by tile ID
+   * 
+   * Time Complexity: O(n) where n is number of tiles
+   * Space Complexity: O(n)
+   */
+  const previewZones = computed<Array<DropZone & { tileId: string }>>(() => {
+    const preview = dashboardStore.placementPreview;
+    if (!preview) {
+      return [];
+    }
+
+    const activeTileId = dashboardStore.dragState.draggedTileId ?? dashboardStore.resizeState.resizedTileId;
+
+    return dashboardStore.tiles
+      .filter(tile => tile.id !== activeTileId)
+      .flatMap(tile => {
+        const zone = preview.get(tile.id);
+        if (!zone || (zone.x === tile.x && zone.y === tile.y)) {
+          return [];
+        }
+
+        return [{ tileId: tile.id, ...zone }];
+      });
+  });
+
+  /**
+   * Computed flag telling whether dropping at the current drag position is allowed
+   * 
+   * @returns True if the drag in progress can be committed
+   * 
+   * Time Complexity: O(1)
+   * Space Complexity: O(1)
+   */
+  const isDropAllowed = computed(() => dashboardStore.placementPreview !== null);
+
+  /**
+   * Calculates absolute positioning for a zone overlay
+   * 
+   * Uses percentage-based horizontal positioning for responsive behavior.
+   * 
+   * @param zone - Zone in grid units
+   * @returns CSS style object for the zone
+   * 
+   * Time Complexity: O(1)
+   * Space Complexity: O(1)
+   */
+  function getZoneStyle(zone: DropZone): Record<string, string> {
+    const leftPercent = (zone.x / dashboardStore.gridColumns) * 100;
+    const widthPercent = (zone.width / dashboardStore.gridColumns) * 100;
+    const topPixels = zone.y * dashboardStore.gridConfig.rowHeight;
+    const heightPixels = zone.height * dashboardStore.gridConfig.rowHeight;
 
     return {
       left: `${leftPercent}%`,
@@ -131,7 +187,7 @@ export function useDashboardGrid(options: UseDashboardGridOptions) {
       width: `${widthPercent}%`,
       height: `${heightPixels}px`,
     };
-  });
+  }
 
   /**
    * Checks if any grid operations are currently in progress
@@ -217,6 +273,11 @@ export function useDashboardGrid(options: UseDashboardGridOptions) {
       return false;
     }
 
+    // Tiles in the way are pushed aside or swapped; the store decides whether that works
+    if (dashboardStore.collisionMode !== 'reject' && excludeTileId) {
+      return true;
+    }
+
     // Check for overlaps with existing tiles
     return !dashboardStore.hasPositionConflicts(x, y, width, height, excludeTileId);
   }
@@ -272,9 +333,12 @@ export function useDashboardGrid(options: UseDashboardGridOptions) {
     
     const validY = Math.max(0, position.y);
 
+    // With gravity, the tile settles where the preview says it will land
+    const landing = dashboardStore.placementPreview?.get(tile.id);
+
     dropZone.value = {
-      x: validX,
-      y: validY,
+      x: landing?.x ?? validX,
+      y: landing?.y ?? validY,
       width: tile.width,
       height: tile.height,
     };
@@ -378,12 +442,15 @@ export function useDashboardGrid(options: UseDashboardGridOptions) {
     // Reactive state
     showGridLines,
     dropZone,
+    previewZones,
+    isDropAllowed,
     isOperationInProgress,
     
     // Computed styles
     gridContainerStyle,
     gridLinesStyle,
     dropZoneStyle,
+    getZoneStyle,
     
     // Position calculations
     getGridPosition,
@@ -6,9 +6,18 @@
  * 
  * Features:
  * - Tile CRUD operations with validation
- * - Layout import/export functionality
+ * - Multi-tile selection with bulk delete, duplicate and refresh settings
+ * - Tile duplication and copy/paste through the system clipboard
+ * - Named dashboard management (create, rename, duplicate, delete, switch)
+ * - Layout import/export functionality with a validation report and auto-repair
+ * - Share links that carry the whole dashboard in the URL
+ * - Dashboard templates and tile presets, with preset file export and import
+ * - Import by replacing the dashboard or by merging selected tiles into it
+ * - Layout snapshots with restore
+ * - Layout server sync setup and conflict resolution
+ * - Real-time collaboration sessions through a relay
  * - User feedback and confirmation dialogs
- * - Operation history and undo support
+ * - Operation history with undo/redo
  * - Error handling and recovery
  * 
  * @author Dashboard System
@@ -16,8 +25,15 @@
  */
 
 import { ref, type Ref } from 'vue';
+import { useRouter } from 'vue-router';
 import { useDashboardStore } from '@/stores/dashboard';
-import type { Tile, TileContent } from '@/types/dashboard';
+import type { Tile, TileContent, TileContentType, TileOperationEvent, CollisionMode } from '@/types/dashboard';
+import { parseTileClipboard, serializeTileClipboard } from '@/utils/tileClipboard';
+import { LAYOUT_SCHEMA_VERSION, migrateLayout, type MigratedLayoutData } from '@/utils/layoutMigrations';
+import { validateLayout, type LayoutIssue } from '@/utils/layoutValidation';
+import { MAX_SHARE_URL_LENGTH, buildShareUrl, encodeShareData } from '@/utils/shareLink';
+import { parseTilePresets, serializeTilePresets } from '@/utils/tilePresets';
+import { REFRESH_INTERVAL_RANGE } from '@/utils/tileConfigSchema';
 
 /**
  * Operation message types for user feedback
@@ -35,6 +51,28 @@ interface ConfirmationConfig {
   type?: 'danger' | 'warning' | 'info';
 }
 
+/**
+ * Validation report of an imported layout file that has problems
+ */
+export interface ImportReport {
+  /** Name of the imported file */
+  fileName: string;
+  /** Problems found in the file */
+  issues: LayoutIssue[];
+  /** Layout with every fixable problem repaired */
+  repaired: MigratedLayoutData;
+}
+
+/**
+ * Valid layout file waiting for the user to choose how to import it
+ */
+export interface PendingImport {
+  /** Name of the imported file */
+  fileName: string;
+  /** Layout data at the current schema version, without its `version` field */
+  layout: MigratedLayoutData;
+}
+
 /**
  * Dashboard operations composable options
  */
@@ -73,6 +111,7 @@ interface UseDashboardOperationsOptions {
 export function useDashboardOperations(options: UseDashboardOperationsOptions) {
   const { confirmationModal, fileInput } = options;
   const dashboardStore = useDashboardStore();
+  const router = useRouter();
 
   // Reactive state for user feedback and confirmations
   const operationMessage = ref<string>('');
@@ -81,6 +120,8 @@ export function useDashboardOperations(options: UseDashboardOperationsOptions) {
   const confirmationMessage = ref<string>('');
   const confirmationAction = ref<string>('');
   const pendingAction = ref<(() => void) | null>(null);
+  const importReport = ref<ImportReport | null>(null);
+  const pendingImport = ref<PendingImport | null>(null);
 
   /**
    * Shows an operation message to the user
@@ -193,9 +234,11 @@ export function useDashboardOperations(options: UseDashboardOperationsOptions) {
    * Handles adding a new tile to the dashboard
    * 
    * Creates a new tile using the dashboard store with error handling
-   * and user feedback. Finds optimal position automatically.
+   * and user feedback. Finds optimal position automatically. With a
+   * content type, the tile takes the default size and configuration of the
+   * type's plugin; with a preset, the size and content saved in the preset.
    * 
-   * @param options - Optional tile creation parameters
+   * @param options - Optional tile creation parameters, a content type or the ID of a tile preset
    * @returns Created tile or null if creation failed
    * 
    * Time Complexity: O(n) where n is number of existing tiles (for position finding)
@@ -206,9 +249,24 @@ export function useDashboardOperations(options: UseDashboardOperationsOptions) {
     width?: number;
     height?: number;
     content?: TileContent;
+    contentType?: TileContentType;
+    presetId?: string;
   }): Tile | null {
+    if (dashboardStore.isLayoutLocked) {
+      showOperationMessage('The layout is locked', 'warning');
+      return null;
+    }
+
     try {
-      const newTile = dashboardStore.createTile(options);
+      const { presetId, contentType, ...tileData } = options ?? {};
+      let newTile: Tile;
+      if (presetId) {
+        newTile = dashboardStore.createTileFromPreset(presetId);
+      } else if (contentType) {
+        newTile = dashboardStore.createTileOfType(contentType);
+      } else {
+        newTile = dashboardStore.createTile(tileData);
+      }
       
       showOperationMessage(`Created tile "${newTile.title}"`);
       console.debug(`New tile created:`, newTile);
@@ -241,9 +299,14 @@ export function useDashboardOperations(options: UseDashboardOperationsOptions) {
       return;
     }
 
+    if (dashboardStore.isTileLocked(tileId)) {
+      showOperationMessage(`"${tile.title}" is locked`, 'warning');
+      return;
+    }
+
     showConfirmation({
       title: 'Delete Tile',
-      message: `Are you sure you want to delete "${tile.title}"? This action cannot be undone.`,
+      message: `Are you sure you want to delete "${tile.title}"? You can undo this with Ctrl+Z.`,
       action: 'Delete',
       type: 'danger',
       callback: () => {
@@ -353,261 +416,1540 @@ export function useDashboardOperations(options: UseDashboardOperationsOptions) {
    * Space Complexity: O(1)
    */
   function handleClearDashboard(): void {
-    const tileCount = dashboardStore.tiles.length;
+    if (dashboardStore.isLayoutLocked) {
+      showOperationMessage('The layout is locked', 'warning');
+      return;
+    }
+
+    const tileCount = dashboardStore.tiles.filter(tile => !tile.locked).length;
     
     if (tileCount === 0) {
-      showOperationMessage('Dashboard is already empty', 'info');
+      showOperationMessage(
+        dashboardStore.tiles.length === 0 ? 'Dashboard is already empty' : 'Only locked tiles remain',
+        'info'
+      );
       return;
     }
 
+    const lockedCount = dashboardStore.tiles.length - tileCount;
+    const keptNote = lockedCount > 0 ? ` ${lockedCount} locked tiles will be kept.` : '';
+
     showConfirmation({
       title: 'Clear Dashboard',
-      message: `Are you sure you want to remove all ${tileCount} tiles? This action cannot be undone.`,
+      message: `Are you sure you want to remove all ${tileCount} tiles?${keptNote} You can undo this with Ctrl+Z.`,
       action: 'Clear All',
       type: 'danger',
       callback: () => {
-        dashboardStore.clearDashboard();
-        showOperationMessage(`Removed ${tileCount} tiles`);
-        console.debug(`Dashboard cleared: ${tileCount} tiles removed`);
+        const removedCount = dashboardStore.clearDashboard();
+        showOperationMessage(`Removed ${removedCount} tiles`);
+        console.debug(`Dashboard cleared: ${removedCount} tiles removed`);
       },
     });
   }
 
   /**
-   * Exports the current dashboard layout
+   * Handles a click on a tile for selection
    * 
-   * Creates a JSON file download with the current layout configuration.
-   * Includes metadata for version compatibility.
+   * A modified click (Shift, Ctrl or Cmd) toggles the tile in the selection;
+   * a plain click on a tile outside the selection clears it.
    * 
-   * Time Complexity: O(n) where n is number of tiles
-   * Space Complexity: O(n) for JSON serialization
+   * @param tileId - ID of the clicked tile
+   * @param additive - Whether a selection modifier was held
+   * 
+   * Time Complexity: O(n) where n is number of selected tiles
+   * Space Complexity: O(n)
    */
-  function exportLayout(): void {
-    try {
-      const layout = {
-        version: '1.0',
-        name: dashboardStore.currentLayout.name,
-        exportDate: new Date().toISOString(),
-        tiles: dashboardStore.tiles,
-        gridConfig: dashboardStore.gridConfig,
-        metadata: {
-          tileCount: dashboardStore.tiles.length,
-          gridColumns: dashboardStore.gridColumns,
-        },
-      };
-
-      const jsonString = JSON.stringify(layout, null, 2);
-      const blob = new Blob([jsonString], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-
-      // Create download link and trigger download
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `dashboard-layout-${new Date().toISOString().split('T')[0]}.json`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-
-      showOperationMessage(`Layout exported with ${layout.metadata.tileCount} tiles`);
-      console.debug('Layout exported successfully', layout.metadata);
-    } catch (error) {
-      console.error('Failed to export layout:', error);
-      showOperationMessage('Failed to export layout', 'error');
+  function handleTileSelect(tileId: string, additive: boolean): void {
+    if (additive) {
+      dashboardStore.toggleTileSelection(tileId);
+    } else if (!dashboardStore.selectedTileIds.includes(tileId)) {
+      dashboardStore.clearSelection();
     }
   }
 
   /**
-   * Initiates layout import process
+   * Handles selecting every tile of the dashboard
    * 
-   * Triggers file input dialog for users to select a layout file.
-   * The actual import is handled by handleFileImport.
+   * Time Complexity: O(n) where n is number of tiles
+   * Space Complexity: O(n)
+   */
+  function handleSelectAll(): void {
+    if (dashboardStore.tiles.length === 0) {
+      showOperationMessage('There are no tiles to select', 'info');
+      return;
+    }
+
+    dashboardStore.selectAllTiles();
+    showOperationMessage(`Selected ${dashboardStore.selectedTileIds.length} tiles`, 'info');
+  }
+
+  /**
+   * Handles clearing the selection
    * 
    * Time Complexity: O(1)
    * Space Complexity: O(1)
    */
-  function importLayout(): void {
-    if (!fileInput.value) {
-      showOperationMessage('File input not available', 'error');
-      console.error('File input element not found');
+  function handleClearSelection(): void {
+    dashboardStore.clearSelection();
+  }
+
+  /**
+   * Handles deleting all selected tiles with user confirmation
+   * 
+   * Locked tiles in the selection are kept.
+   * 
+   * Time Complexity: O(n) where n is number of tiles
+   * Space Complexity: O(n)
+   */
+  function handleDeleteSelection(): void {
+    const selectedIds = [...dashboardStore.selectedTileIds];
+    const deletableCount = selectedIds.filter(tileId => !dashboardStore.isTileLocked(tileId)).length;
+
+    if (deletableCount === 0) {
+      showOperationMessage(selectedIds.length === 0 ? 'No tiles selected' : 'The selected tiles are locked', 'info');
       return;
     }
 
-    // Reset file input to allow re-selecting the same file
-    fileInput.value.value = '';
-    fileInput.value.click();
-    console.debug('Import dialog opened');
+    showConfirmation({
+      title: 'Delete Selected Tiles',
+      message: `Are you sure you want to delete ${deletableCount} selected tiles? You can undo this with Ctrl+Z.`,
+      action: 'Delete',
+      type: 'danger',
+      callback: () => {
+        const deletedCount = dashboardStore.deleteTiles(selectedIds);
+        dashboardStore.clearSelection();
+        showOperationMessage(`Deleted ${deletedCount} tiles`);
+        console.debug(`Selection deleted: ${deletedCount} tiles`);
+      },
+    });
   }
 
   /**
-   * Handles the file import process
-   * 
-   * Processes selected JSON file, validates format, and applies layout.
-   * Includes comprehensive error handling and user feedback.
+   * Handles duplicating all selected tiles
    * 
-   * @param event - File input change event
+   * The copies become the new selection so they can be moved right away.
    * 
-   * Time Complexity: O(n) where n is size of imported layout
-   * Space Complexity: O(n) for layout processing
+   * Time Complexity: O(n² * r * c) worst case for first-fit placement
+   * Space Complexity: O(n)
    */
-  function handleFileImport(event: Event): void {
-    const input = event.target as HTMLInputElement;
-    const file = input.files?.[0];
+  function handleDuplicateSelection(): void {
+    try {
+      const copies = dashboardStore.duplicateTiles([...dashboardStore.selectedTileIds]);
 
-    if (!file) {
-      console.debug('No file selected for import');
-      return;
+      if (copies.length === 0) {
+        showOperationMessage('No tiles selected', 'info');
+        return;
+      }
+
+      dashboardStore.selectTiles(copies.map(tile => tile.id));
+      showOperationMessage(`Duplicated ${copies.length} tiles`);
+      console.debug('Selection duplicated:', copies.map(tile => tile.id));
+    } catch (error) {
+      console.error('Failed to duplicate tiles:', error);
+      showOperationMessage('Failed to duplicate tiles', 'error');
     }
+  }
 
-    if (!file.name.endsWith('.json')) {
-      showOperationMessage('Please select a JSON file', 'error');
+  /**
+   * Handles setting the refresh interval of all selected tiles
+   * 
+   * Enables auto-refresh on the updated tiles; tiles without content are skipped.
+   * Intervals outside the range accepted by layout validation are rejected.
+   * 
+   * @param seconds - Refresh interval in seconds
+   * 
+   * Time Complexity: O(n) where n is number of tiles
+   * Space Complexity: O(n)
+   */
+  function handleSetSelectionRefreshInterval(seconds: number): void {
+    const { min, max } = REFRESH_INTERVAL_RANGE;
+    if (!Number.isInteger(seconds) || seconds < min || seconds > max) {
+      showOperationMessage(`Refresh interval must be a whole number of seconds between ${min} and ${max}`, 'error');
       return;
     }
 
-    console.debug(`Importing layout from file: ${file.name}`);
+    const updatedCount = dashboardStore.updateTilesContent([...dashboardStore.selectedTileIds], {
+      autoRefresh: true,
+      refreshInterval: seconds,
+    });
 
-    const reader = new FileReader();
-    
-    reader.onload = (e) => {
-      try {
-        const jsonString = e.target?.result as string;
-        const layout = JSON.parse(jsonString);
+    if (updatedCount > 0) {
+      showOperationMessage(`Set refresh interval of ${updatedCount} tiles to ${seconds}s`);
+    } else {
+      showOperationMessage('None of the selected tiles has refreshable content', 'info');
+    }
+  }
 
-        // Validate layout structure
-        if (!validateLayoutFormat(layout)) {
-          showOperationMessage('Invalid layout file format', 'error');
-          return;
-        }
+  /**
+   * Handles duplicating a single tile from its tile menu
+   * 
+   * @param tileId - ID of the tile to duplicate
+   * 
+   * Time Complexity: O(n * r * c) for first-fit placement
+   * Space Complexity: O(n)
+   */
+  function handleTileDuplicate(tileId: string): void {
+    if (dashboardStore.isLayoutLocked) {
+      showOperationMessage('The layout is locked', 'warning');
+      return;
+    }
 
-        // Show confirmation before applying import
-        showConfirmation({
-          title: 'Import Layout',
-          message: `This will replace your current dashboard with ${layout.tiles?.length || 0} tiles. Continue?`,
-          action: 'Import',
-          type: 'warning',
-          callback: () => {
-            try {
-              dashboardStore.importLayout(layout);
-              showOperationMessage(`Layout imported with ${layout.tiles?.length || 0} tiles`);
-              console.debug('Layout imported successfully', layout.metadata || {});
-            } catch (error) {
-              console.error('Failed to apply imported layout:', error);
-              showOperationMessage('Failed to apply imported layout', 'error');
-            }
-          },
-        });
-      } catch (error) {
-        console.error('Failed to parse layout file:', error);
-        showOperationMessage('Failed to read layout file', 'error');
+    try {
+      const [copy] = dashboardStore.duplicateTiles([tileId]);
+
+      if (copy) {
+        showOperationMessage(`Created "${copy.title}"`);
+        console.debug(`Tile duplicated: ${tileId} -> ${copy.id}`);
+      } else {
+        showOperationMessage('Tile not found', 'error');
       }
-    };
+    } catch (error) {
+      console.error('Failed to duplicate tile:', error);
+      showOperationMessage('Failed to duplicate tile', 'error');
+    }
+  }
 
-    reader.onerror = () => {
-      console.error('Error reading file:', reader.error);
-      showOperationMessage('Error reading file', 'error');
-    };
+  /**
+   * Builds the clipboard text for the selected tiles
+   * 
+   * @returns JSON text in the tile clipboard format, or null if nothing is selected
+   * 
+   * Time Complexity: O(n log n) where n is number of selected tiles
+   * Space Complexity: O(n)
+   */
+  function getSelectionClipboardText(): string | null {
+    const selectedIds = dashboardStore.selectedTileIds;
+    if (selectedIds.length === 0) {
+      return null;
+    }
 
-    reader.readAsText(file);
+    const tiles = dashboardStore.currentLayout.tiles.filter(tile => selectedIds.includes(tile.id));
+    return serializeTileClipboard(tiles);
   }
 
   /**
-   * Validates imported layout file format
-   * 
-   * Ensures the imported layout has required fields and valid structure.
-   * Prevents corruption from malformed import files.
+   * Confirms that the selected tiles are on the clipboard
    * 
-   * @param layout - Parsed layout object to validate
-   * @returns True if layout format is valid
+   * Called once the clipboard write has succeeded.
    * 
    * Time Complexity: O(1)
    * Space Complexity: O(1)
    */
-  function validateLayoutFormat(layout: any): boolean {
-    if (!layout || typeof layout !== 'object') {
-      console.warn('Layout is not an object');
-      return false;
+  function handleSelectionCopied(): void {
+    showOperationMessage(`Copied ${dashboardStore.selectedTileIds.length} tiles`, 'info');
+  }
+
+  /**
+   * Handles copying the selected tiles with the asynchronous Clipboard API
+   * 
+   * Used by buttons; Ctrl+C goes through the copy event instead.
+   * 
+   * Time Complexity: O(n log n) where n is number of selected tiles
+   * Space Complexity: O(n)
+   */
+  async function handleCopySelection(): Promise<void> {
+    const text = getSelectionClipboardText();
+    if (text === null) {
+      showOperationMessage('No tiles selected', 'info');
+      return;
     }
 
-    if (!Array.isArray(layout.tiles)) {
-      console.warn('Layout tiles is not an array');
+    try {
+      await navigator.clipboard.writeText(text);
+      handleSelectionCopied();
+    } catch (error) {
+      console.error('Failed to write tiles to the clipboard:', error);
+      showOperationMessage('Clipboard access was denied', 'error');
+    }
+  }
+
+  /**
+   * Handles pasted clipboard text
+   * 
+   * Text in the tile clipboard format becomes new tiles, which are then
+   * selected. Any other text is ignored.
+   * 
+   * @param text - Clipboard text
+   * @returns True if the text was tile data
+   * 
+   * Time Complexity: O(n * r * c) for first-fit placement of n tiles
+   * Space Complexity: O(n)
+   */
+  function handlePasteText(text: string): boolean {
+    const clipboardTiles = parseTileClipboard(text);
+    if (!clipboardTiles) {
       return false;
     }
 
-    // Validate each tile has required properties
-    for (const tile of layout.tiles) {
-      if (!tile.id || typeof tile.title !== 'string' || 
-          typeof tile.x !== 'number' || typeof tile.y !== 'number' ||
-          typeof tile.width !== 'number' || typeof tile.height !== 'number') {
-        console.warn('Invalid tile structure in layout:', tile);
-        return false;
-      }
+    if (clipboardTiles.length === 0) {
+      showOperationMessage('The clipboard contains no valid tiles', 'warning');
+      return true;
+    }
+
+    if (dashboardStore.isLayoutLocked) {
+      showOperationMessage('The layout is locked', 'warning');
+      return true;
+    }
+
+    try {
+      const pasted = dashboardStore.pasteTiles(clipboardTiles);
+      dashboardStore.selectTiles(pasted.map(tile => tile.id));
+      showOperationMessage(`Pasted ${pasted.length} tiles`);
+      console.debug('Tiles pasted:', pasted.map(tile => tile.id));
+    } catch (error) {
+      console.error('Failed to paste tiles:', error);
+      showOperationMessage('Failed to paste tiles', 'error');
     }
 
-    console.debug('Layout format validation passed');
     return true;
   }
 
   /**
-   * Shows detailed layout information
+   * Handles pasting with the asynchronous Clipboard API
    * 
-   * Displays comprehensive information about the current dashboard layout
-   * including statistics and configuration details.
+   * Used by menu items; Ctrl+V goes through the paste event instead.
    * 
-   * Time Complexity: O(n) where n is number of tiles
+   * Time Complexity: O(n * r * c) for first-fit placement of n tiles
+   * Space Complexity: O(n)
+   */
+  async function handlePasteFromClipboard(): Promise<void> {
+    try {
+      const text = await navigator.clipboard.readText();
+
+      if (!handlePasteText(text)) {
+        showOperationMessage('The clipboard does not contain tiles', 'info');
+      }
+    } catch (error) {
+      console.error('Failed to read tiles from the clipboard:', error);
+      showOperationMessage('Clipboard access was denied; use Ctrl+V instead', 'error');
+    }
+  }
+
+  /**
+   * Builds a short human-readable description of an undoable operation
+   * 
+   * @param event - Operation event
+   * @returns Description such as `delete "Prices"` or `clear dashboard`
+   * 
+   * Time Complexity: O(n) where n is number of changed tiles
    * Space Complexity: O(1)
    */
-  function showLayoutInfo(): void {
-    const tiles = dashboardStore.tiles;
-    const stats = {
-      totalTiles: tiles.length,
-      gridColumns: dashboardStore.gridColumns,
-      layoutName: dashboardStore.currentLayout.name,
-      created: dashboardStore.currentLayout.created,
-      modified: dashboardStore.currentLayout.modified,
-      totalArea: tiles.reduce((sum, tile) => sum + (tile.width * tile.height), 0),
-    };
+  function describeOperation(event: TileOperationEvent): string {
+    const changedTiles = event.changes || [];
 
-    const infoMessage = [
-      `Layout: ${stats.layoutName}`,
-      `Tiles: ${stats.totalTiles}`,
-      `Grid: ${stats.gridColumns} columns`,
-      `Total area: ${stats.totalArea} units`,
-      `Created: ${stats.created.toLocaleDateString()}`,
-      `Modified: ${stats.modified.toLocaleDateString()}`,
-    ].join('\n');
+    switch (event.operation) {
+      case 'clear':
+        return 'clear dashboard';
+      case 'import':
+        return event.tileId === 'merge' ? `merge import of ${changedTiles.length} tiles` : 'layout import';
+      case 'restore':
+        return 'snapshot restore';
+      case 'reset':
+        return `${event.tileId} layout reset`;
+      case 'compact':
+        return 'layout compaction';
+      case 'settings':
+        return event.tileId === 'collisionMode' ? 'collision mode change' : 'compaction mode change';
+      case 'swap': {
+        const [first, second] = changedTiles.map(change => change.after?.title ?? change.tileId);
+        return second ? `swap of "${first}" and "${second}"` : 'swap';
+      }
+      default: {
+        if (changedTiles.length !== 1) {
+          return `${event.operation} of ${changedTiles.length} tiles`;
+        }
 
-    // For now, use alert - could be enhanced with a proper info modal
-    alert(`Dashboard Information\n\n${infoMessage}`);
-    console.debug('Layout info displayed:', stats);
+        const tile = changedTiles[0].after || changedTiles[0].before;
+        return `${event.operation} "${tile?.title ?? event.tileId}"`;
+      }
+    }
   }
 
-  // Return public interface
-  return {
-    // Reactive state
-    operationMessage,
-    operationMessageClass,
-    confirmationTitle,
-    confirmationMessage,
-    confirmationAction,
+  /**
+   * Handles undoing the most recent dashboard operation
+   * 
+   * Time Complexity: O(n) where n is number of tiles changed by the operation
+   * Space Complexity: O(n)
+   */
+  function handleUndo(): void {
+    if (dashboardStore.isLayoutLocked) {
+      showOperationMessage('The layout is locked', 'warning');
+      return;
+    }
 
-    // User feedback
-    showOperationMessage,
-    showConfirmation,
-    confirmAction,
+    const event = dashboardStore.undo();
 
-    // Tile operations
-    handleAddTile,
-    handleTileDelete,
-    handleTileEdit,
-    handleClearDashboard,
+    if (event) {
+      showOperationMessage(`Undid ${describeOperation(event)}`, 'info');
+    } else if (!dashboardStore.canUndo) {
+      showOperationMessage('Nothing to undo', 'info');
+    }
+  }
 
-    // Layout operations
-    exportLayout,
-    importLayout,
-    handleFileImport,
-    showLayoutInfo,
+  /**
+   * Handles redoing the most recently undone dashboard operation
+   * 
+   * Time Complexity: O(n) where n is number of tiles changed by the operation
+   * Space Complexity: O(n)
+   */
+  function handleRedo(): void {
+    if (dashboardStore.isLayoutLocked) {
+      showOperationMessage('The layout is locked', 'warning');
+      return;
+    }
+
+    const event = dashboardStore.redo();
+
+    if (event) {
+      showOperationMessage(`Redid ${describeOperation(event)}`, 'info');
+    } else if (!dashboardStore.canRedo) {
+      showOperationMessage('Nothing to redo', 'info');
+    }
+  }
+
+  /**
+   * Handles saving a named snapshot of the current layout
+   * 
+   * @param name - Snapshot name; a timestamped name is used when empty
+   * 
+   * Time Complexity: O(n) where n is number of tiles
+   * Space Complexity: O(n) for the copied layout
+   */
+  function handleCreateSnapshot(name: string): void {
+    const snapshot = dashboardStore.createSnapshot(name);
+    showOperationMessage(`Saved snapshot "${snapshot.name}"`);
+    console.debug('Snapshot created:', snapshot.id);
+  }
 
-    // Utilities
-    validateLayoutFormat,
+  /**
+   * Handles restoring a snapshot into the current dashboard
+   * 
+   * The replaced layout is snapshotted by the store, and the restore can be undone.
+   * 
+   * @param snapshotId - ID of the snapshot to restore
+   * 
+   * Time Complexity: O(n) where n is number of tiles
+   * Space Complexity: O(n)
+   */
+  function handleRestoreSnapshot(snapshotId: string): void {
+    if (dashboardStore.isLayoutLocked) {
+      showOperationMessage('The layout is locked', 'warning');
+      return;
+    }
+
+    const snapshot = dashboardStore.snapshots.find(s => s.id === snapshotId);
+
+    if (snapshot && dashboardStore.restoreSnapshot(snapshotId)) {
+      showOperationMessage(`Restored snapshot "${snapshot.name}"`);
+      console.debug('Snapshot restored:', snapshotId);
+    } else {
+      showOperationMessage('Failed to restore snapshot', 'error');
+    }
+  }
+
+  /**
+   * Handles deleting a snapshot
+   * 
+   * @param snapshotId - ID of the snapshot to delete
+   * 
+   * Time Complexity: O(n) where n is number of snapshots
+   * Space Complexity: O(1)
+   */
+  function handleDeleteSnapshot(snapshotId: string): void {
+    if (dashboardStore.deleteSnapshot(snapshotId)) {
+      showOperationMessage('Snapshot deleted', 'info');
+    } else {
+      showOperationMessage('Snapshot not found', 'error');
+    }
+  }
+
+  /**
+   * Handles switching to another dashboard
+   * 
+   * @param layoutId - ID of the dashboard to activate
+   * 
+   * Time Complexity: O(n) where n is number of dashboards
+   * Space Complexity: O(1)
+   */
+  function handleSwitchDashboard(layoutId: string): void {
+    if (layoutId === dashboardStore.activeLayoutId) {
+      return;
+    }
+
+    if (dashboardStore.switchDashboard(layoutId)) {
+      showOperationMessage(`Switched to "${dashboardStore.currentLayout.name}"`, 'info');
+    } else {
+      showOperationMessage('Dashboard not found', 'error');
+      console.warn(`Attempted to switch to non-existent dashboard: ${layoutId}`);
+    }
+  }
+
+  /**
+   * Handles creating a new named dashboard
+   * 
+   * Prompts for a name and switches to the new, empty dashboard.
+   * 
+   * Time Complexity: O(1)
+   * Space Complexity: O(1)
+   */
+  function handleCreateDashboard(): void {
+    const name = prompt('Name for the new dashboard:', `Dashboard ${dashboardStore.layouts.length + 1}`);
+
+    if (name === null) {
+      return;
+    }
+
+    if (!name.trim()) {
+      showOperationMessage('Dashboard name cannot be empty', 'error');
+      return;
+    }
+
+    const layout = dashboardStore.createDashboard(name);
+    showOperationMessage(`Created dashboard "${layout.name}"`);
+    console.debug('Dashboard created:', layout.id);
+  }
+
+  /**
+   * Handles renaming the active dashboard
+   * 
+   * Time Complexity: O(n) where n is number of dashboards
+   * Space Complexity: O(1)
+   */
+  function handleRenameDashboard(): void {
+    const layout = dashboardStore.currentLayout;
+    const name = prompt('Rename dashboard:', layout.name);
+
+    if (name === null || name.trim() === layout.name) {
+      return;
+    }
+
+    if (dashboardStore.renameDashboard(layout.id, name)) {
+      showOperationMessage(`Renamed dashboard to "${name.trim()}"`);
+    } else {
+      showOperationMessage('Dashboard name cannot be empty', 'error');
+    }
+  }
+
+  /**
+   * Handles duplicating the active dashboard
+   * 
+   * Time Complexity: O(n) where n is number of tiles in the dashboard
+   * Space Complexity: O(n) for the copied tiles
+   */
+  function handleDuplicateDashboard(): void {
+    const source = dashboardStore.currentLayout;
+    const copy = dashboardStore.duplicateDashboard(source.id);
+
+    if (copy) {
+      showOperationMessage(`Duplicated "${source.name}" as "${copy.name}"`);
+      console.debug(`Dashboard duplicated: ${source.id} -> ${copy.id}`);
+    } else {
+      showOperationMessage('Failed to duplicate dashboard', 'error');
+    }
+  }
+
+  /**
+   * Handles creating a new dashboard from a template
+   * 
+   * @param templateId - ID of the template
+   * @param values - Input per template parameter; empty inputs use the defaults
+   * @param name - Name of the new dashboard
+   * 
+   * Time Complexity: O(n) where n is number of template tiles
+   * Space Complexity: O(n) for the created tiles
+   */
+  function handleCreateFromTemplate(templateId: string, values: Record<string, string>, name: string): void {
+    try {
+      const layout = dashboardStore.createDashboardFromTemplate(templateId, values, name);
+      showOperationMessage(`Created dashboard "${layout.name}" with ${layout.tiles.length} tiles`);
+    } catch (error) {
+      console.error('Failed to create dashboard from template:', error);
+      showOperationMessage((error as Error).message, 'error');
+    }
+  }
+
+  /**
+   * Handles saving the active dashboard as a template
+   * 
+   * Prompts for the template name; stock symbols and news queries become
+   * template inputs.
+   * 
+   * Time Complexity: O(n) where n is number of tiles
+   * Space Complexity: O(n) for the template tiles
+   */
+  function handleSaveAsTemplate(): void {
+    const layout = dashboardStore.currentLayout;
+
+    if (layout.tiles.length === 0) {
+      showOperationMessage('Add tiles before saving the dashboard as a template', 'warning');
+      return;
+    }
+
+    const name = prompt('Name for the new template:', layout.name);
+
+    if (name === null) {
+      return;
+    }
+
+    if (!name.trim()) {
+      showOperationMessage('Template name cannot be empty', 'error');
+      return;
+    }
+
+    try {
+      const template = dashboardStore.saveDashboardAsTemplate(name);
+      const inputCount = template.parameters.length;
+      showOperationMessage(
+        `Saved template "${template.name}"` +
+        (inputCount > 0 ? ` with ${inputCount} ${inputCount === 1 ? 'input' : 'inputs'}` : '')
+      );
+    } catch (error) {
+      console.error('Failed to save template:', error);
+      showOperationMessage((error as Error).message, 'error');
+    }
+  }
+
+  /**
+   * Handles deleting a user template
+   * 
+   * @param templateId - ID of the template to delete
+   * 
+   * Time Complexity: O(n) where n is number of templates
+   * Space Complexity: O(1)
+   */
+  function handleDeleteTemplate(templateId: string): void {
+    if (dashboardStore.deleteTemplate(templateId)) {
+      showOperationMessage('Template deleted', 'info');
+    } else {
+      showOperationMessage('Template not found', 'error');
+    }
+  }
+
+  /**
+   * Handles saving a tile as a preset
+   * 
+   * Prompts for the preset name, defaulting to the tile title.
+   * 
+   * @param tileId - ID of the tile to save
+   * 
+   * Time Complexity: O(n) where n is number of tiles (for finding tile)
+   * Space Complexity: O(1)
+   */
+  function handleSaveTilePreset(tileId: string): void {
+    const tile = dashboardStore.tiles.find(t => t.id === tileId);
+
+    if (!tile) {
+      showOperationMessage('Tile not found', 'error');
+      return;
+    }
+
+    const name = prompt('Name for the new tile preset:', tile.title);
+
+    if (name === null) {
+      return;
+    }
+
+    if (!name.trim()) {
+      showOperationMessage('Preset name cannot be empty', 'error');
+      return;
+    }
+
+    const preset = dashboardStore.saveTilePreset(tileId, name);
+    showOperationMessage(`Saved tile preset "${preset.name}"`);
+    console.debug('Tile preset saved:', preset.id);
+  }
+
+  /**
+   * Handles renaming a tile preset
+   * 
+   * @param presetId - ID of the preset to rename
+   * 
+   * Time Complexity: O(n) where n is number of presets
+   * Space Complexity: O(1)
+   */
+  function handleRenameTilePreset(presetId: string): void {
+    const preset = dashboardStore.tilePresets.find(p => p.id === presetId);
+
+    if (!preset) {
+      showOperationMessage('Tile preset not found', 'error');
+      return;
+    }
+
+    const name = prompt('Rename tile preset:', preset.name);
+
+    if (name === null || name.trim() === preset.name) {
+      return;
+    }
+
+    if (dashboardStore.renameTilePreset(presetId, name)) {
+      showOperationMessage(`Renamed tile preset to "${name.trim()}"`);
+    } else {
+      showOperationMessage('Preset name cannot be empty', 'error');
+    }
+  }
+
+  /**
+   * Handles deleting a tile preset
+   * 
+   * @param presetId - ID of the preset to delete
+   * 
+   * Time Complexity: O(n) where n is number of presets
+   * Space Complexity: O(1)
+   */
+  function handleDeleteTilePreset(presetId: string): void {
+    if (dashboardStore.deleteTilePreset(presetId)) {
+      showOperationMessage('Tile preset deleted', 'info');
+    } else {
+      showOperationMessage('Tile preset not found', 'error');
+    }
+  }
+
+  /**
+   * Downloads all tile presets as a JSON file
+   * 
+   * Time Complexity: O(n) where n is number of presets
+   * Space Complexity: O(n)
+   */
+  function exportTilePresets(): void {
+    const presets = dashboardStore.tilePresets;
+
+    if (presets.length === 0) {
+      showOperationMessage('There are no tile presets to export', 'warning');
+      return;
+    }
+
+    try {
+      const blob = new Blob([serializeTilePresets(presets)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `tile-presets-${new Date().toISOString().split('T')[0]}.json`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      showOperationMessage(`Exported ${presets.length} tile ${presets.length === 1 ? 'preset' : 'presets'}`);
+    } catch (error) {
+      console.error('Failed to export tile presets:', error);
+      showOperationMessage('Failed to export tile presets', 'error');
+    }
+  }
+
+  /**
+   * Imports tile presets from a preset file
+   * 
+   * Presets equal to an existing one are skipped.
+   * 
+   * @param file - Selected preset file
+   * 
+   * Time Complexity: O(n * m) where n is number of imported and m of existing presets
+   * Space Complexity: O(n)
+   */
+  async function handleImportTilePresets(file: File): Promise<void> {
+    try {
+      const presets = parseTilePresets(await file.text());
+      const added = dashboardStore.importTilePresets(presets);
+      const skipped = presets.length - added;
+
+      if (presets.length === 0) {
+        showOperationMessage('The file contains no usable tile presets', 'warning');
+      } else {
+        showOperationMessage(
+          `Imported ${added} tile ${added === 1 ? 'preset' : 'presets'}` +
+          (skipped > 0 ? `, ${skipped} already existed` : ''),
+          added > 0 ? 'success' : 'info'
+        );
+      }
+    } catch (error) {
+      console.warn(`Cannot import tile presets from ${file.name}:`, error);
+      showOperationMessage((error as Error).message, 'error', 8000);
+    }
+  }
+
+  /**
+   * Handles deleting the active dashboard with user confirmation
+   * 
+   * The last remaining dashboard cannot be deleted.
+   * 
+   * Time Complexity: O(n) where n is number of dashboards
+   * Space Complexity: O(1)
+   */
+  function handleDeleteDashboard(): void {
+    const layout = dashboardStore.currentLayout;
+
+    if (dashboardStore.layouts.length <= 1) {
+      showOperationMessage('The last dashboard cannot be deleted', 'warning');
+      return;
+    }
+
+    showConfirmation({
+      title: 'Delete Dashboard',
+      message: `Are you sure you want to delete the dashboard "${layout.name}" and its ${layout.tiles.length} tiles? This action cannot be undone.`,
+      action: 'Delete Dashboard',
+      type: 'danger',
+      callback: () => {
+        if (dashboardStore.deleteDashboard(layout.id)) {
+          showOperationMessage(`Deleted dashboard "${layout.name}"`);
+          console.debug(`Dashboard deleted: ${layout.id}`);
+        } else {
+          showOperationMessage('Failed to delete dashboard', 'error');
+        }
+      },
+    });
+  }
+
+  /**
+   * Handles connecting to a layout server
+   * 
+   * Prompts for the server URL; an empty URL stops syncing. Dashboards are
+   * kept locally either way.
+   * 
+   * Time Complexity: O(n) where n is number of dashboards, plus network time
+   * Space Complexity: O(n)
+   */
+  async function handleConfigureLayoutServer(): Promise<void> {
+    const currentUrl = dashboardStore.serverSync.serverUrl;
+    const input = prompt(
+      'Layout server URL (leave empty to stop syncing):',
+      currentUrl ?? 'http://localhost:3001'
+    );
+
+    if (input === null) {
+      return;
+    }
+
+    const serverUrl = input.trim();
+    if (serverUrl && !isHttpUrl(serverUrl)) {
+      showOperationMessage('Enter an http:// or https:// URL', 'error');
+      return;
+    }
+
+    await dashboardStore.configureLayoutServer(serverUrl || null);
+
+    if (!serverUrl) {
+      showOperationMessage('Stopped syncing with the layout server', 'info');
+    } else {
+      reportSyncResult();
+    }
+  }
+
+  /**
+   * Handles syncing with the layout server now
+   * 
+   * Time Complexity: O(n) where n is number of dashboards, plus network time
+   * Space Complexity: O(n)
+   */
+  async function handleSyncWithServer(): Promise<void> {
+    await dashboardStore.syncWithServer();
+    reportSyncResult();
+  }
+
+  /**
+   * Handles resolving a sync conflict with user confirmation
+   * 
+   * @param layoutId - ID of the dashboard in conflict
+   * @param keep - Version to keep: `local` for this browser's, `remote` for the server's
+   * 
+   * Time Complexity: O(n) where n is number of tiles in the dashboard
+   * Space Complexity: O(n)
+   */
+  function handleResolveSyncConflict(layoutId: string, keep: 'local' | 'remote'): void {
+    const conflict = dashboardStore.serverSync.conflicts.find(c => c.layoutId === layoutId);
+    if (!conflict) {
+      return;
+    }
+
+    showConfirmation({
+      title: 'Resolve Sync Conflict',
+      message: keep === 'local'
+        ? `Replace the server version of "${conflict.name}" with the version in this browser?`
+        : `Replace "${conflict.name}" in this browser with the server version? Local changes to it will be lost.`,
+      action: keep === 'local' ? 'Keep This Version' : 'Use Server Version',
+      type: 'warning',
+      callback: () => {
+        void dashboardStore.resolveSyncConflict(layoutId, keep).then(reportSyncResult);
+      },
+    });
+  }
+
+  /**
+   * Reports the outcome of a sync with the layout server
+   * 
+   * Time Complexity: O(1)
+   * Space Complexity: O(1)
+   */
+  function reportSyncResult(): void {
+    const { status, conflicts, pendingCount, error } = dashboardStore.serverSync;
+
+    switch (status) {
+      case 'synced':
+        showOperationMessage('Dashboards are in sync with the layout server');
+        break;
+      case 'conflict':
+        showOperationMessage(
+          `${conflicts.length} ${conflicts.length === 1 ? 'dashboard was' : 'dashboards were'} changed on the server and here; choose which version to keep`,
+          'warning',
+          8000
+        );
+        break;
+      case 'offline':
+        showOperationMessage(`Layout server is unreachable; ${pendingCount} changes will be sent when it is back`, 'warning', 8000);
+        break;
+      case 'error':
+        showOperationMessage(`Sync failed: ${error}`, 'error', 8000);
+        break;
+    }
+  }
+
+  /**
+   * Handles starting a collaboration session on the active dashboard
+   * 
+   * Prompts for the relay URL, the room and the name shown to the other
+   * participants. Joining a room that is already in use replaces the tiles
+   * of the active dashboard with the shared ones.
+   * 
+   * Time Complexity: O(n) where n is number of tiles, plus network time
+   * Space Complexity: O(n)
+   */
+  async function handleStartCollaboration(): Promise<void> {
+    const relayInput = prompt('Collaboration relay URL:', 'ws://localhost:3002');
+    if (relayInput === null) {
+      return;
+    }
+
+    const relayUrl = relayInput.trim();
+    if (!isWebSocketUrl(relayUrl)) {
+      showOperationMessage('Enter a ws:// or wss:// URL', 'error');
+      return;
+    }
+
+    const room = prompt('Room to join (everyone in the same room edits one dashboard):', dashboardStore.currentLayout.name)?.trim();
+    if (!room) {
+      return;
+    }
+
+    const name = prompt('Your name, as shown to the other participants:', 'Guest');
+    if (name === null) {
+      return;
+    }
+
+    try {
+      await dashboardStore.startCollaboration(relayUrl, room, name);
+
+      const { peers } = dashboardStore.collaboration;
+      showOperationMessage(
+        peers.length === 0
+          ? `Opened room "${room}"; waiting for others to join`
+          : `Joined room "${room}" with ${peers.length} ${peers.length === 1 ? 'participant' : 'participants'}`
+      );
+    } catch (error) {
+      console.error('Failed to start collaboration:', error);
+      showOperationMessage((error as Error).message, 'error', 8000);
+    }
+  }
+
+  /**
+   * Handles leaving the collaboration session
+   * 
+   * Time Complexity: O(1)
+   * Space Complexity: O(1)
+   */
+  function handleStopCollaboration(): void {
+    dashboardStore.stopCollaboration();
+    showOperationMessage('Left the collaboration session', 'info');
+  }
+
+  /**
+   * Checks whether a string is an absolute ws(s) URL
+   * 
+   * @param value - String to check
+   * @returns True for ws:// and wss:// URLs
+   * 
+   * Time Complexity: O(n) where n is the length of the string
+   * Space Complexity: O(1)
+   */
+  function isWebSocketUrl(value: string): boolean {
+    try {
+      const url = new URL(value);
+      return url.protocol === 'ws:' || url.protocol === 'wss:';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Checks whether a string is an absolute http(s) URL
+   * 
+   * @param value - String to check
+   * @returns True for http:// and https:// URLs
+   * 
+   * Time Complexity: O(n) where n is the length of the string
+   * Space Complexity: O(1)
+   */
+  function isHttpUrl(value: string): boolean {
+    try {
+      const url = new URL(value);
+      return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Builds the export format of the current dashboard layout
+   * 
+   * @returns Layout data with tiles, settings, grid configuration and metadata
+   * 
+   * Time Complexity: O(1); tiles are referenced, not copied
+   * Space Complexity: O(1)
+   */
+  function buildLayoutExport() {
+    return {
+      version: LAYOUT_SCHEMA_VERSION,
+      name: dashboardStore.currentLayout.name,
+      exportDate: new Date().toISOString(),
+      tiles: dashboardStore.currentLayout.tiles,
+      gridConfig: dashboardStore.gridConfig,
+      compactionMode: dashboardStore.compactionMode,
+      collisionMode: dashboardStore.collisionMode,
+      metadata: {
+        tileCount: dashboardStore.currentLayout.tiles.length,
+        gridColumns: dashboardStore.gridColumns,
+      },
+    };
+  }
+
+  /**
+   * Exports the current dashboard layout
+   * 
+   * Creates a JSON file download with the current layout configuration.
+   * Includes metadata for version compatibility.
+   * 
+   * Time Complexity: O(n) where n is number of tiles
+   * Space Complexity: O(n) for JSON serialization
+   */
+  function exportLayout(): void {
+    try {
+      const layout = buildLayoutExport();
+
+      const jsonString = JSON.stringify(layout, null, 2);
+      const blob = new Blob([jsonString], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+
+      // Create download link and trigger download
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `dashboard-layout-${new Date().toISOString().split('T')[0]}.json`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      showOperationMessage(`Layout exported with ${layout.metadata.tileCount} tiles`);
+      console.debug('Layout exported successfully', layout.metadata);
+    } catch (error) {
+      console.error('Failed to export layout:', error);
+      showOperationMessage('Failed to export layout', 'error');
+    }
+  }
+
+  /**
+   * Copies a link that opens the current dashboard in any browser
+   * 
+   * The layout is compressed into the URL fragment. Dashboards whose link
+   * would exceed {@link MAX_SHARE_URL_LENGTH} are not copied; the message
+   * suggests exporting them as a file instead.
+   * 
+   * Time Complexity: O(n) where n is size of the layout
+   * Space Complexity: O(n)
+   */
+  async function handleCopyShareLink(): Promise<void> {
+    let url: string;
+    try {
+      const shareUrl = new URL(router.resolve({ name: 'share' }).href, window.location.origin).href;
+      url = buildShareUrl(shareUrl, await encodeShareData(buildLayoutExport()));
+    } catch (error) {
+      console.error('Failed to create share link:', error);
+      showOperationMessage('Failed to create share link', 'error');
+      return;
+    }
+
+    if (url.length > MAX_SHARE_URL_LENGTH) {
+      const percent = Math.ceil((url.length / MAX_SHARE_URL_LENGTH) * 100);
+      console.warn(`Share link has ${url.length} characters, limit is ${MAX_SHARE_URL_LENGTH}`);
+      showOperationMessage(
+        `This dashboard is too large for a share link (${percent}% of the limit). Remove some tiles or use Export Layout instead.`,
+        'error',
+        8000
+      );
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(url);
+      showOperationMessage(`Share link copied (${url.length} characters)`);
+    } catch (error) {
+      console.error('Failed to write share link to the clipboard:', error);
+      showOperationMessage('Clipboard access was denied', 'error');
+    }
+  }
+
+  /**
+   * Initiates layout import process
+   * 
+   * Triggers file input dialog for users to select a layout file.
+   * The actual import is handled by handleFileImport.
+   * 
+   * Time Complexity: O(1)
+   * Space Complexity: O(1)
+   */
+  function importLayout(): void {
+    if (!fileInput.value) {
+      showOperationMessage('File input not available', 'error');
+      console.error('File input element not found');
+      return;
+    }
+
+    // Reset file input to allow re-selecting the same file
+    fileInput.value.value = '';
+    fileInput.value.click();
+    console.debug('Import dialog opened');
+  }
+
+  /**
+   * Handles the file import process
+   * 
+   * Processes selected JSON file and validates its format. Valid files
+   * become the pending import, for which the user chooses between replacing
+   * the dashboard and merging tiles into it. Files with problems are not
+   * applied; instead a per-field report is shown, from which fixable files
+   * can be repaired and imported.
+   * 
+   * @param event - File input change event
+   * 
+   * Time Complexity: O(n) where n is size of imported layout
+   * Space Complexity: O(n) for layout processing
+   */
+  function handleFileImport(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+
+    if (!file) {
+      console.debug('No file selected for import');
+      return;
+    }
+
+    if (!file.name.endsWith('.json')) {
+      showOperationMessage('Please select a JSON file', 'error');
+      return;
+    }
+
+    console.debug(`Importing layout from file: ${file.name}`);
+
+    const reader = new FileReader();
+    
+    reader.onload = (e) => {
+      try {
+        const jsonString = e.target?.result as string;
+        const importedData = JSON.parse(jsonString);
+
+        // Upgrade files from older versions; files from newer versions are rejected
+        let layout: MigratedLayoutData;
+        try {
+          layout = migrateLayout(importedData);
+        } catch (error) {
+          console.warn('Cannot import layout file:', error);
+          showOperationMessage((error as Error).message, 'error', 8000);
+          return;
+        }
+
+        // Validate layout structure; problems are reported instead of applied
+        const { issues, repaired } = validateLayout(layout);
+        if (issues.length > 0) {
+          console.warn(`Layout file has ${issues.length} problem(s):`, issues);
+          importReport.value = { fileName: file.name, issues, repaired };
+          return;
+        }
+
+        // Let the user choose between replacing and merging
+        pendingImport.value = { fileName: file.name, layout };
+      } catch (error) {
+        console.error('Failed to parse layout file:', error);
+        showOperationMessage('Failed to read layout file', 'error');
+      }
+    };
+
+    reader.onerror = () => {
+      console.error('Error reading file:', reader.error);
+      showOperationMessage('Error reading file', 'error');
+    };
+
+    reader.readAsText(file);
+  }
+
+  /**
+   * Continues the import with the repaired layout from the current import report
+   * 
+   * The repaired layout becomes the pending import. Does nothing if the
+   * report contains problems that cannot be repaired.
+   * 
+   * Time Complexity: O(1)
+   * Space Complexity: O(1)
+   */
+  function handleRepairImport(): void {
+    const report = importReport.value;
+    if (!report) return;
+
+    importReport.value = null;
+
+    if (report.issues.some(issue => !issue.fixable)) {
+      showOperationMessage('Layout file has problems that must be fixed by hand', 'error');
+      return;
+    }
+
+    console.debug(`Repaired ${report.issues.length} problem(s) in ${report.fileName}`);
+    pendingImport.value = { fileName: report.fileName, layout: report.repaired };
+  }
+
+  /**
+   * Discards the current import report without importing
+   * 
+   * Time Complexity: O(1)
+   * Space Complexity: O(1)
+   */
+  function handleCloseImportReport(): void {
+    if (importReport.value) {
+      console.debug(`Import of ${importReport.value.fileName} cancelled`);
+    }
+    importReport.value = null;
+  }
+
+  /**
+   * Replaces the active dashboard with the pending import
+   * 
+   * Time Complexity: O(n) where n is number of imported tiles
+   * Space Complexity: O(n)
+   */
+  function handleImportReplace(): void {
+    const pending = pendingImport.value;
+    if (!pending) return;
+
+    pendingImport.value = null;
+
+    try {
+      dashboardStore.importLayout({ version: LAYOUT_SCHEMA_VERSION, ...pending.layout });
+      showOperationMessage(`Layout imported with ${pending.layout.tiles.length} tiles`);
+      console.debug('Layout imported successfully', pending.layout.metadata || {});
+    } catch (error) {
+      console.error('Failed to apply imported layout:', error);
+      showOperationMessage((error as Error).message, 'error', 5000);
+    }
+  }
+
+  /**
+   * Merges selected tiles of the pending import into the active dashboard
+   * 
+   * @param tileIds - IDs of the imported tiles to merge
+   * 
+   * Time Complexity: O(n * r * c) where n is number of tiles, for placement
+   * Space Complexity: O(n)
+   */
+  function handleImportMerge(tileIds: string[]): void {
+    const pending = pendingImport.value;
+    if (!pending) return;
+
+    pendingImport.value = null;
+
+    if (tileIds.length === 0) {
+      showOperationMessage('No tiles selected to import', 'info');
+      return;
+    }
+
+    // Imported IDs that already exist on the dashboard get new IDs
+    const existingIds = new Set(dashboardStore.currentLayout.tiles.map(tile => tile.id));
+    const remapped = tileIds.filter(tileId => existingIds.has(tileId)).length;
+
+    try {
+      const merged = dashboardStore.mergeLayout({ version: LAYOUT_SCHEMA_VERSION, ...pending.layout }, tileIds);
+
+      showOperationMessage(
+        `Added ${merged.length} ${merged.length === 1 ? 'tile' : 'tiles'} from ${pending.fileName}` +
+        (remapped > 0 ? ` (${remapped} with new IDs)` : '')
+      );
+      console.debug(`Merged ${merged.length} tiles from ${pending.fileName}`);
+    } catch (error) {
+      console.error('Failed to merge imported layout:', error);
+      showOperationMessage((error as Error).message, 'error', 5000);
+    }
+  }
+
+  /**
+   * Discards the pending import without changing the dashboard
+   * 
+   * Time Complexity: O(1)
+   * Space Complexity: O(1)
+   */
+  function handleCloseImport(): void {
+    if (pendingImport.value) {
+      console.debug(`Import of ${pendingImport.value.fileName} cancelled`);
+    }
+    pendingImport.value = null;
+  }
+
+  /**
+   * Handles locking or unlocking a single tile
+   * 
+   * Locked tiles cannot be moved, resized or deleted; the toggle itself is undoable.
+   * 
+   * @param tileId - ID of the tile to lock or unlock
+   * 
+   * Time Complexity: O(n) where n is number of tiles
+   * Space Complexity: O(n)
+   */
+  function handleToggleTileLock(tileId: string): void {
+    const tile = dashboardStore.currentLayout.tiles.find(t => t.id === tileId);
+    if (!tile) {
+      showOperationMessage('Tile not found', 'error');
+      return;
+    }
+
+    const locked = !tile.locked;
+    if (dashboardStore.setTileLocked(tileId, locked)) {
+      showOperationMessage(`${locked ? 'Locked' : 'Unlocked'} "${tile.title}"`, 'info');
+    } else {
+      showOperationMessage('The layout is locked', 'warning');
+    }
+  }
+
+  /**
+   * Handles switching the whole dashboard into or out of view-only mode
+   * 
+   * Time Complexity: O(1)
+   * Space Complexity: O(1)
+   */
+  function handleToggleLayoutLock(): void {
+    const locked = !dashboardStore.isLayoutLocked;
+
+    dashboardStore.setLayoutLocked(locked);
+    showOperationMessage(
+      locked ? 'Layout locked: view only' : 'Layout unlocked for editing',
+      'info'
+    );
+  }
+
+  /**
+   * Handles choosing what happens when a moved tile lands on other tiles
+   * 
+   * @param mode - Collision mode for the active dashboard
+   * 
+   * Time Complexity: O(1)
+   * Space Complexity: O(1)
+   */
+  function handleSetCollisionMode(mode: CollisionMode): void {
+    const messages: Record<CollisionMode, string> = {
+      push: 'Tiles in the way are now pushed down',
+      swap: 'Dropping a tile onto another now swaps them',
+      reject: 'Overlapping moves are now rejected',
+    };
+
+    if (!dashboardStore.setCollisionMode(mode)) {
+      showOperationMessage('The layout is locked', 'warning');
+      return;
+    }
+    showOperationMessage(messages[mode], 'info');
+  }
+
+  /**
+   * Handles resetting the current breakpoint's arrangement
+   * 
+   * Discards hand-edited tile positions for the current (non-desktop)
+   * breakpoint so that they are derived from the desktop layout again.
+   * 
+   * Time Complexity: O(n²) where n is number of tiles
+   * Space Complexity: O(n)
+   */
+  function handleResetBreakpointLayout(): void {
+    const breakpoint = dashboardStore.currentBreakpoint;
+
+    if (breakpoint === 'desktop') {
+      showOperationMessage('The desktop layout is always edited directly', 'info');
+      return;
+    }
+
+    if (dashboardStore.resetBreakpointLayout(breakpoint)) {
+      showOperationMessage(`${breakpoint} layout now follows desktop`, 'success');
+    } else {
+      showOperationMessage(`${breakpoint} layout already follows desktop`, 'info');
+    }
+  }
+
+  /**
+   * Handles compacting the current arrangement once
+   * 
+   * Floats all tiles upward to close gaps, independent of the compaction mode.
+   * 
+   * Time Complexity: O(n² * h) where n is number of tiles and h the grid height
+   * Space Complexity: O(n)
+   */
+  function handleCompactLayout(): void {
+    if (dashboardStore.compactLayout()) {
+      showOperationMessage('Layout compacted');
+    } else {
+      showOperationMessage('Layout is already compact', 'info');
+    }
+  }
+
+  /**
+   * Handles toggling vertical compaction for the active dashboard
+   * 
+   * Time Complexity: O(n² * h) when enabling, O(1) when disabling
+   * Space Complexity: O(n)
+   */
+  function handleToggleCompaction(): void {
+    const enable = dashboardStore.compactionMode !== 'vertical';
+
+    if (!dashboardStore.setCompactionMode(enable ? 'vertical' : 'none')) {
+      showOperationMessage('The layout is locked', 'warning');
+      return;
+    }
+    showOperationMessage(
+      enable ? 'Tiles now float upward after every change' : 'Tiles now stay where they are placed',
+      'info'
+    );
+  }
+
+  /**
+   * Shows detailed layout information
+   * 
+   * Displays comprehensive information about the current dashboard layout
+   * including statistics and configuration details.
+   * 
+   * Time Complexity: O(n) where n is number of tiles
+   * Space Complexity: O(1)
+   */
+  function showLayoutInfo(): void {
+    const tiles = dashboardStore.tiles;
+    const stats = {
+      totalTiles: tiles.length,
+      gridColumns: dashboardStore.gridColumns,
+      breakpoint: dashboardStore.currentBreakpoint,
+      customized: dashboardStore.isBreakpointCustomized,
+      layoutName: dashboardStore.currentLayout.name,
+      created: dashboardStore.currentLayout.created,
+      modified: dashboardStore.currentLayout.modified,
+      totalArea: tiles.reduce((sum, tile) => sum + (tile.width * tile.height), 0),
+    };
+
+    const infoMessage = [
+      `Layout: ${stats.layoutName}`,
+      `Tiles: ${stats.totalTiles}`,
+      `Grid: ${stats.gridColumns} columns`,
+      `Compaction: ${dashboardStore.compactionMode}`,
+      `Collisions: ${dashboardStore.collisionMode}`,
+      `Locked: ${dashboardStore.isLayoutLocked ? 'whole layout' : `${tiles.filter(tile => tile.locked).length} tiles`}`,
+      `Breakpoint: ${stats.breakpoint} (${stats.customized ? 'custom arrangement' : 'follows desktop'})`,
+      `Total area: ${stats.totalArea} units`,
+      `Snapshots: ${dashboardStore.snapshots.length}`,
+      `Storage: ${dashboardStore.storageName}`,
+      `Layout server: ${dashboardStore.serverSync.serverUrl ?? 'not connected'}`,
+      `Collaboration: ${dashboardStore.collaboration.room ?? 'off'}`,
+      `Created: ${stats.created.toLocaleDateString()}`,
+      `Modified: ${stats.modified.toLocaleDateString()}`,
+    ].join('\n');
+
+    // For now, use alert - could be enhanced with a proper info modal
+    alert(`Dashboard Information\n\n${infoMessage}`);
+    console.debug('Layout info displayed:', stats);
+  }
+
+  // Return public interface
+  return {
+    // Reactive state
+    operationMessage,
+    operationMessageClass,
+    confirmationTitle,
+    confirmationMessage,
+    confirmationAction,
+    importReport,
+    pendingImport,
+
+    // User feedback
+    showOperationMessage,
+    showConfirmation,
+    confirmAction,
+
+    // Tile operations
+    handleAddTile,
+    handleTileDelete,
+    handleTileEdit,
+    handleClearDashboard,
+    handleToggleTileLock,
+
+    // Selection
+    handleTileSelect,
+    handleSelectAll,
+    handleClearSelection,
+    handleDeleteSelection,
+    handleDuplicateSelection,
+    handleSetSelectionRefreshInterval,
+
+    // Clipboard
+    handleTileDuplicate,
+    getSelectionClipboardText,
+    handleSelectionCopied,
+    handleCopySelection,
+    handlePasteText,
+    handlePasteFromClipboard,
+
+    // History
+    handleUndo,
+    handleRedo,
+    handleCreateSnapshot,
+    handleRestoreSnapshot,
+    handleDeleteSnapshot,
+    describeOperation,
+
+    // Dashboard management
+    handleSwitchDashboard,
+    handleCreateDashboard,
+    handleRenameDashboard,
+    handleDuplicateDashboard,
+    handleCreateFromTemplate,
+    handleSaveAsTemplate,
+    handleDeleteTemplate,
+    handleSaveTilePreset,
+    handleRenameTilePreset,
+    handleDeleteTilePreset,
+    exportTilePresets,
+    handleImportTilePresets,
+    handleDeleteDashboard,
+
+    // Layout server sync
+    handleConfigureLayoutServer,
+    handleSyncWithServer,
+    handleResolveSyncConflict,
+
+    // Collaboration
+    handleStartCollaboration,
+    handleStopCollaboration,
+
+    // Layout operations
+    exportLayout,
+    handleCopyShareLink,
+    importLayout,
+    handleFileImport,
+    handleRepairImport,
+    handleCloseImportReport,
+    handleImportReplace,
+    handleImportMerge,
+    handleCloseImport,
+    showLayoutInfo,
+    handleResetBreakpointLayout,
+    handleCompactLayout,
+    handleToggleCompaction,
+    handleSetCollisionMode,
+    handleToggleLayoutLock,
   };
 }
\ No newline at end of file
@@ -0,0 +1,148 @@
+/**
+ * Keyboard Shortcuts Composable
+ *
+ * Registers global keyboard shortcuts for the lifetime of a component.
+ *
+ * Features:
+ * - Ctrl/Cmd modifier handling across platforms
+ * - Shift and Alt modifier matching
+ * - Ignores key presses while the user is typing in form fields
+ * - Ignores key presses while a modal dialog is open
+ * - Automatic listener cleanup on unmount
+ *
+ * @author Dashboard System
+ * @version 1.0.0
+ */
+
+import { onMounted, onUnmounted } from 'vue';
+
+/**
+ * Keyboard shortcut definition
+ */
+export interface KeyboardShortcut {
+  /** Key to match, compared case-insensitively against `KeyboardEvent.key` */
+  key: string;
+  /** Require Ctrl (or Cmd on macOS) */
+  ctrl?: boolean;
+  /** Require Shift */
+  shift?: boolean;
+  /** Require Alt */
+  alt?: boolean;
+  /** Also fire while focus is in an input, select, textarea or editable element */
+  allowInInputs?: boolean;
+  /** Also fire while a modal dialog is open or has focus */
+  allowInModals?: boolean;
+  /** Handler invoked when the shortcut matches */
+  handler: (event: KeyboardEvent) => void;
+}
+
+/**
+ * Checks whether the event target is a text-entry element
+ *
+ * Shared by the keyboard shortcut and clipboard composables, which leave
+ * keys and clipboard events in form fields to the browser.
+ *
+ * @param target - Event target
+ * @returns True if the user is typing into a form field
+ */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) {
+    return false;
+  }
+
+  return target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName);
+}
+
+/**
+ * Checks whether a modal dialog is open or the event target is inside one
+ *
+ * Shortcuts acting on the dashboard must not reach the tiles behind a
+ * Bootstrap modal, including while it is fading in or out.
+ *
+ * @param target - Event target
+ * @returns True if a modal is shown or contains the target
+ */
+function isModalActive(target: EventTarget | null): boolean {
+  if (document.querySelector('.modal.show')) {
+    return true;
+  }
+
+  return target instanceof Element && target.closest('.modal') !== null;
+}
+
+/**
+ * Checks whether a keyboard event matches a shortcut definition
+ *
+ * @param event - Keyboard event
+ * @param shortcut - Shortcut definition
+ * @returns True if key and all modifiers match
+ *
+ * Time Complexity: O(1)
+ * Space Complexity: O(1)
+ */
+function matchesShortcut(event: KeyboardEvent, shortcut: KeyboardShortcut): boolean {
+  const ctrlPressed = event.ctrlKey || event.metaKey;
+
+  return (
+    event.key.toLowerCase() === shortcut.key.toLowerCase() &&
+    ctrlPressed === Boolean(shortcut.ctrl) &&
+    event.shiftKey === Boolean(shortcut.shift) &&
+    event.altKey === Boolean(shortcut.alt)
+  );
+}
+
+/**
+ * Keyboard Shortcuts Composable
+ *
+ * Listens for keydown events on the window while the calling component is
+ * mounted and dispatches them to the first matching shortcut.
+ *
+ * Time Complexity: O(n) per key press where n is number of shortcuts
+ * Space Complexity: O(1)
+ *
+ * @param shortcuts - Shortcut definitions
+ *
+ * @example
+ * ```typescript
+ * useKeyboardShortcuts([
+ *   { key: 'z', ctrl: true, handler: handleUndo },
+ *   { key: 'z', ctrl: true, shift: true, handler: handleRedo },
+ * ]);
+ * ```
+ */
+export function useKeyboardShortcuts(shortcuts: KeyboardShortcut[]) {
+  /**
+   * Dispatches a key press to the first matching shortcut
+   *
+   * @param event - Keyboard event from the window
+   */
+  function handleKeydown(event: KeyboardEvent): void {
+    const typing = isEditableTarget(event.target);
+    const inModal = isModalActive(event.target);
+
+    const shortcut = shortcuts.find(candidate =>
+      matchesShortcut(event, candidate) &&
+      (!typing || candidate.allowInInputs) &&
+      (!inModal || candidate.allowInModals)
+    );
+
+    if (!shortcut) {
+      return;
+    }
+
+    event.preventDefault();
+    shortcut.handler(event);
+  }
+
+  onMounted(() => {
+    window.addEventListener('keydown', handleKeydown);
+  });
+
+  onUnmounted(() => {
+    window.removeEventListener('keydown', handleKeydown);
+  });
+
+  return {
+    handleKeydown,
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * Tile Clipboard Composable
+ *
+ * Hooks the browser's copy and paste events (Ctrl+C / Ctrl+V, or the
+ * browser's Edit menu) up to the dashboard for the lifetime of a component.
+ *
+ * Features:
+ * - Copies tiles through the system clipboard, so pasting works across tabs
+ * - Leaves ordinary text copy and paste alone (form fields, selected text)
+ * - Automatic listener cleanup on unmount
+ *
+ * @author Dashboard System
+ * @version 1.0.0
+ */
+
+import { onMounted, onUnmounted } from 'vue';
+import { isEditableTarget } from '@/composables/useKeyboardShortcuts';
+
+/**
+ * Composable options interface
+ */
+interface UseTileClipboardOptions {
+  /** Returns the clipboard text for the current selection, or null if nothing is selected */
+  getCopyText: () => string | null;
+  /** Called after the copied text has been put on the clipboard */
+  onCopied?: () => void;
+  /** Handles pasted text; returns true if the text was tile data and has been consumed */
+  onPaste: (text: string) => boolean;
+}
+
+/**
+ * Tile Clipboard Composable
+ *
+ * Time Complexity: O(1) per event, plus the cost of the callbacks
+ * Space Complexity: O(1)
+ *
+ * @param options - Callbacks producing and consuming clipboard text
+ *
+ * @example
+ * ```typescript
+ * useTileClipboard({
+ *   getCopyText: getSelectionClipboardText,
+ *   onCopied: handleSelectionCopied,
+ *   onPaste: handlePasteText,
+ * });
+ * ```
+ */
+export function useTileClipboard(options: UseTileClipboardOptions) {
+  const { getCopyText, onCopied, onPaste } = options;
+
+  /**
+   * Puts the selected tiles on the clipboard unless the user is copying text
+   *
+   * @param event - Clipboard copy event
+   */
+  function handleCopy(event: ClipboardEvent): void {
+    const hasTextSelection = Boolean(window.getSelection()?.toString());
+    if (isEditableTarget(event.target) || hasTextSelection || !event.clipboardData) {
+      return;
+    }
+
+    const text = getCopyText();
+    if (text === null) {
+      return;
+    }
+
+    event.clipboardData.setData('text/plain', text);
+    event.preventDefault();
+    onCopied?.();
+  }
+
+  /**
+   * Pastes tiles from the clipboard unless the user is pasting into a field
+   *
+   * @param event - Clipboard paste event
+   */
+  function handlePaste(event: ClipboardEvent): void {
+    if (isEditableTarget(event.target) || !event.clipboardData) {
+      return;
+    }
+
+    if (onPaste(event.clipboardData.getData('text/plain'))) {
+      event.preventDefault();
+    }
+  }
+
+  onMounted(() => {
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('paste', handlePaste);
+  });
+
+  onUnmounted(() => {
+    document.removeEventListener('copy', handleCopy);
+    document.removeEventListener('paste', handlePaste);
+  });
+
+  return {
+    handleCopy,
+    handlePaste,
+  };
+}
@@ -47,11 +47,13 @@ interface DragDropEmits {
  * Composable options interface
  */
 interface UseTileDragDropOptions {
-  tile: Tile;
+  tile: Ref<Tile>;
   tileElement: Ref<HTMLElement | undefined>;
-  gridColumns: number;
-  rowHeight: number;
+  gridColumns: Ref<number>;
+  rowHeight: Ref<number>;
   isResizing: Ref<boolean>;
+  /** Locked tiles cannot be dragged */
+  isLocked: Ref<boolean>;
   emit: (event: string, ...args: unknown[]) => void;
 }
 
@@ -74,17 +76,18 @@ interface UseTileDragDropOptions {
  *   startDragFromHandle,
  *   isMouseDown 
  * } = useTileDragDrop({
- *   tile: tileRef.value,
+ *   tile: toRef(props, 'tile'),
  *   tileElement,
- *   gridColumns: 12,
- *   rowHeight: 100,
+ *   gridColumns: toRef(props, 'gridColumns'),
+ *   rowHeight: toRef(props, 'rowHeight'),
  *   isResizing,
+ *   isLocked,
  *   emit
  * });
  * ```
  */
 export function useTileDragDrop(options: UseTileDragDropOptions) {
-  const { tile, tileElement, gridColumns, rowHeight, isResizing, emit } = options;
+  const { tile, tileElement, gridColumns, rowHeight, isResizing, isLocked, emit } = options;
 
   // Reactive state for drag operations
   const dragState = ref<DragState>({
@@ -116,17 +119,17 @@ export function useTileDragDrop(options: UseTileDragDropOptions) {
     const relativeX = clientX - rect.left;
     const relativeY = clientY - rect.top;
 
-    const columnWidth = rect.width / gridColumns;
+    const columnWidth = rect.width / gridColumns.value;
 
     // Calculate grid position with boundary constraints
     const gridX = Math.max(
       0, 
       Math.min(
-        gridColumns - tile.width, 
+        gridColumns.value - tile.value.width, 
         Math.floor(relativeX / columnWidth)
       )
     );
-    const gridY = Math.max(0, Math.floor(relativeY / rowHeight));
+    const gridY = Math.max(0, Math.floor(relativeY / rowHeight.value));
 
     return { x: gridX, y: gridY };
   }
@@ -135,11 +138,17 @@ export function useTileDragDrop(options: UseTileDragDropOptions) {
    * Handles HTML5 drag start event
    * 
    * Initializes HTML5 drag and drop with proper data transfer setup.
-   * Prevents dragging when tile is being resized.
+   * Prevents dragging when tile is being resized or locked.
    * 
    * @param event - HTML5 drag event
    */
   function handleDragStart(event: DragEvent): void {
+    if (isLocked.value) {
+      event.preventDefault();
+      console.debug('Drag prevented: tile is locked');
+      return;
+    }
+
     if (isResizing.value) {
       event.preventDefault();
       console.debug('Drag prevented: tile is being resized');
@@ -147,7 +156,7 @@ export function useTileDragDrop(options: UseTileDragDropOptions) {
     }
 
     // Set drag data for HTML5 drag and drop compatibility
-    event.dataTransfer?.setData('text/plain', tile.id);
+    event.dataTransfer?.setData('text/plain', tile.value.id);
 
     // Customize drag image for better visual feedback
     const rect = tileElement.value?.getBoundingClientRect();
@@ -157,8 +166,8 @@ export function useTileDragDrop(options: UseTileDragDropOptions) {
       event.dataTransfer.setDragImage(tileElement.value, offsetX, offsetY);
     }
 
-    emit('dragStart', tile.id);
-    console.debug(`Drag started for tile: ${tile.id}`);
+    emit('dragStart', tile.value.id);
+    console.debug(`Drag started for tile: ${tile.value.id}`);
   }
 
   /**
@@ -168,7 +177,7 @@ export function useTileDragDrop(options: UseTileDragDropOptions) {
    */
   function handleDragEnd(): void {
     emit('dragEnd', true);
-    console.debug(`Drag ended for tile: ${tile.id}`);
+    console.debug(`Drag ended for tile: ${tile.value.id}`);
   }
 
   /**
@@ -180,6 +189,9 @@ export function useTileDragDrop(options: UseTileDragDropOptions) {
    * @param event - Mouse event from drag handle
    */
   function startDragFromHandle(event: MouseEvent): void {
+    // Locked tiles behave like static content, so leave the event alone
+    if (isLocked.value) return;
+
     event.preventDefault();
 
     if (isResizing.value) {
@@ -194,8 +206,8 @@ export function useTileDragDrop(options: UseTileDragDropOptions) {
     };
     dragState.value.isMouseDown = true;
 
-    emit('dragStart', tile.id);
-    console.debug(`Manual drag started from handle for tile: ${tile.id}`);
+    emit('dragStart', tile.value.id);
+    console.debug(`Manual drag started from handle for tile: ${tile.value.id}`);
 
     // Attach global event listeners for drag tracking
     document.addEventListener('mousemove', handleDragMove);
@@ -211,6 +223,9 @@ export function useTileDragDrop(options: UseTileDragDropOptions) {
    * @param event - Touch event from drag handle
    */
   function startTouchDragFromHandle(event: TouchEvent): void {
+    // Keep native scrolling on locked tiles
+    if (isLocked.value) return;
+
     event.preventDefault();
 
     if (isResizing.value || event.touches.length !== 1) {
@@ -225,12 +240,13 @@ export function useTileDragDrop(options: UseTileDragDropOptions) {
     };
     dragState.value.isMouseDown = true;
 
-    emit('dragStart', tile.id);
-    console.debug(`Touch drag started from handle for tile: ${tile.id}`);
+    emit('dragStart', tile.value.id);
+    console.debug(`Touch drag started from handle for tile: ${tile.value.id}`);
 
     // Attach global touch event listeners
     document.addEventListener('touchmove', handleTouchDragMove, { passive: false });
     document.addEventListener('touchend', handleTouchDragStop);
+    document.addEventListener('touchcancel', handleTouchDragCancel);
   }
 
   /**
@@ -356,7 +372,7 @@ export function useTileDragDrop(options: UseTileDragDropOptions) {
     dragState.value.dragStartPosition = null;
 
     emit('dragEnd', true);
-    console.debug(`Manual drag stopped for tile: ${tile.id}`);
+    console.debug(`Manual drag stopped for tile: ${tile.value.id}`);
 
     // Clean up global event listeners
     document.removeEventListener('mousemove', handleDragMove);
@@ -366,23 +382,56 @@ export function useTileDragDrop(options: UseTileDragDropOptions) {
   /**
    * Handles drag stop for touch events
    * 
-   * Touch equivalent of handleDragStop with proper cleanup.
+   * Touch equivalent of handleDragStop with proper cleanup. If the finger
+   * moved, the position where it is lifted is emitted first, so that a drop
+   * onto another tile lands exactly where the finger left the screen.
+   * 
+   * @param event - Touch end event
+   */
+  function handleTouchDragStop(event: TouchEvent): void {
+    if (!dragState.value.isMouseDown) {
+      return;
+    }
+
+    const touch = event.changedTouches[0];
+    const start = dragState.value.dragStartPosition;
+    if (touch && start && (touch.clientX !== start.x || touch.clientY !== start.y)) {
+      emit('dragMove', getGridPositionFromCoordinates(touch.clientX, touch.clientY));
+    }
+
+    finishTouchDrag(true);
+  }
+
+  /**
+   * Handles cancelled touch drags, e.g. when the browser takes over the gesture
+   * 
+   * Ends the drag without moving the tile.
    */
-  function handleTouchDragStop(): void {
+  function handleTouchDragCancel(): void {
     if (!dragState.value.isMouseDown) {
       return;
     }
 
+    finishTouchDrag(false);
+  }
+
+  /**
+   * Ends a touch drag and removes the global touch listeners
+   * 
+   * @param commit - Whether to commit the move
+   */
+  function finishTouchDrag(commit: boolean): void {
     // Reset drag state
     dragState.value.isMouseDown = false;
     dragState.value.dragStartPosition = null;
 
-    emit('dragEnd', true);
-    console.debug(`Touch drag stopped for tile: ${tile.id}`);
+    emit('dragEnd', commit);
+    console.debug(`Touch drag ${commit ? 'stopped' : 'cancelled'} for tile: ${tile.value.id}`);
 
     // Clean up global touch event listeners
     document.removeEventListener('touchmove', handleTouchDragMove);
     document.removeEventListener('touchend', handleTouchDragStop);
+    document.removeEventListener('touchcancel', handleTouchDragCancel);
   }
 
   /**
@@ -396,7 +445,8 @@ export function useTileDragDrop(options: UseTileDragDropOptions) {
     document.removeEventListener('mouseup', handleDragStop);
     document.removeEventListener('touchmove', handleTouchDragMove);
     document.removeEventListener('touchend', handleTouchDragStop);
-    console.debug(`Drag drop cleanup completed for tile: ${tile.id}`);
+    document.removeEventListener('touchcancel', handleTouchDragCancel);
+    console.debug(`Drag drop cleanup completed for tile: ${tile.value.id}`);
   }
 
   // Return public interface
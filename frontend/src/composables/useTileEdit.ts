@@ -10,44 +10,27 @@
  * - Modal lifecycle management
  * - Bootstrap modal integration
  * - Real-time form validation
+ * - Live preview of unsaved content changes
  * 
  * @author Dashboard System
  * @version 1.0.0
  */
 
-import { ref, computed, type Ref } from 'vue';
-import type { Tile, TileContentType } from '@/types/dashboard';
-import { TILE_CONTENT_TYPES } from '@/types/dashboard';
-
-/**
- * Edit configuration interface for different content types
- */
-interface EditContentConfig {
-  // Equity quote properties
-  symbol?: string;
-  // Placeholder properties  
-  message?: string;
-  // News properties
-  query?: string;
-  articleCount?: number;
-  language?: string;
-  country?: string;
-  // Common properties
-  autoRefresh?: boolean;
-  refreshInterval?: number;
-  displayOptions: {
-    // Equity display options
-    showChange: boolean;
-    showPercentChange: boolean;
-    showVolume: boolean;
-    showChart: boolean;
-    // News display options
-    showImages?: boolean;
-    showSource?: boolean;
-    showTimestamp?: boolean;
-    compactView?: boolean;
-  };
-}
+import { ref, computed, watch, type Ref } from 'vue';
+import type { Tile, TileContent, TileContentType } from '@/types/dashboard';
+import {
+  createTileContent,
+  getTileContentPlugin,
+  getTileContentPlugins,
+  isTileContentType,
+} from '@/utils/tileContentRegistry';
+import {
+  applyConfigValues,
+  readConfigValues,
+  validateConfigValues,
+  type TileConfigErrors,
+  type TileConfigValues,
+} from '@/utils/tileConfigSchema';
 
 /**
  * Edit form change data interface
@@ -68,24 +51,16 @@ interface EditEmits {
  * Composable options interface
  */
 interface UseTileEditOptions {
-  tile: Tile;
+  tile: Ref<Tile>;
   editModal: Ref<HTMLElement | undefined>;
   emit: (event: keyof EditEmits, ...args: any[]) => void;
 }
 
 /**
- * Default display options for all content types
+ * Delay before the live preview follows form changes, in milliseconds,
+ * so that typing a symbol does not load data for every keystroke
  */
-const DEFAULT_DISPLAY_OPTIONS = {
-  showChange: true,
-  showPercentChange: true,
-  showVolume: true,
-  showChart: false,
-  showImages: false,
-  showSource: true,
-  showTimestamp: true,
-  compactView: false,
-} as const;
+const PREVIEW_DELAY_MS = 400;
 
 /**
  * Tile Edit Composable
@@ -109,7 +84,7 @@ const DEFAULT_DISPLAY_OPTIONS = {
  *   handleSaveEdit,
  *   isEditValid 
  * } = useTileEdit({
- *   tile: tileRef.value,
+ *   tile: toRef(props, 'tile'),
  *   editModal,
  *   emit
  * });
@@ -121,18 +96,44 @@ export function useTileEdit(options: UseTileEditOptions) {
   // Form state management
   const editTitle = ref<string>('');
   const editContentType = ref<TileContentType | ''>('');
-  const editContentConfig = ref<EditContentConfig>({
-    displayOptions: { ...DEFAULT_DISPLAY_OPTIONS },
-  });
+  const editContentConfig = ref<TileConfigValues>({});
 
-  // Content types registry
-  const contentTypes = TILE_CONTENT_TYPES;
+  // Live preview state, only kept while the modal is open
+  const isPreviewActive = ref<boolean>(false);
+  const previewContent = ref<TileContent | null>(null);
+  let previewTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Registered content types
+  const contentTypes = getTileContentPlugins();
+
+  /**
+   * Plugin of the selected content type
+   */
+  const selectedPlugin = computed(() =>
+    editContentType.value ? getTileContentPlugin(editContentType.value) ?? null : null
+  );
+
+  /**
+   * Configuration fields of the selected content type
+   */
+  const configFields = computed(() => selectedPlugin.value?.configSchema ?? []);
+
+  /**
+   * Validation messages of the configuration form, keyed by field path
+   * 
+   * Time Complexity: O(f) where f is the number of configuration fields
+   * Space Complexity: O(f)
+   */
+  const configErrors = computed<TileConfigErrors>(() => {
+    const plugin = selectedPlugin.value;
+    return plugin ? validateConfigValues(plugin.configSchema, plugin.requiredFields, editContentConfig.value) : {};
+  });
 
   /**
    * Validates if the edit form has valid data
    * 
-   * Checks title length and format requirements.
-   * Can be extended for additional validation rules.
+   * Checks title length and the field validation of the content
+   * configuration form.
    * 
    * @returns True if form is valid, false otherwise
    * 
@@ -141,101 +142,115 @@ export function useTileEdit(options: UseTileEditOptions) {
    */
   const isEditValid = computed(() => {
     const trimmedTitle = editTitle.value.trim();
-    return trimmedTitle.length > 0 && trimmedTitle.length <= 100;
+    return trimmedTitle.length > 0 && trimmedTitle.length <= 100 &&
+      Object.keys(configErrors.value).length === 0;
+  });
+
+  /**
+   * Content the form currently describes, or undefined while it has
+   * validation errors
+   */
+  const draftContent = computed<TileContent | null | undefined>(() =>
+    Object.keys(configErrors.value).length === 0 ? createContentFromForm() : undefined
+  );
+
+  // The preview follows valid form changes after a short pause and keeps
+  // the last valid content while the form has errors
+  watch(draftContent, content => {
+    if (!isPreviewActive.value || content === undefined) return;
+
+    clearPreviewTimer();
+    previewTimer = setTimeout(() => {
+      previewTimer = null;
+      previewContent.value = content;
+    }, PREVIEW_DELAY_MS);
   });
 
+  /**
+   * Cancels a pending preview update
+   */
+  function clearPreviewTimer(): void {
+    if (previewTimer) {
+      clearTimeout(previewTimer);
+      previewTimer = null;
+    }
+  }
+
+  /**
+   * Discards the live preview
+   * 
+   * Called when the modal has been hidden, whether the changes were saved or
+   * cancelled, so that no preview component keeps loading data.
+   */
+  function discardPreview(): void {
+    clearPreviewTimer();
+    isPreviewActive.value = false;
+    previewContent.value = null;
+  }
+
   /**
    * Initializes form data with current tile values
    * 
    * Populates edit form fields with existing tile configuration.
-   * Handles different content types and their specific configurations.
+   * Content of a type that is no longer registered is shown as no content.
    * 
-   * Time Complexity: O(1)
-   * Space Complexity: O(1)
+   * Time Complexity: O(f) where f is the number of configuration fields
+   * Space Complexity: O(f)
    */
   function initializeEditForm(): void {
     // Initialize basic tile properties
-    editTitle.value = tile.title;
+    editTitle.value = tile.value.title;
 
     // Initialize content type and configuration
-    if (tile.content) {
-      editContentType.value = tile.content.type;
-      initializeContentConfig(tile.content);
+    const content = tile.value.content;
+    if (content && isTileContentType(content.type)) {
+      editContentType.value = content.type;
+      initializeContentConfig(content);
     } else {
-      // No content - initialize as empty
+      if (content) {
+        console.warn(`Unknown content type: ${content.type}`);
+      }
       editContentType.value = '';
-      editContentConfig.value = {
-        displayOptions: { ...DEFAULT_DISPLAY_OPTIONS },
-      };
+      editContentConfig.value = {};
     }
 
-    console.debug(`Edit form initialized for tile: ${tile.id}`);
+    console.debug(`Edit form initialized for tile: ${tile.value.id}`);
   }
 
   /**
-   * Initializes content configuration based on tile content
+   * Initializes form values for the selected content type
    * 
-   * Sets up form fields with current content configuration.
-   * Handles type-specific properties and display options.
+   * Each configuration field takes its value from the content, falling back
+   * to the default configuration of the content type.
    * 
-   * @param content - Current tile content object
+   * @param content - Current tile content, or undefined to use the defaults
    * 
-   * Time Complexity: O(1)
-   * Space Complexity: O(1)
+   * Time Complexity: O(f) where f is the number of configuration fields
+   * Space Complexity: O(f)
    */
-  function initializeContentConfig(content: any): void {
-    switch (content.type) {
-      case 'equity-quote':
-        editContentConfig.value = {
-          symbol: content.symbol || 'AAPL',
-          autoRefresh: content.autoRefresh ?? true,
-          refreshInterval: content.refreshInterval ?? 60,
-          displayOptions: {
-            showChange: content.displayOptions?.showChange ?? true,
-            showPercentChange: content.displayOptions?.showPercentChange ?? true,
-            showVolume: content.displayOptions?.showVolume ?? true,
-            showChart: content.displayOptions?.showChart ?? false,
-            showImages: false,
-            showSource: true,
-            showTimestamp: true,
-            compactView: false,
-          },
-        };
-        break;
-
-      case 'news':
-        editContentConfig.value = {
-          query: content.query || 'technology',
-          articleCount: content.articleCount || 5,
-          language: content.language || 'en',
-          country: content.country || 'US',
-          autoRefresh: content.autoRefresh ?? true,
-          refreshInterval: content.refreshInterval ?? 300,
-          displayOptions: {
-            showChange: true,
-            showPercentChange: true,
-            showVolume: true,
-            showChart: false,
-            showImages: content.displayOptions?.showImages ?? false,
-            showSource: content.displayOptions?.showSource ?? true,
-            showTimestamp: content.displayOptions?.showTimestamp ?? true,
-            compactView: content.displayOptions?.compactView ?? false,
-          },
-        };
-        break;
+  function initializeContentConfig(content?: TileContent): void {
+    const plugin = selectedPlugin.value;
+    editContentConfig.value = plugin ? readConfigValues(plugin.configSchema, content, plugin.defaultConfig) : {};
+  }
 
-      case 'placeholder':
-        editContentConfig.value = {
-          message: content.message || 'Content coming soon...',
-          displayOptions: { ...DEFAULT_DISPLAY_OPTIONS },
-        };
-        break;
+  /**
+   * Updates a value of the configuration form
+   * 
+   * @param path - Path of the field, e.g. 'displayOptions.showVolume'
+   * @param value - New form value
+   */
+  function updateConfigValue(path: string, value: unknown): void {
+    editContentConfig.value = { ...editContentConfig.value, [path]: value };
+  }
 
-      default:
-        console.warn(`Unknown content type: ${content.type}`);
-        editContentConfig.value = {
-          displayOptions: { ...DEFAULT_DISPLAY_OPTIONS },
-        };
+  /**
+   * Loads the configuration form from content changed inline in the preview
+   * 
+   * @param content - Content emitted by the previewed content component
+   */
+  function updateConfigFromContent(content: TileContent): void {
+    if (content.type === editContentType.value) {
+      initializeContentConfig(content);
     }
   }
 
@@ -245,145 +260,51 @@ export function useTileEdit(options: UseTileEditOptions) {
    * Resets content configuration when user changes content type.
    * Applies default values for the newly selected type.
    * 
-   * Time Complexity: O(1)
-   * Space Complexity: O(1)
+   * Time Complexity: O(f) where f is the number of configuration fields
+   * Space Complexity: O(f)
    */
   function handleContentTypeChange(): void {
     if (!editContentType.value) {
-      editContentConfig.value = {
-        displayOptions: { ...DEFAULT_DISPLAY_OPTIONS },
-      };
+      editContentConfig.value = {};
       return;
     }
 
-    const defaultConfig = contentTypes[editContentType.value]?.defaultConfig || {};
-    initializeDefaultConfig(editContentType.value, defaultConfig);
+    initializeContentConfig();
 
     console.debug(`Content type changed to: ${editContentType.value}`);
   }
 
-  /**
-   * Initializes default configuration for content type
-   * 
-   * Sets up default values based on content type and registry configuration.
-   * Ensures all required fields have appropriate defaults.
-   * 
-   * @param contentType - The content type to initialize
-   * @param defaultConfig - Default configuration from registry
-   * 
-   * Time Complexity: O(1)
-   * Space Complexity: O(1)
-   */
-  function initializeDefaultConfig(contentType: TileContentType, defaultConfig: any): void {
-    switch (contentType) {
-      case 'equity-quote':
-        editContentConfig.value = {
-          symbol: defaultConfig.symbol || 'AAPL',
-          autoRefresh: defaultConfig.autoRefresh ?? true,
-          refreshInterval: defaultConfig.refreshInterval ?? 60,
-          displayOptions: {
-            ...DEFAULT_DISPLAY_OPTIONS,
-            showChange: defaultConfig.displayOptions?.showChange ?? true,
-            showPercentChange: defaultConfig.displayOptions?.showPercentChange ?? true,
-            showVolume: defaultConfig.displayOptions?.showVolume ?? true,
-            showChart: defaultConfig.displayOptions?.showChart ?? false,
-          },
-        };
-        break;
-
-      case 'news':
-        editContentConfig.value = {
-          query: defaultConfig.query || 'technology',
-          articleCount: defaultConfig.articleCount || 5,
-          language: defaultConfig.language || 'en',
-          country: defaultConfig.country || 'US',
-          autoRefresh: defaultConfig.autoRefresh ?? true,
-          refreshInterval: defaultConfig.refreshInterval ?? 300,
-          displayOptions: {
-            ...DEFAULT_DISPLAY_OPTIONS,
-            showImages: defaultConfig.displayOptions?.showImages ?? false,
-            showSource: defaultConfig.displayOptions?.showSource ?? true,
-            showTimestamp: defaultConfig.displayOptions?.showTimestamp ?? true,
-            compactView: defaultConfig.displayOptions?.compactView ?? false,
-          },
-        };
-        break;
-
-      case 'placeholder':
-        editContentConfig.value = {
-          message: defaultConfig.message || 'Content coming soon...',
-          displayOptions: { ...DEFAULT_DISPLAY_OPTIONS },
-        };
-        break;
-
-      default:
-        editContentConfig.value = {
-          displayOptions: { ...DEFAULT_DISPLAY_OPTIONS },
-        };
-    }
-  }
-
   /**
    * Creates content object based on current form state
    * 
-   * Builds the content configuration object from form inputs.
-   * Validates and formats content for the selected type.
+   * Starts from the current content if its type is unchanged, otherwise
+   * from the default content of the selected type, and applies the form
+   * values. Empty values fall back to the type's defaults.
    * 
    * @returns Content object or null if no content type selected
    * 
-   * Time Complexity: O(1)
-   * Space Complexity: O(1)
+   * Time Complexity: O(f) where f is the number of configuration fields
+   * Space Complexity: O(f)
    */
-  function createContentFromForm(): object | null {
-    if (!editContentType.value) {
+  function createContentFromForm(): TileContent | null {
+    const plugin = selectedPlugin.value;
+    if (!plugin) {
       return null;
     }
 
-    switch (editContentType.value) {
-      case 'equity-quote':
-        return {
-          type: 'equity-quote' as const,
-          displayName: 'Stock Quote',
-          symbol: editContentConfig.value.symbol || 'AAPL',
-          autoRefresh: editContentConfig.value.autoRefresh ?? true,
-          refreshInterval: editContentConfig.value.refreshInterval ?? 60,
-          displayOptions: {
-            showChange: editContentConfig.value.displayOptions?.showChange ?? true,
-            showPercentChange: editContentConfig.value.displayOptions?.showPercentChange ?? true,
-            showVolume: editContentConfig.value.displayOptions?.showVolume ?? true,
-            showChart: editContentConfig.value.displayOptions?.showChart ?? false,
-          },
-        };
+    const currentContent = tile.value.content;
+    const content = currentContent?.type === plugin.type
+      ? JSON.parse(JSON.stringify(currentContent)) as TileContent
+      : createTileContent(plugin.type);
 
-      case 'news':
-        return {
-          type: 'news' as const,
-          displayName: 'News Feed',
-          query: editContentConfig.value.query || 'technology',
-          articleCount: editContentConfig.value.articleCount || 5,
-          language: editContentConfig.value.language || 'en',
-          country: editContentConfig.value.country || 'US',
-          autoRefresh: editContentConfig.value.autoRefresh ?? true,
-          refreshInterval: editContentConfig.value.refreshInterval ?? 300,
-          displayOptions: {
-            showImages: editContentConfig.value.displayOptions?.showImages ?? false,
-            showSource: editContentConfig.value.displayOptions?.showSource ?? true,
-            showTimestamp: editContentConfig.value.displayOptions?.showTimestamp ?? true,
-            compactView: editContentConfig.value.displayOptions?.compactView ?? false,
-          },
-        };
-
-      case 'placeholder':
-        return {
-          type: 'placeholder' as const,
-          displayName: 'Placeholder',
-          message: editContentConfig.value.message || 'Content coming soon...',
-        };
+    applyConfigValues(
+      plugin.configSchema,
+      editContentConfig.value,
+      content as unknown as Record<string, unknown>,
+      plugin.defaultConfig
+    );
 
-      default:
-        console.warn(`Cannot create content for unknown type: ${editContentType.value}`);
-        return null;
-    }
+    return content;
   }
 
   /**
@@ -402,13 +323,13 @@ export function useTileEdit(options: UseTileEditOptions) {
     const trimmedTitle = editTitle.value.trim();
 
     // Check if title changed
-    if (trimmedTitle !== tile.title) {
+    if (trimmedTitle !== tile.value.title) {
       changes.title = trimmedTitle;
     }
 
     // Check if content changed
     const newContent = createContentFromForm();
-    const currentContentJson = JSON.stringify(tile.content);
+    const currentContentJson = JSON.stringify(tile.value.content);
     const newContentJson = JSON.stringify(newContent);
     
     if (currentContentJson !== newContentJson) {
@@ -421,12 +342,17 @@ export function useTileEdit(options: UseTileEditOptions) {
   /**
    * Handles opening the edit modal
    * 
-   * Initializes the edit form with current tile values.
-   * Modal visibility is handled by Bootstrap data attributes.
+   * Initializes the edit form with current tile values and starts the
+   * live preview. Modal visibility is handled by Bootstrap data attributes.
    */
   function handleEdit(): void {
     initializeEditForm();
-    console.debug(`Edit modal opened for tile: ${tile.id}`);
+
+    clearPreviewTimer();
+    previewContent.value = createContentFromForm();
+    isPreviewActive.value = true;
+
+    console.debug(`Edit modal opened for tile: ${tile.value.id}`);
     // Modal will be shown by Bootstrap's data attributes
   }
 
@@ -455,8 +381,8 @@ export function useTileEdit(options: UseTileEditOptions) {
     }
 
     // Emit the tile edit event with changes
-    emit('tileEdit', tile.id, changes);
-    console.debug(`Tile edit saved for ${tile.id}:`, changes);
+    emit('tileEdit', tile.value.id, changes);
+    console.debug(`Tile edit saved for ${tile.value.id}:`, changes);
 
     closeModal();
   }
@@ -486,7 +412,7 @@ export function useTileEdit(options: UseTileEditOptions) {
         const modalInstance = windowWithBootstrap.bootstrap.Modal.getInstance(editModal.value);
         if (modalInstance) {
           modalInstance.hide();
-          console.debug(`Modal closed for tile: ${tile.id}`);
+          console.debug(`Modal closed for tile: ${tile.value.id}`);
         }
       }
     } catch (error) {
@@ -530,16 +456,19 @@ export function useTileEdit(options: UseTileEditOptions) {
       return 'Default placeholder content will be displayed';
     }
     
-    return contentTypes[type as TileContentType]?.description || 'Unknown content type';
+    return getTileContentPlugin(type)?.description || 'Unknown content type';
   }
 
   /**
    * Cleanup function for component unmounting
    * 
-   * Disposes of Bootstrap modal instance to prevent memory leaks.
+   * Discards the live preview and disposes of Bootstrap modal instance to
+   * prevent memory leaks.
    * Should be called in onUnmounted lifecycle hook.
    */
   function cleanup(): void {
+    discardPreview();
+
     if (!editModal.value) {
       return;
     }
@@ -557,7 +486,7 @@ export function useTileEdit(options: UseTileEditOptions) {
         const modalInstance = windowWithBootstrap.bootstrap.Modal.getInstance(editModal.value);
         if (modalInstance) {
           modalInstance.dispose();
-          console.debug(`Modal disposed for tile: ${tile.id}`);
+          console.debug(`Modal disposed for tile: ${tile.value.id}`);
         }
       }
     } catch (error) {
@@ -577,11 +506,21 @@ export function useTileEdit(options: UseTileEditOptions) {
     
     // Content types registry
     contentTypes,
+    selectedPlugin,
+    configFields,
+    configErrors,
+    
+    // Live preview
+    isPreviewActive,
+    previewContent,
+    discardPreview,
     
     // Event handlers
     handleEdit,
     handleSaveEdit,
     handleContentTypeChange,
+    updateConfigValue,
+    updateConfigFromContent,
     
     // Utility functions
     formatDate,
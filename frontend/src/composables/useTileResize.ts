@@ -56,11 +56,13 @@ interface ResizeEmits {
  * Composable options interface
  */
 interface UseTileResizeOptions {
-  tile: Tile;
+  tile: Ref<Tile>;
   tileElement: Ref<HTMLElement | undefined>;
-  gridColumns: number;
-  rowHeight: number;
+  gridColumns: Ref<number>;
+  rowHeight: Ref<number>;
   isDragging: Ref<boolean>;
+  /** Locked tiles cannot be resized */
+  isLocked: Ref<boolean>;
   emit: (event: string, ...args: unknown[]) => void;
 }
 
@@ -84,17 +86,18 @@ interface UseTileResizeOptions {
  *   startTouchResize,
  *   cleanup 
  * } = useTileResize({
- *   tile: tileRef.value,
+ *   tile: toRef(props, 'tile'),
  *   tileElement,
- *   gridColumns: 12,
- *   rowHeight: 100,
+ *   gridColumns: toRef(props, 'gridColumns'),
+ *   rowHeight: toRef(props, 'rowHeight'),
  *   isDragging,
+ *   isLocked,
  *   emit
  * });
  * ```
  */
 export function useTileResize(options: UseTileResizeOptions) {
-  const { tile, tileElement, gridColumns, rowHeight, isDragging, emit } = options;
+  const { tile, tileElement, gridColumns, rowHeight, isDragging, isLocked, emit } = options;
 
   // Reactive state for resize operations
   const resizeStartData = ref<ResizeStartData | null>(null);
@@ -125,7 +128,7 @@ export function useTileResize(options: UseTileResizeOptions) {
     }
 
     const rect = container.getBoundingClientRect();
-    const columnWidth = rect.width / gridColumns;
+    const columnWidth = rect.width / gridColumns.value;
 
     let newWidth = resizeStartData.value.startWidth;
     let newHeight = resizeStartData.value.startHeight;
@@ -134,13 +137,13 @@ export function useTileResize(options: UseTileResizeOptions) {
     switch (resizeStartData.value.handle) {
       case 'se': // Southeast corner - resize both dimensions
         newWidth = resizeStartData.value.startWidth + Math.round(deltaX / columnWidth);
-        newHeight = resizeStartData.value.startHeight + Math.round(deltaY / rowHeight);
+        newHeight = resizeStartData.value.startHeight + Math.round(deltaY / rowHeight.value);
         break;
       case 'e': // East edge - resize width only
         newWidth = resizeStartData.value.startWidth + Math.round(deltaX / columnWidth);
         break;
       case 's': // South edge - resize height only
-        newHeight = resizeStartData.value.startHeight + Math.round(deltaY / rowHeight);
+        newHeight = resizeStartData.value.startHeight + Math.round(deltaY / rowHeight.value);
         break;
       default:
         console.warn(`Unknown resize handle: ${resizeStartData.value.handle}`);
@@ -168,17 +171,17 @@ export function useTileResize(options: UseTileResizeOptions) {
    * Space Complexity: O(1)
    */
   function calculateSizeConstraints() {
-    const minWidth = tile.minWidth || DEFAULT_TILE_SIZE.minWidth;
-    const minHeight = tile.minHeight || DEFAULT_TILE_SIZE.minHeight;
+    const minWidth = tile.value.minWidth || DEFAULT_TILE_SIZE.minWidth;
+    const minHeight = tile.value.minHeight || DEFAULT_TILE_SIZE.minHeight;
     
     // Maximum width is constrained by grid columns and tile position
     const maxWidth = Math.min(
-      tile.maxWidth || gridColumns,
-      gridColumns - tile.x
+      tile.value.maxWidth || gridColumns.value,
+      gridColumns.value - tile.value.x
     );
     
     // Maximum height uses tile setting or reasonable default
-    const maxHeight = tile.maxHeight || 20;
+    const maxHeight = tile.value.maxHeight || 20;
 
     return {
       minWidth,
@@ -202,7 +205,7 @@ export function useTileResize(options: UseTileResizeOptions) {
     
     if (newSize) {
       emit('resizeMove', newSize);
-      console.debug(`Resize move: ${newSize.width}x${newSize.height} for tile ${tile.id}`);
+      console.debug(`Resize move: ${newSize.width}x${newSize.height} for tile ${tile.value.id}`);
     }
   }
 
@@ -219,8 +222,8 @@ export function useTileResize(options: UseTileResizeOptions) {
     event.preventDefault();
     event.stopPropagation();
 
-    if (isDragging.value) {
-      console.debug('Resize prevented: tile is being dragged');
+    if (isDragging.value || isLocked.value) {
+      console.debug('Resize prevented: tile is being dragged or is locked');
       return;
     }
 
@@ -229,12 +232,12 @@ export function useTileResize(options: UseTileResizeOptions) {
       handle,
       startX: event.clientX,
       startY: event.clientY,
-      startWidth: tile.width,
-      startHeight: tile.height,
+      startWidth: tile.value.width,
+      startHeight: tile.value.height,
     };
 
-    emit('resizeStart', tile.id, handle);
-    console.debug(`Resize started: ${handle} handle for tile ${tile.id}`);
+    emit('resizeStart', tile.value.id, handle);
+    console.debug(`Resize started: ${handle} handle for tile ${tile.value.id}`);
 
     // Attach global event listeners for resize tracking
     document.addEventListener('mousemove', handleResizeMove);
@@ -254,8 +257,8 @@ export function useTileResize(options: UseTileResizeOptions) {
     event.preventDefault();
     event.stopPropagation();
 
-    if (isDragging.value || event.touches.length !== 1) {
-      console.debug('Touch resize prevented: dragging or multi-touch detected');
+    if (isDragging.value || isLocked.value || event.touches.length !== 1) {
+      console.debug('Touch resize prevented: dragging, locked or multi-touch detected');
       return;
     }
 
@@ -266,12 +269,12 @@ export function useTileResize(options: UseTileResizeOptions) {
       handle,
       startX: touch.clientX,
       startY: touch.clientY,
-      startWidth: tile.width,
-      startHeight: tile.height,
+      startWidth: tile.value.width,
+      startHeight: tile.value.height,
     };
 
-    emit('resizeStart', tile.id, handle);
-    console.debug(`Touch resize started: ${handle} handle for tile ${tile.id}`);
+    emit('resizeStart', tile.value.id, handle);
+    console.debug(`Touch resize started: ${handle} handle for tile ${tile.value.id}`);
 
     // Attach global touch event listeners
     document.addEventListener('touchmove', handleTouchResizeMove, { passive: false });
@@ -335,7 +338,7 @@ export function useTileResize(options: UseTileResizeOptions) {
     resizeStartData.value = null;
     
     emit('resizeEnd', true);
-    console.debug(`Resize stopped: ${handle} handle for tile ${tile.id}`);
+    console.debug(`Resize stopped: ${handle} handle for tile ${tile.value.id}`);
 
     // Clean up global event listeners
     document.removeEventListener('mousemove', handleResizeMove);
@@ -356,7 +359,7 @@ export function useTileResize(options: UseTileResizeOptions) {
     resizeStartData.value = null;
     
     emit('resizeEnd', true);
-    console.debug(`Touch resize stopped: ${handle} handle for tile ${tile.id}`);
+    console.debug(`Touch resize stopped: ${handle} handle for tile ${tile.value.id}`);
 
     // Clean up global touch event listeners
     document.removeEventListener('touchmove', handleTouchResizeMove);
@@ -412,7 +415,7 @@ export function useTileResize(options: UseTileResizeOptions) {
     // Reset state
     resizeStartData.value = null;
     
-    console.debug(`Resize cleanup completed for tile: ${tile.id}`);
+    console.debug(`Resize cleanup completed for tile: ${tile.value.id}`);
   }
 
   // Return public interface
@@ -31,6 +31,10 @@ import { createPinia } from 'pinia'
 
 import App from './App.vue'
 import router from './router'
+import { registerBuiltInTileContentPlugins } from './components/tile-content/plugins'
+
+// Register the built-in tile content types before anything reads the registry
+registerBuiltInTileContentPlugins()
 
 // Create Vue application instance
 const app = createApp(App)
@@ -20,6 +20,15 @@ const router = createRouter({
         title: 'Dashboard - Tiling System'
       }
     },
+    {
+      path: '/share',
+      name: 'share',
+      // Opens a dashboard carried in the URL fragment of a share link
+      component: () => import('../views/ShareView.vue'),
+      meta: {
+        title: 'Shared Dashboard - Tiling System'
+      }
+    },
     {
       path: '/about',
       name: 'about',
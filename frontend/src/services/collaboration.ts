@@ -0,0 +1,494 @@
+/**
+ * Collaboration Service
+ *
+ * Real-time collaborative editing of a shared dashboard through a WebSocket
+ * relay (see `docs/COLLABORATION.md`; a reference relay lives in
+ * `server/collab-relay.mjs`).
+ *
+ * Every tile property is a last-writer-wins register stamped with a Lamport
+ * clock. Registers merge in any order with the same result, so concurrent
+ * changes never conflict: edits of different properties are all kept, and
+ * for edits of the same property every client picks the same winner.
+ *
+ * Features:
+ * - Conflict-free replicated tile state (per-property last-writer-wins registers)
+ * - WebSocket connection with automatic reconnection
+ * - Presence of other users, including their in-progress drags and resizes
+ *
+ * @author Dashboard System
+ * @version 1.0.0
+ */
+
+import type { SerializedTile } from '@/utils/layoutSerialization';
+
+/**
+ * Lamport timestamp of a change; ties are broken by client ID
+ *
+ * @interface CollabClock
+ */
+export interface CollabClock {
+  counter: number;
+  clientId: string;
+}
+
+/**
+ * Assignment of a value to a register
+ *
+ * Register keys have the form `<tileId>/<property>`; the `exists` property
+ * records whether the tile exists. A null value removes the property.
+ *
+ * @interface CollabOp
+ */
+export interface CollabOp {
+  key: string;
+  value: unknown;
+  clock: CollabClock;
+}
+
+/**
+ * Participant of a collaboration session
+ *
+ * @interface CollabPeer
+ */
+export interface CollabPeer {
+  clientId: string;
+  name: string;
+  /** CSS color identifying the participant */
+  color: string;
+}
+
+/**
+ * Drag or resize a participant is performing, in their grid coordinates
+ *
+ * @interface CollabPresence
+ */
+export interface CollabPresence {
+  kind: 'drag' | 'resize';
+  tileIds: string[];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Number of grid columns of the participant's screen */
+  columns: number;
+}
+
+/**
+ * Message sent by a client to the relay
+ */
+export type CollabClientMessage =
+  | { type: 'join'; room: string; peer: CollabPeer }
+  | { type: 'ops'; ops: CollabOp[] }
+  | { type: 'presence'; presence: CollabPresence | null };
+
+/**
+ * Message sent by the relay to a client
+ */
+export type CollabServerMessage =
+  /** Reply to `join` with the participants and the merged state of the room */
+  | { type: 'welcome'; peers: CollabPeer[]; ops: CollabOp[] }
+  | { type: 'ops'; clientId: string; ops: CollabOp[] }
+  | { type: 'presence'; clientId: string; presence: CollabPresence | null }
+  | { type: 'peer-joined'; peer: CollabPeer }
+  | { type: 'peer-left'; clientId: string };
+
+/**
+ * Connection status of a collaboration session
+ */
+export type CollabConnectionStatus = 'connecting' | 'connected' | 'disconnected';
+
+/**
+ * Collaboration session state exposed to the UI
+ *
+ * @interface CollaborationInfo
+ */
+export interface CollaborationInfo {
+  /** Connection status, or `off` without a session */
+  status: 'off' | CollabConnectionStatus;
+  /** ID of the local dashboard edited in the session */
+  layoutId: string | null;
+  relayUrl: string | null;
+  /** Name of the room joined on the relay */
+  room: string | null;
+  /** This participant */
+  self: CollabPeer | null;
+  /** Other participants */
+  peers: CollabPeer[];
+}
+
+/**
+ * In-progress drag or resize of another participant, in local grid coordinates
+ *
+ * @interface CollaboratorPresence
+ */
+export interface CollaboratorPresence {
+  peer: CollabPeer;
+  kind: CollabPresence['kind'];
+  tileIds: string[];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Callbacks of a collaboration connection
+ *
+ * @interface CollabConnectionHandlers
+ */
+export interface CollabConnectionHandlers {
+  onMessage: (message: CollabServerMessage) => void;
+  onStatusChange: (status: CollabConnectionStatus) => void;
+}
+
+/**
+ * Register key recording whether a tile exists
+ */
+const EXISTS_PROPERTY = 'exists';
+
+/**
+ * Colors assigned to participants
+ */
+const PEER_COLORS = ['#e8590c', '#2f9e44', '#1971c2', '#9c36b5', '#c2255c', '#0c8599', '#f08c00', '#5f3dc4'];
+
+/**
+ * Minimum time between presence updates
+ */
+const PRESENCE_INTERVAL = 50;
+
+/**
+ * First and longest delay before reconnecting
+ */
+const MIN_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+
+/**
+ * Compares two clocks
+ *
+ * @param a - First clock
+ * @param b - Second clock
+ * @returns Negative if a is older, positive if a is newer, 0 if equal
+ */
+export function compareClocks(a: CollabClock, b: CollabClock): number {
+  if (a.counter !== b.counter) return a.counter - b.counter;
+  if (a.clientId === b.clientId) return 0;
+  return a.clientId < b.clientId ? -1 : 1;
+}
+
+/**
+ * Generates a unique client ID
+ *
+ * @returns Random client identifier
+ */
+export function generateClientId(): string {
+  return `client-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+/**
+ * Picks a stable color for a participant
+ *
+ * @param clientId - Participant's client ID
+ * @returns CSS color
+ */
+export function getPeerColor(clientId: string): string {
+  let hash = 0;
+  for (let i = 0; i < clientId.length; i++) {
+    hash = (hash * 31 + clientId.charCodeAt(i)) | 0;
+  }
+  return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length];
+}
+
+/**
+ * Converts a tile change into register assignments
+ *
+ * Only properties that differ between the two states are assigned, so
+ * concurrent edits of different properties of the same tile merge.
+ *
+ * @param before - Tile before the change, or null if it was created
+ * @param after - Tile after the change, or null if it was deleted
+ * @returns Register keys and values to assign
+ *
+ * Time Complexity: O(p) where p is number of tile properties
+ * Space Complexity: O(p)
+ */
+export function tileChangeToEntries(
+  before: SerializedTile | null,
+  after: SerializedTile | null
+): Array<[string, unknown]> {
+  const tile = after ?? before;
+  if (!tile) return [];
+  if (!after) return [[`${tile.id}/${EXISTS_PROPERTY}`, false]];
+
+  const previous: Record<string, unknown> = before ? { ...before } : {};
+  const next: Record<string, unknown> = { ...after };
+  const entries: Array<[string, unknown]> = before ? [] : [[`${tile.id}/${EXISTS_PROPERTY}`, true]];
+
+  new Set([...Object.keys(previous), ...Object.keys(next)]).forEach(property => {
+    if (property === 'id' || property === EXISTS_PROPERTY) return;
+    if (!before || JSON.stringify(previous[property]) !== JSON.stringify(next[property])) {
+      entries.push([`${tile.id}/${property}`, next[property] ?? null]);
+    }
+  });
+
+  return entries;
+}
+
+/**
+ * Replicated tile state of a shared dashboard
+ *
+ * @example
+ * ```typescript
+ * const document = new CollabDocument(clientId);
+ * const ops = document.createOps(tileChangeToEntries(before, after));
+ * connection.send({ type: 'ops', ops });
+ * const changedTileIds = document.apply(remoteOps);
+ * ```
+ */
+export class CollabDocument {
+  private readonly registers = new Map<string, CollabOp>();
+  private counter = 0;
+
+  /**
+   * @param clientId - ID of this client, used in its clocks
+   */
+  constructor(readonly clientId: string) {}
+
+  /**
+   * Whether the document holds no registers
+   */
+  get isEmpty(): boolean {
+    return this.registers.size === 0;
+  }
+
+  /**
+   * Stamps local register assignments with a new clock and applies them
+   *
+   * @param entries - Register keys and values
+   * @returns Operations to send to the other clients
+   */
+  createOps(entries: Array<[string, unknown]>): CollabOp[] {
+    if (entries.length === 0) return [];
+
+    this.counter++;
+    const clock = { counter: this.counter, clientId: this.clientId };
+    const ops = entries.map(([key, value]) => ({ key, value, clock }));
+    ops.forEach(op => this.registers.set(op.key, op));
+
+    return ops;
+  }
+
+  /**
+   * Merges operations, keeping the newest value of every register
+   *
+   * @param ops - Operations from other clients
+   * @returns IDs of tiles whose state changed
+   *
+   * Time Complexity: O(n) where n is number of operations
+   * Space Complexity: O(n)
+   */
+  apply(ops: CollabOp[]): Set<string> {
+    const changedTileIds = new Set<string>();
+
+    ops.forEach(op => {
+      this.counter = Math.max(this.counter, op.clock.counter);
+
+      const current = this.registers.get(op.key);
+      if (current && compareClocks(op.clock, current.clock) <= 0) return;
+
+      this.registers.set(op.key, op);
+      changedTileIds.add(op.key.slice(0, op.key.lastIndexOf('/')));
+    });
+
+    return changedTileIds;
+  }
+
+  /**
+   * Returns every register, e.g. to send the full state after reconnecting
+   *
+   * @returns Current operation of every register
+   */
+  allOps(): CollabOp[] {
+    return [...this.registers.values()];
+  }
+
+  /**
+   * IDs of all tiles known to the document, including deleted ones
+   *
+   * @returns Tile IDs
+   */
+  tileIds(): string[] {
+    return [...new Set([...this.registers.keys()].map(key => key.slice(0, key.lastIndexOf('/'))))];
+  }
+
+  /**
+   * Reads the merged state of a tile
+   *
+   * @param tileId - ID of the tile
+   * @returns Tile data, or null if the tile does not exist
+   */
+  readTile(tileId: string): SerializedTile | null {
+    if (this.registers.get(`${tileId}/${EXISTS_PROPERTY}`)?.value !== true) return null;
+
+    const tile: Record<string, unknown> = { id: tileId };
+    this.registers.forEach((op, key) => {
+      const separator = key.lastIndexOf('/');
+      const property = key.slice(separator + 1);
+
+      if (key.slice(0, separator) === tileId && property !== EXISTS_PROPERTY && op.value !== null) {
+        tile[property] = op.value;
+      }
+    });
+
+    return tile as unknown as SerializedTile;
+  }
+
+  /**
+   * Clock of the newest assignment to any of the given tile properties
+   *
+   * @param tileId - ID of the tile
+   * @param properties - Properties to consider
+   * @returns Newest clock, or null if none of the properties was assigned
+   */
+  latestClock(tileId: string, properties: string[]): CollabClock | null {
+    return properties
+      .map(property => this.registers.get(`${tileId}/${property}`)?.clock ?? null)
+      .reduce<CollabClock | null>((latest, clock) =>
+        clock && (!latest || compareClocks(clock, latest) > 0) ? clock : latest, null);
+  }
+}
+
+/**
+ * WebSocket connection to a collaboration relay
+ *
+ * Joins the room on every (re)connect and reconnects with increasing delays
+ * after the connection is lost. Presence updates are throttled.
+ */
+export class CollabConnection {
+  private socket: WebSocket | null = null;
+  private closed = false;
+  private reconnectDelay = MIN_RECONNECT_DELAY;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private presenceTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastPresenceTime = 0;
+  private pendingPresence: CollabPresence | null = null;
+
+  /**
+   * @param url - WebSocket URL of the relay, e.g. ws://localhost:3002
+   * @param room - Room to join
+   * @param peer - This participant
+   * @param handlers - Message and status callbacks
+   */
+  constructor(
+    private readonly url: string,
+    private readonly room: string,
+    private readonly peer: CollabPeer,
+    private readonly handlers: CollabConnectionHandlers
+  ) {}
+
+  /**
+   * Opens the connection
+   */
+  connect(): void {
+    this.closed = false;
+    this.handlers.onStatusChange('connecting');
+
+    try {
+      this.socket = new WebSocket(this.url);
+    } catch (error) {
+      console.error('Failed to connect to the collaboration relay:', error);
+      this.handlers.onStatusChange('disconnected');
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.socket.onopen = () => {
+      this.reconnectDelay = MIN_RECONNECT_DELAY;
+      this.send({ type: 'join', room: this.room, peer: this.peer });
+    };
+    this.socket.onmessage = event => this.receive(event.data);
+    this.socket.onclose = () => {
+      this.socket = null;
+      if (!this.closed) {
+        this.handlers.onStatusChange('disconnected');
+        this.scheduleReconnect();
+      }
+    };
+  }
+
+  /**
+   * Sends a message if connected; messages sent while disconnected are
+   * dropped, as the full state is sent again after reconnecting
+   *
+   * @param message - Message to send
+   */
+  send(message: CollabClientMessage): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  /**
+   * Sends a presence update, at most once per presence interval; the
+   * latest update is always delivered
+   *
+   * @param presence - Current drag or resize, or null when done
+   */
+  sendPresence(presence: CollabPresence | null): void {
+    this.pendingPresence = presence;
+    if (this.presenceTimer !== null) return;
+
+    const delay = Math.max(0, this.lastPresenceTime + PRESENCE_INTERVAL - Date.now());
+    this.presenceTimer = setTimeout(() => {
+      this.presenceTimer = null;
+      this.lastPresenceTime = Date.now();
+      this.send({ type: 'presence', presence: this.pendingPresence });
+    }, delay);
+  }
+
+  /**
+   * Closes the connection without reconnecting
+   */
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimer !== null) clearTimeout(this.reconnectTimer);
+    if (this.presenceTimer !== null) clearTimeout(this.presenceTimer);
+    this.reconnectTimer = null;
+    this.presenceTimer = null;
+    this.socket?.close();
+    this.socket = null;
+    this.handlers.onStatusChange('disconnected');
+  }
+
+  /**
+   * Parses and forwards a message from the relay
+   *
+   * @param data - Received message data
+   */
+  private receive(data: unknown): void {
+    let message: CollabServerMessage;
+    try {
+      message = JSON.parse(String(data)) as CollabServerMessage;
+    } catch (error) {
+      console.error('Ignoring unreadable message from the collaboration relay:', error);
+      return;
+    }
+
+    if (message.type === 'welcome') {
+      this.handlers.onStatusChange('connected');
+    }
+    this.handlers.onMessage(message);
+  }
+
+  /**
+   * Reconnects after an increasing delay
+   */
+  private scheduleReconnect(): void {
+    if (this.closed || this.reconnectTimer !== null) return;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY);
+  }
+}
@@ -0,0 +1,412 @@
+/**
+ * Dashboard Storage Service
+ *
+ * Provides interchangeable persistence backends for the dashboard store.
+ * Every backend stores string values under string keys, so the store can
+ * switch between browser storage mechanisms without changing its data format.
+ *
+ * Features:
+ * - Storage adapter interface with localStorage, IndexedDB and in-memory implementations
+ * - Debounced write queue that serializes data only when it is written
+ * - Detection of exhausted storage quota
+ * - One-time migration of localStorage data into another backend
+ *
+ * @author Dashboard System
+ * @version 1.0.0
+ */
+
+/**
+ * Asynchronous key-value storage used by the dashboard store
+ *
+ * @interface StorageAdapter
+ */
+export interface StorageAdapter {
+  /** Human-readable backend name, e.g. "IndexedDB" */
+  readonly name: string;
+  /** Reads a value, resolving to null if the key does not exist */
+  getItem(key: string): Promise<string | null>;
+  /** Writes a value; rejects when the value cannot be stored */
+  setItem(key: string, value: string): Promise<void>;
+  /** Removes a value; succeeds if the key does not exist */
+  removeItem(key: string): Promise<void>;
+  /** Lists all stored keys */
+  keys(): Promise<string[]>;
+}
+
+/**
+ * Failed write reported by the write queue
+ *
+ * @interface StorageWriteError
+ */
+export interface StorageWriteError {
+  /** Key that could not be written */
+  key: string;
+  /** Whether the write failed because the storage quota is exhausted */
+  quotaExceeded: boolean;
+  /** Underlying error */
+  error: unknown;
+}
+
+/**
+ * Write queue configuration
+ *
+ * @interface StorageWriteQueueOptions
+ */
+export interface StorageWriteQueueOptions {
+  /** Time to wait after the last scheduled write before writing (default: 500ms) */
+  delay?: number;
+  /** Called for every write that fails */
+  onError?: (failure: StorageWriteError) => void;
+  /** Called after pending writes were written without errors */
+  onFlush?: () => void;
+}
+
+/**
+ * Produces the value to write, or null to remove the key
+ */
+type StorageValueSerializer = () => string | null;
+
+/**
+ * Default IndexedDB database name
+ */
+const DEFAULT_DATABASE_NAME = 'tiler-dashboard';
+
+/**
+ * Object store holding the key-value pairs
+ */
+const OBJECT_STORE_NAME = 'entries';
+
+/**
+ * Default delay before pending writes are flushed
+ */
+const DEFAULT_WRITE_DELAY = 500;
+
+/**
+ * Checks whether an error was caused by exhausted storage quota
+ *
+ * Browsers report quota errors with different names and legacy codes.
+ *
+ * @param error - Error thrown or rejected by a storage operation
+ * @returns True if the storage is full
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   localStorage.setItem(key, value);
+ * } catch (error) {
+ *   if (isQuotaExceededError(error)) warnUser();
+ * }
+ * ```
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  if (!(error instanceof DOMException) && !(error instanceof Error)) return false;
+
+  const code = error instanceof DOMException ? error.code : undefined;
+  return error.name === 'QuotaExceededError' ||
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    code === 22 ||
+    code === 1014;
+}
+
+/**
+ * Storage adapter backed by `window.localStorage`
+ *
+ * Synchronous localStorage calls are wrapped in promises, so errors such as
+ * an exhausted quota surface as rejections.
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly name = 'localStorage';
+
+  async getItem(key: string): Promise<string | null> {
+    return localStorage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    localStorage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    localStorage.removeItem(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return Array.from({ length: localStorage.length }, (_, index) => localStorage.key(index))
+      .filter((key): key is string => key !== null);
+  }
+}
+
+/**
+ * Storage adapter backed by an IndexedDB object store
+ *
+ * IndexedDB offers a much larger quota than localStorage and does not block
+ * the main thread while writing. The database is opened on first use.
+ */
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  readonly name = 'IndexedDB';
+  private database: Promise<IDBDatabase> | null = null;
+
+  /**
+   * @param databaseName - Name of the IndexedDB database
+   */
+  constructor(private readonly databaseName: string = DEFAULT_DATABASE_NAME) {}
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.request<unknown>('readonly', store => store.get(key));
+    return typeof value === 'string' ? value : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.request('readwrite', store => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.request<IDBValidKey[]>('readonly', store => store.getAllKeys());
+    return keys.map(key => String(key));
+  }
+
+  /**
+   * Opens the database, creating the object store on first use
+   *
+   * @returns Promise resolving to the open database
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const openRequest = indexedDB.open(this.databaseName, 1);
+
+        openRequest.onupgradeneeded = () => {
+          openRequest.result.createObjectStore(OBJECT_STORE_NAME);
+        };
+        openRequest.onsuccess = () => resolve(openRequest.result);
+        openRequest.onerror = () => reject(openRequest.error);
+        openRequest.onblocked = () => reject(new Error(`Database "${this.databaseName}" is blocked by another tab`));
+      });
+
+      // Allow a later call to retry after a failed open
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+
+    return this.database;
+  }
+
+  /**
+   * Runs a single request in its own transaction
+   *
+   * Resolves once the transaction has completed, so that writes are durable
+   * and quota errors raised on commit are reported.
+   *
+   * @param mode - Transaction mode
+   * @param createRequest - Creates the request on the object store
+   * @returns Promise resolving to the request result
+   */
+  private async request<T>(
+    mode: IDBTransactionMode,
+    createRequest: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const database = await this.open();
+
+    return new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(OBJECT_STORE_NAME, mode);
+      const request = createRequest(transaction.objectStore(OBJECT_STORE_NAME));
+
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error ?? request.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('Storage transaction aborted'));
+    });
+  }
+}
+
+/**
+ * Storage adapter that keeps data in memory only
+ *
+ * Useful for tests and for sessions that must not leave data behind.
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly name = 'memory';
+  private readonly entries = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.entries.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.entries.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return [...this.entries.keys()];
+  }
+}
+
+/**
+ * Creates the default storage adapter for this browser
+ *
+ * IndexedDB is preferred; browsers or environments without it fall back to
+ * localStorage.
+ *
+ * @returns Storage adapter to use by default
+ */
+export function createDefaultStorageAdapter(): StorageAdapter {
+  if (typeof indexedDB !== 'undefined') {
+    return new IndexedDBStorageAdapter();
+  }
+
+  return new LocalStorageAdapter();
+}
+
+/**
+ * Moves data from localStorage into another storage backend
+ *
+ * Runs only on first use of the target, i.e. when it holds no keys with the
+ * given prefix yet. Values are removed from localStorage after they have
+ * been written, which also frees the localStorage quota.
+ *
+ * @param target - Backend to move the data into
+ * @param keyPrefix - Prefix of the keys to move
+ * @returns Number of moved keys
+ *
+ * Time Complexity: O(n) where n is number of localStorage keys
+ * Space Complexity: O(n)
+ */
+export async function migrateFromLocalStorage(target: StorageAdapter, keyPrefix: string): Promise<number> {
+  if (target instanceof LocalStorageAdapter || typeof localStorage === 'undefined') return 0;
+
+  const targetKeys = await target.keys();
+  if (targetKeys.some(key => key.startsWith(keyPrefix))) return 0;
+
+  const source = new LocalStorageAdapter();
+  const keys = (await source.keys()).filter(key => key.startsWith(keyPrefix));
+
+  for (const key of keys) {
+    const value = await source.getItem(key);
+    if (value !== null) {
+      await target.setItem(key, value);
+    }
+  }
+
+  // Remove only after every value has been copied, so a failed copy can be retried
+  for (const key of keys) {
+    await source.removeItem(key);
+  }
+
+  if (keys.length > 0) {
+    console.debug(`Moved ${keys.length} stored entries from localStorage to ${target.name}`);
+  }
+
+  return keys.length;
+}
+
+/**
+ * Debounced queue of storage writes
+ *
+ * Writes are scheduled with a serializer instead of a value, so rapid
+ * successive changes to the same key are serialized and written once, after
+ * the changes have settled.
+ */
+export class StorageWriteQueue {
+  private readonly pending = new Map<string, StorageValueSerializer>();
+  private readonly delay: number;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+
+  /**
+   * @param adapter - Backend to write to
+   * @param options - Queue configuration
+   */
+  constructor(private adapter: StorageAdapter, private readonly options: StorageWriteQueueOptions = {}) {
+    this.delay = options.delay ?? DEFAULT_WRITE_DELAY;
+  }
+
+  /**
+   * Whether writes are waiting to be flushed
+   */
+  get hasPendingWrites(): boolean {
+    return this.pending.size > 0;
+  }
+
+  /**
+   * Schedules a write, replacing any pending write of the same key
+   *
+   * @param key - Key to write
+   * @param serialize - Produces the value when written, or null to remove the key
+   */
+  schedule(key: string, serialize: StorageValueSerializer): void {
+    this.pending.set(key, serialize);
+
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      void this.flush();
+    }, this.delay);
+  }
+
+  /**
+   * Writes all pending values immediately
+   *
+   * @returns Promise resolving when the writes have finished
+   */
+  flush(): Promise<void> {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const writes = [...this.pending.entries()];
+    this.pending.clear();
+
+    // Chain flushes so that writes of the same key never overtake each other
+    this.flushing = this.flushing.then(() => this.write(writes));
+    return this.flushing;
+  }
+
+  /**
+   * Flushes pending writes and continues with another backend
+   *
+   * @param adapter - Backend for subsequent writes
+   */
+  async setAdapter(adapter: StorageAdapter): Promise<void> {
+    await this.flush();
+    this.adapter = adapter;
+  }
+
+  /**
+   * Writes a batch of values, reporting every failure
+   *
+   * @param writes - Keys and serializers to write
+   */
+  private async write(writes: [string, StorageValueSerializer][]): Promise<void> {
+    if (writes.length === 0) return;
+
+    let failed = false;
+
+    for (const [key, serialize] of writes) {
+      try {
+        const value = serialize();
+        if (value === null) {
+          await this.adapter.removeItem(key);
+        } else {
+          await this.adapter.setItem(key, value);
+        }
+      } catch (error) {
+        failed = true;
+        console.error(`Failed to write "${key}" to ${this.adapter.name}:`, error);
+        this.options.onError?.({ key, quotaExceeded: isQuotaExceededError(error), error });
+      }
+    }
+
+    if (!failed) {
+      this.options.onFlush?.();
+    }
+  }
+}
@@ -15,6 +15,8 @@
  * - Comprehensive HTML parsing
  * - Mock data support for development/testing
  * - Symbol validation and formatting
+ * - Price history for chart ranges from one day to five years
+ * - Batched quotes for lists of symbols
  * - Error handling and recovery strategies
  * 
  * @author Dashboard System
@@ -63,6 +65,69 @@ export interface GoogleFinanceQuote {
   peRatio?: number;
 }
 
+/**
+ * Quotes of several symbols, fetched with one request per symbol
+ */
+export interface MultiQuoteResult {
+  /** Quotes by requested symbol */
+  quotes: Record<string, GoogleFinanceQuote>;
+  /** Error messages by requested symbol, for symbols that failed */
+  errors: Record<string, string>;
+  /** Time the last request completed */
+  timestamp: number;
+}
+
+/**
+ * Largest number of quote requests `getQuotesThrottled` runs at the same time
+ */
+const QUOTE_REQUEST_CONCURRENCY = 4;
+
+/**
+ * Period covered by a price history, ending now
+ */
+export type PriceHistoryRange = '1D' | '5D' | '1M' | '6M' | '1Y' | '5Y';
+
+/**
+ * Selectable price history ranges, shortest first
+ */
+export const PRICE_HISTORY_RANGES: PriceHistoryRange[] = ['1D', '5D', '1M', '6M', '1Y', '5Y'];
+
+/**
+ * Prices and volume traded during one interval of a price history
+ */
+export interface PricePoint {
+  /** Start of the interval */
+  timestamp: number;
+  /** Price at the start of the interval */
+  open: number;
+  /** Highest price during the interval */
+  high: number;
+  /** Lowest price during the interval */
+  low: number;
+  /** Price at the end of the interval */
+  close: number;
+  /** Shares traded during the interval */
+  volume: number;
+}
+
+/**
+ * Price history of a symbol over a range
+ */
+export interface PriceHistory {
+  /** Stock symbol (e.g., "CSPX:LON") */
+  symbol: string;
+  /** Period covered by the points */
+  range: PriceHistoryRange;
+  /** Currency of the prices */
+  currency: string;
+  /** Close before the first point, the reference line of the chart */
+  previousClose: number;
+  /** Intervals in chronological order */
+  points: PricePoint[];
+  /** Time the history was produced */
+  timestamp: number;
+}
+
 /**
  * Configuration for Google Finance Service
  */
@@ -191,6 +256,107 @@ export class GoogleFinanceService {
     }
   }
 
+  /**
+   * Fetches quotes of several symbols as a throttled parallel fetch
+   *
+   * Google Finance has no endpoint for several symbols, so every symbol is
+   * still its own `getQuote` request. At most a few requests run at a time,
+   * so a long watchlist does not flood the network or proxies. A failing
+   * symbol does not fail the others; its error is reported instead.
+   *
+   * @param symbols - Stock symbols; duplicates are fetched once
+   * @returns Promise resolving to the quotes and errors by requested symbol
+   *
+   * Time Complexity: O(n) requests where n is the number of distinct symbols
+   * Space Complexity: O(n)
+   *
+   * @example
+   * ```typescript
+   * const { quotes, errors } = await service.getQuotesThrottled(['AAPL', 'MSFT', 'VWRL:LON']);
+   * console.log(quotes.AAPL?.price, errors.MSFT);
+   * ```
+   */
+  async getQuotesThrottled(symbols: string[]): Promise<MultiQuoteResult> {
+    const pending = [...new Set(symbols)];
+    const result: MultiQuoteResult = { quotes: {}, errors: {}, timestamp: 0 };
+
+    console.debug(`Fetching quotes for ${pending.length} symbols, ${QUOTE_REQUEST_CONCURRENCY} at a time`);
+
+    const worker = async (): Promise<void> => {
+      for (let symbol = pending.shift(); symbol !== undefined; symbol = pending.shift()) {
+        try {
+          result.quotes[symbol] = await this.getQuote(symbol);
+        } catch (error) {
+          result.errors[symbol] = (error as Error).message;
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(QUOTE_REQUEST_CONCURRENCY, pending.length) }, worker));
+
+    result.timestamp = Date.now();
+    return result;
+  }
+
+  /**
+   * Fetches the price history of a symbol over a range
+   *
+   * Follows the same data source rules as quotes: mock data when configured,
+   * otherwise the live source with an optional fallback to mock data.
+   *
+   * @param symbol - Stock symbol with exchange (e.g., "CSPX:LON", "AAPL:NASDAQ")
+   * @param range - Period to cover, ending now
+   * @returns Promise resolving to the price history
+   * @throws Error if all data sources fail
+   *
+   * Time Complexity: O(p) where p is the number of points in the range
+   * Space Complexity: O(p)
+   *
+   * @example
+   * ```typescript
+   * const history = await service.getPriceHistory('AAPL', '1M');
+   * console.log(`${history.points.length} daily closes since ${history.previousClose}`);
+   * ```
+   */
+  async getPriceHistory(symbol: string, range: PriceHistoryRange): Promise<PriceHistory> {
+    const normalizedSymbol = this.normalizeSymbol(symbol);
+
+    console.debug(`Fetching ${range} price history for symbol: ${normalizedSymbol}`);
+
+    if (this.config.useMockData) {
+      console.debug('Using mock data mode');
+      return this.mockProvider.getPriceHistory(normalizedSymbol, range);
+    }
+
+    try {
+      return await this.fetchLivePriceHistory(normalizedSymbol, range);
+    } catch (error) {
+      console.warn(`Live price history fetch failed for ${normalizedSymbol}:`, error);
+
+      if (this.config.enableMockFallback) {
+        console.debug('Falling back to mock data');
+        return this.mockProvider.getPriceHistory(normalizedSymbol, range);
+      }
+
+      throw new Error(`Failed to fetch price history for ${normalizedSymbol}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Fetches live price history
+   *
+   * Google Finance quote pages render their charts from script data that is
+   * not part of the parsed HTML, so no live source is available yet.
+   *
+   * @param symbol - Normalized stock symbol
+   * @param range - Period to cover
+   * @returns Promise resolving to live price history
+   * @throws Error always, until a live source is added
+   */
+  private async fetchLivePriceHistory(symbol: string, range: PriceHistoryRange): Promise<PriceHistory> {
+    throw new Error(`No live ${range} price history source available for ${symbol}`);
+  }
+
   /**
    * Fetches live quote data from Google Finance
    * 
@@ -441,4 +607,9 @@ export class GoogleFinanceService {
       lastUpdate: Date.now(),
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Shared service instance used by tile content components
+ */
+export const googleFinanceService = new GoogleFinanceService();
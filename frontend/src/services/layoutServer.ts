@@ -0,0 +1,864 @@
+/**
+ * Layout Server Service
+ *
+ * Keeps dashboards in sync with a self-hosted layout server, so that the
+ * same dashboards are available in every browser. The server speaks the
+ * small REST API described in `docs/LAYOUT_SERVER.md`; a reference
+ * implementation lives in `server/layout-server.mjs`.
+ *
+ * Features:
+ * - REST client for listing, loading, saving and deleting layouts
+ * - ETag-based conflict detection, so changes made elsewhere are never overwritten silently
+ * - Offline queue of local changes, replayed when the server is reachable again
+ * - Periodic pulls of changes made in other browsers
+ *
+ * @author Dashboard System
+ * @version 1.0.0
+ */
+
+import type { SerializedLayout } from '@/utils/layoutSerialization';
+
+/**
+ * Layout in the versioned form exchanged with the server
+ */
+export type StoredLayout = SerializedLayout & { version: number };
+
+/**
+ * Entry of the server's layout list
+ *
+ * @interface RemoteLayoutSummary
+ */
+export interface RemoteLayoutSummary {
+  id: string;
+  name: string;
+  /** Current version of the layout on the server */
+  etag: string;
+  /** ISO timestamp of the last change */
+  modified: string;
+}
+
+/**
+ * Layout as stored on the server
+ *
+ * @interface RemoteLayout
+ */
+export interface RemoteLayout {
+  etag: string;
+  layout: unknown;
+}
+
+/**
+ * Outcome of saving a layout
+ */
+export type LayoutSaveResult =
+  | { status: 'saved'; etag: string }
+  /** The layout changed on the server since the given version; `remote` is null if it was deleted */
+  | { status: 'conflict'; remote: RemoteLayout | null };
+
+/**
+ * Outcome of deleting a layout
+ */
+export type LayoutDeleteResult =
+  | { status: 'deleted' }
+  /** The layout changed on the server since the given version */
+  | { status: 'conflict'; remote: RemoteLayout };
+
+/**
+ * Change waiting to be sent to the server
+ *
+ * @interface LayoutSyncOperation
+ */
+export interface LayoutSyncOperation {
+  kind: 'save' | 'delete';
+  layoutId: string;
+}
+
+/**
+ * Persistent sync state
+ *
+ * @interface LayoutSyncState
+ */
+export interface LayoutSyncState {
+  /** Base URL of the layout server, or null when syncing is disabled */
+  serverUrl: string | null;
+  /** Version and content hash of every layout as last synced */
+  layouts: Record<string, { etag: string; hash: string }>;
+  /** Changes not yet sent to the server */
+  queue: LayoutSyncOperation[];
+  /** ISO timestamp of the last successful sync */
+  lastSyncedAt: string | null;
+}
+
+/**
+ * Overall sync status shown to the user
+ */
+export type LayoutSyncStatus = 'disabled' | 'syncing' | 'synced' | 'pending' | 'offline' | 'conflict' | 'error';
+
+/**
+ * Layout changed both locally and on the server
+ *
+ * @interface LayoutSyncConflict
+ */
+export interface LayoutSyncConflict {
+  layoutId: string;
+  /** Name of the local layout */
+  name: string;
+  /** Server version, or null if the layout was deleted on the server */
+  remote: RemoteLayout | null;
+  /** Whether the local change was a deletion */
+  localDeleted: boolean;
+}
+
+/**
+ * Sync status exposed to the UI
+ *
+ * @interface LayoutSyncInfo
+ */
+export interface LayoutSyncInfo {
+  status: LayoutSyncStatus;
+  serverUrl: string | null;
+  /** Number of changes waiting to be sent */
+  pendingCount: number;
+  conflicts: LayoutSyncConflict[];
+  lastSyncedAt: Date | null;
+  /** Message of the last failure, if the last attempt failed */
+  error: string | null;
+}
+
+/**
+ * Access to the local dashboards for the sync engine
+ *
+ * @interface LayoutSyncHost
+ */
+export interface LayoutSyncHost {
+  /** IDs of all local layouts */
+  layoutIds(): string[];
+  /** Returns a local layout in stored form, or null if it does not exist */
+  readLayout(layoutId: string): StoredLayout | null;
+  /** Migrates layout data received from the server, or returns null if it is unusable */
+  normalizeLayout(data: unknown): StoredLayout | null;
+  /** Adds a layout from the server, or replaces the local layout with the same ID */
+  applyLayout(layout: StoredLayout): void;
+  /** Removes a local layout deleted on the server; returns false if it cannot be removed */
+  removeLayout(layoutId: string): boolean;
+  /** Persists the sync state */
+  saveState(state: LayoutSyncState): void;
+  /** Called whenever the sync info changes */
+  onChange(info: LayoutSyncInfo): void;
+}
+
+/**
+ * Error talking to the layout server
+ */
+export class LayoutServerError extends Error {
+  /**
+   * @param message - Error description
+   * @param status - HTTP status, or null if the server could not be reached
+   */
+  constructor(message: string, readonly status: number | null) {
+    super(message);
+    this.name = 'LayoutServerError';
+  }
+}
+
+/**
+ * Time before a request to the server is abandoned
+ */
+const REQUEST_TIMEOUT = 10000;
+
+/**
+ * Delay before queued changes are sent, so that rapid edits are sent once
+ */
+const PUSH_DELAY = 2000;
+
+/**
+ * Interval of pulls for changes made in other browsers
+ */
+const PULL_INTERVAL = 60 * 1000;
+
+/**
+ * First and longest delay before retrying after a failure
+ */
+const MIN_RETRY_DELAY = 5000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+/**
+ * Creates an empty sync state
+ *
+ * @param serverUrl - Base URL of the layout server
+ * @returns Sync state without synced layouts
+ */
+export function createLayoutSyncState(serverUrl: string | null = null): LayoutSyncState {
+  return { serverUrl, layouts: {}, queue: [], lastSyncedAt: null };
+}
+
+/**
+ * Hashes the content of a layout to detect local changes since the last sync
+ *
+ * @param layout - Layout in stored form
+ * @returns FNV-1a hash of the layout JSON as hex string
+ *
+ * Time Complexity: O(n) where n is the length of the layout JSON
+ * Space Complexity: O(n)
+ */
+export function hashLayout(layout: StoredLayout): string {
+  const json = JSON.stringify(layout);
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < json.length; i++) {
+    hash ^= json.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * REST client for a layout server
+ *
+ * @example
+ * ```typescript
+ * const client = new LayoutServerClient('http://localhost:3001');
+ * const result = await client.saveLayout(layout, etag);
+ * if (result.status === 'conflict') showConflict(result.remote);
+ * ```
+ */
+export class LayoutServerClient {
+  private readonly baseUrl: string;
+
+  /**
+   * @param serverUrl - Base URL of the server, e.g. http://localhost:3001
+   */
+  constructor(serverUrl: string) {
+    this.baseUrl = serverUrl.replace(/\/+$/, '');
+  }
+
+  /**
+   * Lists the layouts stored on the server
+   *
+   * @returns Summary of every layout
+   */
+  async listLayouts(): Promise<RemoteLayoutSummary[]> {
+    const response = await this.request('/api/layouts');
+    this.assertOk(response);
+
+    const data: unknown = await response.json();
+    if (!Array.isArray(data)) {
+      throw new LayoutServerError('Layout server returned an invalid layout list', response.status);
+    }
+
+    return data.filter((entry): entry is RemoteLayoutSummary =>
+      typeof entry === 'object' && entry !== null &&
+      typeof entry.id === 'string' && typeof entry.etag === 'string'
+    );
+  }
+
+  /**
+   * Loads a layout
+   *
+   * @param layoutId - ID of the layout
+   * @returns The layout and its version, or null if it does not exist
+   */
+  async getLayout(layoutId: string): Promise<RemoteLayout | null> {
+    const response = await this.request(this.layoutPath(layoutId));
+    if (response.status === 404) return null;
+    this.assertOk(response);
+
+    return this.readRemoteLayout(response);
+  }
+
+  /**
+   * Saves a layout if it has not changed on the server since the given version
+   *
+   * @param layout - Layout to save
+   * @param etag - Version the change is based on, or null to create the layout
+   * @returns The new version, or the server's version on conflict
+   */
+  async saveLayout(layout: StoredLayout, etag: string | null): Promise<LayoutSaveResult> {
+    const response = await this.request(this.layoutPath(layout.id), {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(etag ? { 'If-Match': etag } : { 'If-None-Match': '*' }),
+      },
+      body: JSON.stringify(layout),
+    });
+
+    if (response.status === 412) {
+      return { status: 'conflict', remote: await this.readConflictBody(response) };
+    }
+    this.assertOk(response);
+
+    const newEtag = response.headers.get('ETag');
+    if (!newEtag) {
+      throw new LayoutServerError('Layout server did not return a version', response.status);
+    }
+    return { status: 'saved', etag: newEtag };
+  }
+
+  /**
+   * Deletes a layout if it has not changed on the server since the given version
+   *
+   * @param layoutId - ID of the layout
+   * @param etag - Version the deletion is based on
+   * @returns Whether the layout was deleted, or the server's version on conflict
+   */
+  async deleteLayout(layoutId: string, etag: string): Promise<LayoutDeleteResult> {
+    const response = await this.request(this.layoutPath(layoutId), {
+      method: 'DELETE',
+      headers: { 'If-Match': etag },
+    });
+
+    if (response.status === 404) return { status: 'deleted' };
+    if (response.status === 412) {
+      const remote = await this.readConflictBody(response);
+      return remote ? { status: 'conflict', remote } : { status: 'deleted' };
+    }
+    this.assertOk(response);
+
+    return { status: 'deleted' };
+  }
+
+  /**
+   * Sends a request, converting network failures and timeouts into errors
+   * with a null status
+   *
+   * @param path - Request path
+   * @param init - Fetch options
+   * @returns Server response
+   */
+  private async request(path: string, init: RequestInit = {}): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+    try {
+      return await fetch(`${this.baseUrl}${path}`, { ...init, signal: controller.signal });
+    } catch (error) {
+      throw new LayoutServerError(`Layout server is unreachable: ${(error as Error).message}`, null);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Throws for unsuccessful responses
+   *
+   * @param response - Server response
+   */
+  private assertOk(response: Response): void {
+    if (!response.ok) {
+      throw new LayoutServerError(`Layout server responded with ${response.status} ${response.statusText}`, response.status);
+    }
+  }
+
+  /**
+   * Reads a layout and its version from a response
+   *
+   * @param response - Response carrying a layout
+   * @returns The layout and its version
+   */
+  private async readRemoteLayout(response: Response): Promise<RemoteLayout> {
+    const etag = response.headers.get('ETag');
+    if (!etag) {
+      throw new LayoutServerError('Layout server did not return a version', response.status);
+    }
+
+    return { etag, layout: await response.json() };
+  }
+
+  /**
+   * Reads the server's version from a 412 response
+   *
+   * @param response - Precondition failed response
+   * @returns The server's version, or null if the layout no longer exists
+   */
+  private async readConflictBody(response: Response): Promise<RemoteLayout | null> {
+    return response.headers.get('ETag') ? this.readRemoteLayout(response) : null;
+  }
+
+  /**
+   * Builds the path of a single layout
+   *
+   * @param layoutId - ID of the layout
+   * @returns Request path
+   */
+  private layoutPath(layoutId: string): string {
+    return `/api/layouts/${encodeURIComponent(layoutId)}`;
+  }
+}
+
+/**
+ * Sync engine between the local dashboards and a layout server
+ *
+ * Local changes are queued and sent with the version they are based on.
+ * The server rejects changes to layouts that changed in the meantime; such
+ * layouts become conflicts that the user resolves by keeping either
+ * version. While the server cannot be reached the queue is kept and
+ * replayed with increasing retry delays, when the browser goes online, and
+ * when the page becomes visible.
+ *
+ * @example
+ * ```typescript
+ * const sync = new LayoutServerSync(host);
+ * sync.start(savedState);
+ * sync.enqueue({ kind: 'save', layoutId: 'layout-1' });
+ * ```
+ */
+export class LayoutServerSync {
+  private state: LayoutSyncState = createLayoutSyncState();
+  private client: LayoutServerClient | null = null;
+  private status: LayoutSyncStatus = 'disabled';
+  private error: string | null = null;
+  private readonly conflicts = new Map<string, LayoutSyncConflict>();
+  private running: Promise<void> = Promise.resolve();
+  private pushTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private pullTimer: ReturnType<typeof setInterval> | null = null;
+  private retryDelay = MIN_RETRY_DELAY;
+  private listening = false;
+
+  /**
+   * @param host - Access to the local dashboards
+   */
+  constructor(private readonly host: LayoutSyncHost) {}
+
+  /**
+   * Current sync status
+   */
+  get info(): LayoutSyncInfo {
+    return {
+      status: this.status,
+      serverUrl: this.state.serverUrl,
+      pendingCount: this.state.queue.length,
+      conflicts: [...this.conflicts.values()],
+      lastSyncedAt: this.state.lastSyncedAt ? new Date(this.state.lastSyncedAt) : null,
+      error: this.error,
+    };
+  }
+
+  /**
+   * Restores the saved sync state and syncs if a server is configured
+   *
+   * @param savedState - Sync state saved by an earlier session
+   * @returns Promise resolving when the first sync has finished
+   */
+  start(savedState: LayoutSyncState | null): Promise<void> {
+    this.state = savedState ?? createLayoutSyncState();
+    this.conflicts.clear();
+    return this.connect();
+  }
+
+  /**
+   * Connects to another server, or disables syncing
+   *
+   * Versions known from a previous server are discarded, so every layout
+   * is compared with the new server on the first sync.
+   *
+   * @param serverUrl - Base URL of the server, or null to disable syncing
+   * @returns Promise resolving when the first sync has finished
+   */
+  configure(serverUrl: string | null): Promise<void> {
+    if (serverUrl === this.state.serverUrl) return this.sync();
+
+    this.state = createLayoutSyncState(serverUrl);
+    this.conflicts.clear();
+    this.host.saveState(this.state);
+    return this.connect();
+  }
+
+  /**
+   * Queues a local change to be sent to the server
+   *
+   * Changes to a layout in conflict are not queued; resolving the conflict
+   * sends the latest local version.
+   *
+   * @param operation - Local change
+   */
+  enqueue(operation: LayoutSyncOperation): void {
+    if (!this.client || this.conflicts.has(operation.layoutId)) return;
+
+    const queue = this.state.queue.filter(queued => queued.layoutId !== operation.layoutId);
+    if (queue.length === this.state.queue.length && operation.kind === 'save' && this.isUnchanged(operation.layoutId)) {
+      return;
+    }
+
+    this.state.queue = [...queue, operation];
+    this.host.saveState(this.state);
+    if (this.status === 'synced') {
+      this.setStatus('pending');
+    }
+
+    if (this.pushTimer !== null) {
+      clearTimeout(this.pushTimer);
+    }
+    this.pushTimer = setTimeout(() => {
+      this.pushTimer = null;
+      void this.run(() => this.push());
+    }, PUSH_DELAY);
+  }
+
+  /**
+   * Pulls changes from the server and sends queued local changes
+   *
+   * @returns Promise resolving when the sync has finished
+   */
+  sync(): Promise<void> {
+    return this.run(async () => {
+      await this.pull();
+      await this.push();
+    });
+  }
+
+  /**
+   * Resolves a conflict by keeping one version
+   *
+   * @param layoutId - ID of the layout in conflict
+   * @param keep - `local` sends the local version, overwriting the server; `remote` replaces the local version
+   * @returns Promise resolving when the chosen version has been synced
+   */
+  resolveConflict(layoutId: string, keep: 'local' | 'remote'): Promise<void> {
+    const conflict = this.conflicts.get(layoutId);
+    if (!conflict) return Promise.resolve();
+
+    this.conflicts.delete(layoutId);
+    const remoteLayout = conflict.remote ? this.host.normalizeLayout(conflict.remote.layout) : null;
+
+    if (keep === 'remote' && conflict.remote && remoteLayout) {
+      this.applyRemote(remoteLayout, conflict.remote.etag);
+    } else if (keep === 'remote' && !conflict.remote && this.host.removeLayout(layoutId)) {
+      delete this.state.layouts[layoutId];
+    } else {
+      // Base the local version on the server's version, so it replaces it
+      if (conflict.remote && remoteLayout) {
+        this.state.layouts[layoutId] = { etag: conflict.remote.etag, hash: hashLayout(remoteLayout) };
+      } else {
+        delete this.state.layouts[layoutId];
+      }
+      this.state.queue = [
+        ...this.state.queue.filter(queued => queued.layoutId !== layoutId),
+        { kind: conflict.localDeleted ? 'delete' : 'save', layoutId },
+      ];
+    }
+
+    this.host.saveState(this.state);
+    return this.sync();
+  }
+
+  /**
+   * Stops syncing and removes event listeners
+   */
+  stop(): void {
+    this.clearTimers();
+    if (this.listening && typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+      this.listening = false;
+    }
+  }
+
+  /**
+   * Creates the client for the configured server and starts syncing
+   *
+   * @returns Promise resolving when the first sync has finished
+   */
+  private connect(): Promise<void> {
+    this.stop();
+    this.error = null;
+
+    if (!this.state.serverUrl) {
+      this.client = null;
+      this.setStatus('disabled');
+      return Promise.resolve();
+    }
+
+    this.client = new LayoutServerClient(this.state.serverUrl);
+    this.retryDelay = MIN_RETRY_DELAY;
+    this.pullTimer = setInterval(() => {
+      if (this.status !== 'offline' && this.status !== 'error') void this.sync();
+    }, PULL_INTERVAL);
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+      this.listening = true;
+    }
+
+    return this.sync();
+  }
+
+  /**
+   * Runs sync work after any work already running, reporting failures and
+   * scheduling retries
+   *
+   * @param work - Sync work to run
+   * @returns Promise resolving when the work has finished
+   */
+  private run(work: () => Promise<void>): Promise<void> {
+    this.running = this.running.then(async () => {
+      const client = this.client;
+      if (!client) return;
+
+      this.setStatus('syncing');
+      try {
+        await work();
+        if (client !== this.client) return;
+
+        this.error = null;
+        this.retryDelay = MIN_RETRY_DELAY;
+        this.state.lastSyncedAt = new Date().toISOString();
+        this.setStatus(this.currentStatus());
+      } catch (error) {
+        if (client !== this.client) return;
+
+        console.error('Layout server sync failed:', error);
+        this.error = (error as Error).message;
+        this.setStatus(error instanceof LayoutServerError && error.status === null ? 'offline' : 'error');
+        this.scheduleRetry();
+      } finally {
+        this.host.saveState(this.state);
+      }
+    });
+
+    return this.running;
+  }
+
+  /**
+   * Applies changes made on the server to the local layouts
+   *
+   * Layouts unchanged locally since the last sync take the server version.
+   * Layouts changed on both sides become conflicts, unless both versions
+   * are identical. Local layouts unknown to the server are queued for
+   * upload; layouts deleted on the server are removed locally unless they
+   * have local changes, which are uploaded again instead.
+   */
+  private async pull(): Promise<void> {
+    const client = this.requireClient();
+    const summaries = await client.listLayouts();
+    const remoteIds = new Set(summaries.map(summary => summary.id));
+
+    for (const summary of summaries) {
+      const known = this.state.layouts[summary.id];
+      if (known?.etag === summary.etag || this.conflicts.has(summary.id)) continue;
+
+      const local = this.host.readLayout(summary.id);
+      const isQueuedDelete = this.state.queue.some(queued => queued.layoutId === summary.id && queued.kind === 'delete');
+
+      // A pending local deletion conflicts when it is sent
+      if (!local && isQueuedDelete) continue;
+
+      const remote = await client.getLayout(summary.id);
+      const remoteLayout = remote ? this.host.normalizeLayout(remote.layout) : null;
+      if (!remote || !remoteLayout || remoteLayout.id !== summary.id) continue;
+
+      if (!local) {
+        this.applyRemote(remoteLayout, remote.etag);
+      } else if (hashLayout(local) === hashLayout(remoteLayout)) {
+        this.state.layouts[summary.id] = { etag: remote.etag, hash: hashLayout(local) };
+      } else if (known ? known.hash === hashLayout(local) : local.tiles.length === 0) {
+        // Unchanged since the last sync, or a new empty layout
+        this.applyRemote(remoteLayout, remote.etag);
+      } else {
+        this.addConflict({ layoutId: summary.id, name: local.name, remote, localDeleted: false });
+      }
+    }
+
+    for (const layoutId of this.host.layoutIds()) {
+      if (remoteIds.has(layoutId) || this.conflicts.has(layoutId)) continue;
+
+      const known = this.state.layouts[layoutId];
+      const local = this.host.readLayout(layoutId);
+
+      if (known && local && known.hash === hashLayout(local) && this.host.removeLayout(layoutId)) {
+        delete this.state.layouts[layoutId];
+        continue;
+      }
+
+      // New locally, or changed locally after being deleted on the server
+      delete this.state.layouts[layoutId];
+      if (!this.state.queue.some(queued => queued.layoutId === layoutId)) {
+        this.state.queue = [...this.state.queue, { kind: 'save', layoutId }];
+      }
+    }
+  }
+
+  /**
+   * Sends queued local changes in order
+   *
+   * Failed requests stop the replay and leave the remaining changes queued.
+   */
+  private async push(): Promise<void> {
+    const client = this.requireClient();
+
+    while (this.state.queue.length > 0) {
+      const [operation] = this.state.queue;
+
+      if (operation.kind === 'save') {
+        await this.pushSave(client, operation.layoutId);
+      } else {
+        await this.pushDelete(client, operation.layoutId);
+      }
+
+      this.state.queue = this.state.queue.filter(queued => queued !== operation);
+      this.host.saveState(this.state);
+    }
+  }
+
+  /**
+   * Uploads a local layout
+   *
+   * @param client - Server client
+   * @param layoutId - ID of the layout
+   */
+  private async pushSave(client: LayoutServerClient, layoutId: string): Promise<void> {
+    const local = this.host.readLayout(layoutId);
+    const known = this.state.layouts[layoutId];
+    if (!local || this.conflicts.has(layoutId)) return;
+
+    const hash = hashLayout(local);
+    if (known?.hash === hash) return;
+
+    const result = await client.saveLayout(local, known?.etag ?? null);
+    if (result.status === 'saved') {
+      this.state.layouts[layoutId] = { etag: result.etag, hash };
+      return;
+    }
+
+    const remoteLayout = result.remote ? this.host.normalizeLayout(result.remote.layout) : null;
+    if (result.remote && remoteLayout && hashLayout(remoteLayout) === hash) {
+      // The same change was already uploaded, e.g. by another tab
+      this.state.layouts[layoutId] = { etag: result.remote.etag, hash };
+    } else {
+      this.addConflict({ layoutId, name: local.name, remote: result.remote, localDeleted: false });
+    }
+  }
+
+  /**
+   * Deletes a layout on the server
+   *
+   * @param client - Server client
+   * @param layoutId - ID of the layout
+   */
+  private async pushDelete(client: LayoutServerClient, layoutId: string): Promise<void> {
+    const known = this.state.layouts[layoutId];
+    if (!known) return;
+
+    const result = await client.deleteLayout(layoutId, known.etag);
+    if (result.status === 'deleted') {
+      delete this.state.layouts[layoutId];
+      return;
+    }
+
+    const remoteLayout = this.host.normalizeLayout(result.remote.layout);
+    this.addConflict({ layoutId, name: remoteLayout?.name ?? layoutId, remote: result.remote, localDeleted: true });
+  }
+
+  /**
+   * Replaces the local layout with the server version and records the version
+   *
+   * @param layout - Server version in stored form
+   * @param etag - Server version tag
+   */
+  private applyRemote(layout: StoredLayout, etag: string): void {
+    this.host.applyLayout(layout);
+    const local = this.host.readLayout(layout.id);
+    this.state.layouts[layout.id] = { etag, hash: hashLayout(local ?? layout) };
+  }
+
+  /**
+   * Records a conflict and drops queued changes of its layout
+   *
+   * @param conflict - Conflict to record
+   */
+  private addConflict(conflict: LayoutSyncConflict): void {
+    this.conflicts.set(conflict.layoutId, conflict);
+    this.state.queue = this.state.queue.filter(queued => queued.layoutId !== conflict.layoutId);
+  }
+
+  /**
+   * Whether a local layout equals its last synced version
+   *
+   * @param layoutId - ID of the layout
+   * @returns True if nothing needs to be sent
+   */
+  private isUnchanged(layoutId: string): boolean {
+    const known = this.state.layouts[layoutId];
+    const local = this.host.readLayout(layoutId);
+    return !!known && !!local && known.hash === hashLayout(local);
+  }
+
+  /**
+   * Status after a successful sync
+   *
+   * @returns Status reflecting conflicts and queued changes
+   */
+  private currentStatus(): LayoutSyncStatus {
+    if (this.conflicts.size > 0) return 'conflict';
+    return this.state.queue.length > 0 ? 'pending' : 'synced';
+  }
+
+  /**
+   * Returns the client of the configured server
+   *
+   * @returns Server client
+   */
+  private requireClient(): LayoutServerClient {
+    if (!this.client) {
+      throw new Error('No layout server configured');
+    }
+    return this.client;
+  }
+
+  /**
+   * Schedules another sync attempt with an increasing delay
+   */
+  private scheduleRetry(): void {
+    if (this.retryTimer !== null) {
+      clearTimeout(this.retryTimer);
+    }
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.sync();
+    }, this.retryDelay);
+    this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY);
+  }
+
+  /**
+   * Clears all timers
+   */
+  private clearTimers(): void {
+    if (this.pushTimer !== null) clearTimeout(this.pushTimer);
+    if (this.retryTimer !== null) clearTimeout(this.retryTimer);
+    if (this.pullTimer !== null) clearInterval(this.pullTimer);
+    this.pushTimer = null;
+    this.retryTimer = null;
+    this.pullTimer = null;
+  }
+
+  /**
+   * Updates the status and notifies the host
+   *
+   * @param status - New status
+   */
+  private setStatus(status: LayoutSyncStatus): void {
+    this.status = status;
+    this.host.onChange(this.info);
+  }
+
+  /**
+   * Replays queued changes as soon as the browser is back online
+   */
+  private readonly handleOnline = (): void => {
+    this.retryDelay = MIN_RETRY_DELAY;
+    void this.sync();
+  };
+
+  /**
+   * Pulls changes when the page becomes visible again
+   */
+  private readonly handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'visible') {
+      void this.sync();
+    }
+  };
+}
@@ -0,0 +1,218 @@
+/**
+ * Tab Synchronization Service
+ *
+ * Carries dashboard changes between browser tabs of the same origin, so
+ * that every open tab shows the same dashboards. Messages are delivered
+ * through a BroadcastChannel, or through `storage` events in browsers
+ * without BroadcastChannel support.
+ *
+ * Features:
+ * - Unique ID per tab, used to ignore own messages and to break ties
+ * - Typed messages for tile changes, layout settings, dashboards, snapshots,
+ *   templates and tile presets
+ * - Fallback transport through localStorage `storage` events
+ *
+ * The dashboard store decides how received changes are merged; see
+ * `docs/TAB_SYNC.md`.
+ *
+ * @author Dashboard System
+ * @version 1.0.0
+ */
+
+import type { CollisionMode, CompactionMode } from '@/types/dashboard';
+import type { DashboardTemplate } from '@/utils/dashboardTemplates';
+import type { SerializedLayout, SerializedSnapshot, SerializedTileChange } from '@/utils/layoutSerialization';
+import type { TilePreset } from '@/utils/tilePresets';
+
+/**
+ * Layout settings synchronized as a whole, last change wins
+ *
+ * @interface LayoutSettings
+ */
+export interface LayoutSettings {
+  name: string;
+  gridColumns: number;
+  compactionMode: CompactionMode;
+  collisionMode: CollisionMode;
+  locked: boolean;
+}
+
+/**
+ * Change announced to other tabs
+ */
+export type TabSyncMessage =
+  /** Tiles of a dashboard changed; each change carries the tile state before and after */
+  | { kind: 'tiles'; layoutId: string; changes: SerializedTileChange[] }
+  /** Settings of a dashboard changed */
+  | { kind: 'settings'; layoutId: string; settings: LayoutSettings }
+  /** A dashboard was created at the given position in the dashboard list */
+  | { kind: 'dashboard-added'; layout: SerializedLayout; index: number }
+  /** A dashboard was deleted */
+  | { kind: 'dashboard-removed'; layoutId: string }
+  /** The snapshots of a dashboard changed */
+  | { kind: 'snapshots'; layoutId: string; snapshots: SerializedSnapshot[] }
+  /** The templates saved by the user changed */
+  | { kind: 'templates'; templates: DashboardTemplate[] }
+  /** The tile presets changed */
+  | { kind: 'presets'; presets: TilePreset[] };
+
+/**
+ * Message as delivered to other tabs
+ *
+ * @interface TabSyncEnvelope
+ */
+export interface TabSyncEnvelope {
+  /** ID of the sending tab */
+  tabId: string;
+  /** Time the change was made, in milliseconds since the epoch */
+  time: number;
+  /** The change */
+  message: TabSyncMessage;
+}
+
+/**
+ * Name of the BroadcastChannel shared by all tabs
+ */
+const CHANNEL_NAME = 'tiler-dashboard-sync';
+
+/**
+ * localStorage key used to pass messages when BroadcastChannel is unavailable
+ */
+const FALLBACK_STORAGE_KEY = 'tiler-dashboard-sync-message';
+
+/**
+ * Generates a unique tab ID
+ *
+ * @returns Random tab identifier
+ */
+function generateTabId(): string {
+  return `tab-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+/**
+ * Checks whether received data is a message envelope
+ *
+ * @param data - Received data
+ * @returns True if the data has the envelope shape
+ */
+function isEnvelope(data: unknown): data is TabSyncEnvelope {
+  if (typeof data !== 'object' || data === null) return false;
+
+  const envelope = data as Partial<TabSyncEnvelope>;
+  return typeof envelope.tabId === 'string' &&
+    typeof envelope.time === 'number' &&
+    typeof envelope.message === 'object' && envelope.message !== null;
+}
+
+/**
+ * Channel between the open tabs of the dashboard
+ *
+ * @example
+ * ```typescript
+ * const channel = new TabSyncChannel();
+ * channel.subscribe(envelope => applyRemoteChange(envelope));
+ * channel.post({ kind: 'dashboard-removed', layoutId: 'layout-1' });
+ * ```
+ */
+export class TabSyncChannel {
+  /** ID of this tab */
+  readonly tabId = generateTabId();
+  private readonly channel: BroadcastChannel | null;
+  private readonly handlers = new Set<(envelope: TabSyncEnvelope) => void>();
+
+  constructor() {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = event => this.receive(event.data);
+    } else {
+      this.channel = null;
+      if (typeof window !== 'undefined') {
+        window.addEventListener('storage', this.handleStorageEvent);
+      }
+    }
+  }
+
+  /**
+   * Announces a change to all other tabs
+   *
+   * @param message - Change to announce
+   * @param time - Time of the change (defaults to now)
+   */
+  post(message: TabSyncMessage, time: number = Date.now()): void {
+    const envelope: TabSyncEnvelope = { tabId: this.tabId, time, message };
+
+    try {
+      // Sent as JSON, as reactive state cannot be structured-cloned
+      const data = JSON.stringify(envelope);
+
+      if (this.channel) {
+        this.channel.postMessage(data);
+      } else if (typeof localStorage !== 'undefined') {
+        // Setting and removing the key fires a storage event in every other tab
+        localStorage.setItem(FALLBACK_STORAGE_KEY, data);
+        localStorage.removeItem(FALLBACK_STORAGE_KEY);
+      }
+    } catch (error) {
+      console.error('Failed to send change to other tabs:', error);
+    }
+  }
+
+  /**
+   * Registers a handler for changes made in other tabs
+   *
+   * @param handler - Called for every received message
+   * @returns Function that removes the handler
+   */
+  subscribe(handler: (envelope: TabSyncEnvelope) => void): () => void {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  /**
+   * Stops sending and receiving messages
+   */
+  close(): void {
+    this.handlers.clear();
+    this.channel?.close();
+    if (!this.channel && typeof window !== 'undefined') {
+      window.removeEventListener('storage', this.handleStorageEvent);
+    }
+  }
+
+  /**
+   * Handles messages passed through localStorage
+   *
+   * @param event - Storage event from another tab
+   */
+  private readonly handleStorageEvent = (event: StorageEvent): void => {
+    if (event.key !== FALLBACK_STORAGE_KEY || !event.newValue) return;
+    this.receive(event.newValue);
+  };
+
+  /**
+   * Passes a received envelope to the handlers
+   *
+   * @param json - Received envelope as JSON
+   */
+  private receive(json: unknown): void {
+    let data: unknown;
+    try {
+      data = typeof json === 'string' ? JSON.parse(json) : null;
+    } catch (error) {
+      console.error('Ignoring unreadable message from another tab:', error);
+      return;
+    }
+
+    if (!isEnvelope(data) || data.tabId === this.tabId) return;
+
+    this.handlers.forEach(handler => {
+      try {
+        handler(data);
+      } catch (error) {
+        console.error('Failed to apply change from another tab:', error);
+      }
+    });
+  }
+}
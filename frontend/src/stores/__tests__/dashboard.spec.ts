@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createPinia, setActivePinia } from 'pinia';
+import { useDashboardStore } from '@/stores/dashboard';
+
+beforeEach(() => {
+  localStorage.clear();
+  setActivePinia(createPinia());
+});
+
+describe('setCompactionMode', () => {
+  it('records the change as one undoable operation', () => {
+    const store = useDashboardStore();
+    const mode = store.compactionMode === 'vertical' ? 'none' : 'vertical';
+    const previous = store.compactionMode;
+
+    expect(store.setCompactionMode(mode)).toBe(true);
+    expect(store.compactionMode).toBe(mode);
+
+    expect(store.undo()?.operation).toBe('settings');
+    expect(store.compactionMode).toBe(previous);
+  });
+
+  it('leaves locked layouts unchanged', () => {
+    const store = useDashboardStore();
+    const mode = store.compactionMode === 'vertical' ? 'none' : 'vertical';
+    const previous = store.compactionMode;
+    store.setLayoutLocked(true);
+
+    expect(store.setCompactionMode(mode)).toBe(false);
+    expect(store.compactionMode).toBe(previous);
+    expect(store.canUndo).toBe(false);
+  });
+});
+
+describe('setCollisionMode', () => {
+  it('records the change as one undoable operation', () => {
+    const store = useDashboardStore();
+    const previous = store.collisionMode;
+    const mode = previous === 'swap' ? 'reject' : 'swap';
+
+    expect(store.setCollisionMode(mode)).toBe(true);
+    expect(store.collisionMode).toBe(mode);
+
+    expect(store.undo()?.tileId).toBe('collisionMode');
+    expect(store.collisionMode).toBe(previous);
+  });
+
+  it('leaves locked layouts unchanged', () => {
+    const store = useDashboardStore();
+    const previous = store.collisionMode;
+    store.setLayoutLocked(true);
+
+    expect(store.setCollisionMode(previous === 'swap' ? 'reject' : 'swap')).toBe(false);
+    expect(store.collisionMode).toBe(previous);
+    expect(store.canUndo).toBe(false);
+  });
+});
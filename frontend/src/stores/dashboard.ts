@@ -6,11 +6,28 @@
  *
  * Features:
  * - Tile CRUD operations (create, read, update, delete)
- * - Layout persistence with localStorage
+ * - Undo/redo of tile operations with a bounded, persisted history
+ * - Multiple named dashboards with create, rename, duplicate, delete and switch
+ * - Per-dashboard layout persistence through a pluggable storage adapter
+ *   (IndexedDB by default), with debounced writes and quota error reporting
+ * - Versioned layout schema; older saved and imported layouts are migrated on load
  * - Drag and drop state management
  * - Resize state management
  * - Grid layout calculations
- * - Responsive breakpoint handling
+ * - Responsive breakpoint handling with per-breakpoint tile arrangements
+ * - Optional vertical compaction ("gravity") stored per layout
+ * - Per-layout collision handling: reject overlapping moves, push tiles aside or swap them
+ * - Locked tiles that stay in place, and a view-only lock for the whole layout
+ * - Multi-tile selection with group move, delete, duplicate and content updates
+ * - Pasting tiles from the clipboard format, also across dashboards and tabs
+ * - Named and automatic layout snapshots with a retention policy and restore
+ * - Live synchronization of changes with other open tabs
+ * - Optional sync with a self-hosted layout server, with conflict detection
+ *   and an offline queue
+ * - Merging tiles of an imported layout into the active dashboard
+ * - Gallery of parameterized dashboard templates, including templates saved
+ *   from the user's own dashboards
+ * - Reusable tile presets saved from configured tiles, with file export and import
  */
 
 import { defineStore } from 'pinia';
@@ -21,31 +38,283 @@ import type {
   GridConfig,
   DragState,
   ResizeState,
+  TileOperation,
   TileOperationEvent,
+  TileChange,
+  LayoutHistoryState,
   GridPosition,
+  Breakpoint,
+  ResponsiveBreakpoint,
+  BaseTileContent,
+  TileContent,
+  TileContentType,
+  TilePosition,
+  CompactionMode,
+  CollisionMode,
+  LayoutSnapshot,
+  SnapshotKind,
+  TabSyncNotice,
 } from '@/types/dashboard';
 import {
   DEFAULT_GRID_CONFIG,
   DEFAULT_TILE_SIZE,
   BREAKPOINTS,
 } from '@/types/dashboard';
+import {
+  serializeTile,
+  serializeLayout,
+  deserializeLayout,
+  deserializeTile,
+  cloneTile,
+  cloneLayout,
+  serializeOperationEvent,
+  deserializeOperationEvent,
+  serializeSnapshot,
+  deserializeSnapshot,
+  serializeTileChange,
+  deserializeTileChange,
+  type SerializedLayout,
+  type SerializedTile,
+  type SerializedTileChange,
+  type SerializedOperationEvent,
+  type SerializedSnapshot,
+} from '@/utils/layoutSerialization';
+import {
+  arrangeForBreakpoint,
+  compactVertically,
+  findFirstFit,
+  getDesktopPosition,
+  planSwap,
+  positionsOverlap,
+  resolveCollisions,
+  resolveGroupCollisions,
+  sortByReadingOrder,
+} from '@/utils/gridLayout';
+import { sanitizeClipboardTile, type ClipboardTile } from '@/utils/tileClipboard';
+import { applySnapshotRetention, layoutsEqual } from '@/utils/layoutSnapshots';
+import {
+  LAYOUT_SCHEMA_VERSION,
+  getLayoutSchemaVersion,
+  migrateLayout,
+  type MigratedLayoutData,
+} from '@/utils/layoutMigrations';
+import { validateLayout } from '@/utils/layoutValidation';
+import {
+  BUILT_IN_TEMPLATES,
+  createTemplateFromLayout,
+  instantiateTemplate,
+  isDashboardTemplate,
+  type DashboardTemplate,
+} from '@/utils/dashboardTemplates';
+import {
+  createPresetFromTile,
+  isTilePreset,
+  presetsEqual,
+  type ExportedTilePreset,
+  type TilePreset,
+} from '@/utils/tilePresets';
+import { createTileContent, getTileContentPlugin } from '@/utils/tileContentRegistry';
+import {
+  StorageWriteQueue,
+  createDefaultStorageAdapter,
+  migrateFromLocalStorage,
+  type StorageAdapter,
+  type StorageWriteError,
+} from '@/services/dashboardStorage';
+import { TabSyncChannel, type LayoutSettings, type TabSyncEnvelope } from '@/services/tabSync';
+import {
+  LayoutServerSync,
+  type LayoutSyncInfo,
+  type LayoutSyncState,
+  type StoredLayout,
+} from '@/services/layoutServer';
+import {
+  CollabConnection,
+  CollabDocument,
+  compareClocks,
+  generateClientId,
+  getPeerColor,
+  tileChangeToEntries,
+  type CollabPeer,
+  type CollabPresence,
+  type CollabServerMessage,
+  type CollaborationInfo,
+  type CollaboratorPresence,
+} from '@/services/collaboration';
+
+/**
+ * Prefix shared by every storage key of the dashboard store
+ */
+const STORAGE_KEY_PREFIX = 'dashboard-';
+
+/**
+ * Time to wait after the last change before writing to storage
+ */
+const STORAGE_WRITE_DELAY = 500;
+
+/**
+ * Storage key holding the ordered list of dashboard IDs
+ */
+const LAYOUT_INDEX_KEY = 'dashboard-layouts';
+
+/**
+ * Storage key holding the ID of the last active dashboard
+ */
+const ACTIVE_LAYOUT_KEY = 'dashboard-active-layout';
+
+/**
+ * Prefix for the per-dashboard storage keys (`dashboard-layout:<id>`)
+ */
+const LAYOUT_KEY_PREFIX = 'dashboard-layout:';
+
+/**
+ * Single-dashboard key used before multiple dashboards were supported
+ */
+const LEGACY_LAYOUT_KEY = 'dashboard-layout';
+
+/**
+ * Prefix for the per-dashboard undo/redo history keys (`dashboard-history:<id>`)
+ */
+const HISTORY_KEY_PREFIX = 'dashboard-history:';
+
+/**
+ * Storage key of the layout server sync state
+ */
+const SERVER_SYNC_KEY = 'dashboard-server-sync';
+
+/**
+ * Maximum number of undoable operations kept per dashboard
+ */
+const MAX_UNDO_HISTORY = 50;
+
+/**
+ * Prefix for the per-dashboard snapshot keys (`dashboard-snapshots:<id>`)
+ */
+const SNAPSHOT_KEY_PREFIX = 'dashboard-snapshots:';
+
+/**
+ * Storage key holding the templates saved by the user
+ */
+const TEMPLATES_KEY = 'dashboard-templates';
+
+/**
+ * Storage key holding the tile presets
+ */
+const TILE_PRESETS_KEY = 'dashboard-tile-presets';
+
+/**
+ * Minimum time between automatic snapshots of a dashboard (15 minutes)
+ */
+const AUTO_SNAPSHOT_INTERVAL = 15 * 60 * 1000;
+
+/**
+ * Creates an empty dashboard layout
+ * @param {string} id - Layout identifier
+ * @param {string} name - Human-readable layout name
+ * @returns {DashboardLayout} New empty layout
+ */
+function createEmptyLayout(id: string, name: string): DashboardLayout {
+  const now = new Date();
+
+  return {
+    id,
+    name,
+    tiles: [],
+    gridColumns: DEFAULT_GRID_CONFIG.desktop,
+    compactionMode: 'none',
+    collisionMode: 'push',
+    created: now,
+    modified: now,
+  };
+}
+
+/**
+ * Converts a layout to the versioned form written to storage
+ * @param {DashboardLayout} layout - Layout to store
+ * @returns {StoredLayout} Serialized layout tagged with the schema version
+ */
+function toStoredLayout(layout: DashboardLayout): StoredLayout {
+  return { version: LAYOUT_SCHEMA_VERSION, ...serializeLayout(layout) };
+}
+
+/**
+ * Generates a unique dashboard layout ID
+ * @returns {string} Unique layout identifier
+ */
+function generateLayoutId(): string {
+  return `layout-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+/**
+ * Generates a unique template ID
+ * @returns {string} Unique template identifier
+ */
+function generateTemplateId(): string {
+  return `template-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+/**
+ * Generates a unique tile preset ID
+ * @returns {string} Unique preset identifier
+ */
+function generatePresetId(): string {
+  return `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+/**
+ * Extracts the settings of a layout that are synchronized between tabs
+ * @param {DashboardLayout} layout - Layout to read
+ * @returns {LayoutSettings} Layout settings
+ */
+function getLayoutSettings(layout: DashboardLayout): LayoutSettings {
+  return {
+    name: layout.name,
+    gridColumns: layout.gridColumns,
+    compactionMode: layout.compactionMode ?? 'none',
+    collisionMode: layout.collisionMode ?? 'reject',
+    locked: layout.locked === true,
+  };
+}
+
+/**
+ * Serializes a tile for comparison, treating a missing tile as null
+ * @param {Tile | null | undefined} tile - Tile to serialize
+ * @returns {string} JSON representation
+ */
+function tileStateKey(tile: Tile | null | undefined): string {
+  return tile ? JSON.stringify(serializeTile(tile)) : 'null';
+}
+
+/**
+ * Generates a unique layout snapshot ID
+ * @returns {string} Unique snapshot identifier
+ */
+function generateSnapshotId(): string {
+  return `snapshot-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
 
 /**
  * Dashboard store for managing tile layout and operations
  */
 export const useDashboardStore = defineStore('dashboard', () => {
   // State
-  const currentLayout = ref<DashboardLayout>({
-    id: 'default',
-    name: 'Default Dashboard',
-    tiles: [],
-    gridColumns: DEFAULT_GRID_CONFIG.desktop,
-    created: new Date(),
-    modified: new Date(),
+  const layouts = ref<DashboardLayout[]>([createEmptyLayout('default', 'Default Dashboard')]);
+  const activeLayoutId = ref<string>('default');
+
+  /**
+   * The active dashboard layout. Assigning replaces the active entry in `layouts`.
+   */
+  const currentLayout = computed<DashboardLayout>({
+    get: () => layouts.value.find(layout => layout.id === activeLayoutId.value) ?? layouts.value[0],
+    set: (layout: DashboardLayout) => {
+      const index = layouts.value.findIndex(l => l.id === activeLayoutId.value);
+      layouts.value.splice(index === -1 ? 0 : index, 1, layout);
+      activeLayoutId.value = layout.id;
+    },
   });
 
   const gridConfig = ref<GridConfig>({ ...DEFAULT_GRID_CONFIG });
-  const currentBreakpoint = ref<'desktop' | 'tablet' | 'mobile' | 'smallMobile'>('desktop');
+  const currentBreakpoint = ref<Breakpoint>('desktop');
 
   const dragState = ref<DragState>({
     isDragging: false,
@@ -62,24 +331,179 @@ export const useDashboardStore = defineStore('dashboard', () => {
     resizeHandle: null,
   });
 
+  const selection = ref<string[]>([]);
+
   const operationHistory = ref<TileOperationEvent[]>([]);
+  const undoStack = ref<TileOperationEvent[]>([]);
+  const redoStack = ref<TileOperationEvent[]>([]);
+
+  // Snapshots of the active dashboard, newest first
+  const snapshots = ref<LayoutSnapshot[]>([]);
+
+  // Dashboard templates saved by the user; built-in templates are not stored
+  const userTemplates = ref<DashboardTemplate[]>([]);
+
+  // Saved tile configurations, shared by all dashboards
+  const tilePresets = ref<TilePreset[]>([]);
+
+  // Persistence backend; nothing is written until the stored data has been loaded
+  let storage: StorageAdapter = createDefaultStorageAdapter();
+  const storageName = ref<string>(storage.name);
+  const isStorageReady = ref<boolean>(false);
+  const storageError = ref<StorageWriteError | null>(null);
+  const storageWriter = new StorageWriteQueue(storage, {
+    delay: STORAGE_WRITE_DELAY,
+    onError: failure => {
+      storageError.value = failure;
+    },
+    onFlush: () => {
+      storageError.value = null;
+    },
+  });
+  let storageLoad: Promise<void> = Promise.resolve();
+
+  // Changes exchanged with other open tabs. Each tile remembers the time and
+  // tab of its last change, which decides concurrent edits of the same tile.
+  const tabSync = new TabSyncChannel();
+  const tileVersions = new Map<string, { time: number; tabId: string }>();
+  const pendingRemoteChanges: TabSyncEnvelope[] = [];
+  const syncNotice = ref<TabSyncNotice | null>(null);
+
+  // Optional sync with a layout server; local changes are queued for upload
+  const layoutSync = new LayoutServerSync({
+    layoutIds: () => layouts.value.map(l => l.id),
+    readLayout: readServerLayout,
+    normalizeLayout: normalizeServerLayout,
+    applyLayout: applyServerLayout,
+    removeLayout: removeDashboard,
+    saveState: state => persist(SERVER_SYNC_KEY, () => JSON.stringify(state)),
+    onChange: info => {
+      serverSync.value = info;
+    },
+  });
+  const serverSync = ref<LayoutSyncInfo>(layoutSync.info);
+
+  // Real-time collaboration through a relay room. The session stays bound
+  // to the dashboard that was active when it started.
+  let collabSession: {
+    layoutId: string;
+    document: CollabDocument;
+    connection: CollabConnection;
+    joined: boolean;
+  } | null = null;
+  const collaboration = ref<CollaborationInfo>({
+    status: 'off',
+    layoutId: null,
+    relayUrl: null,
+    room: null,
+    self: null,
+    peers: [],
+  });
+  const collabPresence = ref<Record<string, CollabPresence>>({});
 
   // Computed properties
-  const tiles = computed(() => currentLayout.value.tiles);
-
-  const gridColumns = computed(() => {
-    switch (currentBreakpoint.value) {
-      case 'desktop':
-        return gridConfig.value.desktop;
-      case 'tablet':
-        return gridConfig.value.tablet;
-      case 'mobile':
-        return gridConfig.value.mobile;
-      case 'smallMobile':
-        return gridConfig.value.smallMobile;
-      default:
-        return gridConfig.value.desktop;
+  const canUndo = computed(() => undoStack.value.length > 0);
+  const canRedo = computed(() => redoStack.value.length > 0);
+
+  const gridColumns = computed(() => getColumnsForBreakpoint(currentBreakpoint.value));
+
+  const compactionMode = computed<CompactionMode>(() => currentLayout.value.compactionMode ?? 'none');
+  const collisionMode = computed<CollisionMode>(() => currentLayout.value.collisionMode ?? 'reject');
+  const isLayoutLocked = computed(() => currentLayout.value.locked === true);
+
+  /**
+   * IDs of locked tiles, which placement and compaction treat as fixed obstacles
+   */
+  const lockedTileIds = computed(() => new Set(
+    currentLayout.value.tiles.filter(tile => tile.locked).map(tile => tile.id)
+  ));
+
+  /**
+   * Tile positions for the current breakpoint, keyed by tile ID.
+   * With vertical compaction, derived positions are floated upward as well.
+   */
+  const arrangement = computed(() => {
+    const positions = arrangeForBreakpoint(
+      currentLayout.value.tiles,
+      currentBreakpoint.value,
+      gridColumns.value
+    );
+
+    return compactionMode.value === 'vertical'
+      ? compactVertically(positions, lockedTileIds.value)
+      : positions;
+  });
+
+  /**
+   * Tiles of the active layout, positioned for the current breakpoint.
+   * On desktop these are the stored tiles themselves; on smaller breakpoints
+   * they are copies carrying the stored or derived position.
+   */
+  const tiles = computed<Tile[]>(() => {
+    if (currentBreakpoint.value === 'desktop') {
+      return currentLayout.value.tiles;
+    }
+
+    return currentLayout.value.tiles.map(tile => ({
+      ...tile,
+      ...arrangement.value.get(tile.id),
+    }));
+  });
+
+  /**
+   * Whether the current breakpoint has hand-edited tile positions
+   */
+  const isBreakpointCustomized = computed(() => {
+    const breakpoint = currentBreakpoint.value;
+    if (breakpoint === 'desktop') return false;
+
+    return currentLayout.value.tiles.some(tile => tile.breakpointPositions?.[breakpoint]);
+  });
+
+  /**
+   * IDs of the selected tiles that still exist in the active layout
+   */
+  const selectedTileIds = computed(() => {
+    const existingIds = new Set(currentLayout.value.tiles.map(tile => tile.id));
+    return selection.value.filter(tileId => existingIds.has(tileId));
+  });
+
+  /**
+   * Selected tiles, positioned for the current breakpoint
+   */
+  const selectedTiles = computed(() => tiles.value.filter(tile => selectedTileIds.value.includes(tile.id)));
+
+  /**
+   * Arrangement that the drag or resize in progress would produce, used for
+   * live previews. Null when nothing is in progress or the placement is not allowed.
+   */
+  const placementPreview = computed<Map<string, TilePosition> | null>(() => {
+    const { isDragging, draggedTileId, currentPosition } = dragState.value;
+    if (isDragging && draggedTileId && currentPosition) {
+      const position = arrangement.value.get(draggedTileId);
+      if (!position) return null;
+
+      const group = getDragGroup(draggedTileId);
+      if (group.length > 1) {
+        return planGroupPlacement(group, currentPosition.x - position.x, currentPosition.y - position.y);
+      }
+
+      return planPlacement(draggedTileId, { ...position, ...currentPosition });
+    }
+
+    const { isResizing, resizedTileId, currentSize } = resizeState.value;
+    if (isResizing && resizedTileId && currentSize) {
+      const tile = currentLayout.value.tiles.find(t => t.id === resizedTileId);
+      const position = arrangement.value.get(resizedTileId);
+      if (!tile || !position) return null;
+
+      return planPlacement(resizedTileId, {
+        ...position,
+        ...clampTileSize(tile, currentSize.width, currentSize.height),
+      }, 'resize');
     }
+
+    return null;
   });
 
   const maxTileId = computed(() => {
@@ -89,10 +513,24 @@ export const useDashboardStore = defineStore('dashboard', () => {
   // Utility functions
 
   /**
-   * Generates a unique tile ID
+   * Gets the number of grid columns for a breakpoint
+   * @param {Breakpoint} breakpoint - Breakpoint to look up
+   * @returns {number} Column count
+   */
+  function getColumnsForBreakpoint(breakpoint: Breakpoint): number {
+    return gridConfig.value[breakpoint] || gridConfig.value.desktop;
+  }
+
+  /**
+   * Generates a unique tile ID. While collaborating, the ID ends with a part
+   * of the client ID, so that tiles created concurrently by different
+   * participants do not share an ID.
    * @returns {string} Unique tile identifier
    */
   function generateTileId(): string {
+    if (collabSession?.layoutId === activeLayoutId.value) {
+      return `tile-${maxTileId.value + 1}-${collabSession.document.clientId.slice(-7)}`;
+    }
     return `tile-${maxTileId.value + 1}`;
   }
 
@@ -100,49 +538,21 @@ export const useDashboardStore = defineStore('dashboard', () => {
    * Finds the next available position for a new tile
    * @param {number} width - Width of the tile in grid units
    * @param {number} height - Height of the tile in grid units
+   * @param {Breakpoint} breakpoint - Breakpoint to search (defaults to the current one)
    * @returns {GridPosition} Next available position
    */
-  function findNextAvailablePosition(width: number, height: number): GridPosition {
-    const occupiedPositions = new Set<string>();
-
-    // Mark all occupied positions
-    tiles.value.forEach(tile => {
-      for (let x = tile.x; x < tile.x + tile.width; x++) {
-        for (let y = tile.y; y < tile.y + tile.height; y++) {
-          occupiedPositions.add(`${x}-${y}`);
-        }
-      }
-    });
-
-    // Find first available position
-    for (let y = 0; y < 1000; y++) { // Reasonable limit
-      for (let x = 0; x <= gridColumns.value - width; x++) {
-        let canPlace = true;
-
-        // Check if the entire tile area is free
-        for (let checkX = x; checkX < x + width && canPlace; checkX++) {
-          for (let checkY = y; checkY < y + height && canPlace; checkY++) {
-            if (occupiedPositions.has(`${checkX}-${checkY}`)) {
-              canPlace = false;
-            }
-          }
-        }
-
-        if (canPlace) {
-          return {
-            x,
-            y,
-            isValid: true,
-            hasConflicts: false,
-          };
-        }
-      }
-    }
+  function findNextAvailablePosition(
+    width: number,
+    height: number,
+    breakpoint: Breakpoint = currentBreakpoint.value
+  ): GridPosition {
+    const columns = getColumnsForBreakpoint(breakpoint);
+    const occupied = [...arrangeForBreakpoint(currentLayout.value.tiles, breakpoint, columns).values()];
+    const { x, y } = findFirstFit(occupied, width, height, columns);
 
-    // Fallback to bottom of grid
     return {
-      x: 0,
-      y: Math.max(...tiles.value.map(t => t.y + t.height), 0),
+      x,
+      y,
       isValid: true,
       hasConflicts: false,
     };
@@ -167,17 +577,25 @@ export const useDashboardStore = defineStore('dashboard', () => {
     return tiles.value.some(tile => {
       if (excludeTileId && tile.id === excludeTileId) return false;
 
-      return !(
-        x >= tile.x + tile.width ||
-        x + width <= tile.x ||
-        y >= tile.y + tile.height ||
-        y + height <= tile.y
-      );
+      return positionsOverlap({ x, y, width, height }, tile);
     });
   }
 
+  /**
+   * Checks whether a tile may not be moved, resized or deleted
+   * @param {string} tileId - Tile ID to check
+   * @returns {boolean} Whether the tile or the whole layout is locked
+   */
+  function isTileLocked(tileId: string): boolean {
+    return isLayoutLocked.value || lockedTileIds.value.has(tileId);
+  }
+
   /**
    * Logs a tile operation for history tracking
+   *
+   * Operations that carry tile or layout setting changes also become undoable
+   * and clear the redo stack.
+   *
    * @param {TileOperationEvent} event - Operation event to log
    */
   function logOperation(event: TileOperationEvent): void {
@@ -187,462 +605,2725 @@ export const useDashboardStore = defineStore('dashboard', () => {
     if (operationHistory.value.length > 100) {
       operationHistory.value = operationHistory.value.slice(-100);
     }
+
+    if ((event.changes && event.changes.length > 0) || event.layoutChange) {
+      undoStack.value.push(event);
+      if (undoStack.value.length > MAX_UNDO_HISTORY) {
+        undoStack.value = undoStack.value.slice(-MAX_UNDO_HISTORY);
+      }
+      redoStack.value = [];
+      saveHistory();
+    }
   }
 
-  // Tile operations
+  /**
+   * Captures detached copies of all tiles in the active layout
+   * @returns {Map<string, Tile>} Tile copies keyed by tile ID
+   */
+  function snapshotTiles(): Map<string, Tile> {
+    return new Map(currentLayout.value.tiles.map(tile => [tile.id, cloneTile(tile)]));
+  }
 
   /**
-   * Creates a new tile with default properties
-   * @param {Partial<Tile>} tileData - Optional tile properties to override defaults
-   * @returns {Tile} The created tile
+   * Computes the per-tile differences between two tile snapshots
+   * @param {Map<string, Tile>} before - Snapshot taken before an operation
+   * @param {Map<string, Tile>} after - Snapshot taken after an operation
+   * @returns {TileChange[]} Changed tiles with their before and after states
    */
-  function createTile(tileData: Partial<Tile> = {}): Tile {
-    const id = generateTileId();
-    const now = new Date();
-    const position = findNextAvailablePosition(
-      tileData.width || DEFAULT_TILE_SIZE.width,
-      tileData.height || DEFAULT_TILE_SIZE.height
-    );
+  function diffTileSnapshots(before: Map<string, Tile>, after: Map<string, Tile>): TileChange[] {
+    const changes: TileChange[] = [];
+    const tileIds = new Set([...before.keys(), ...after.keys()]);
 
-    const newTile: Tile = {
-      id,
-      title: `Tile ${id.replace('tile-', '')}`,
-      x: position.x,
-      y: position.y,
-      width: DEFAULT_TILE_SIZE.width,
-      height: DEFAULT_TILE_SIZE.height,
-      minWidth: DEFAULT_TILE_SIZE.minWidth,
-      minHeight: DEFAULT_TILE_SIZE.minHeight,
-      created: now,
-      modified: now,
-      ...tileData,
-    };
+    tileIds.forEach(tileId => {
+      const beforeTile = before.get(tileId) ?? null;
+      const afterTile = after.get(tileId) ?? null;
 
-    currentLayout.value.tiles.push(newTile);
-    currentLayout.value.modified = now;
+      const beforeJson = beforeTile ? JSON.stringify(serializeTile(beforeTile)) : null;
+      const afterJson = afterTile ? JSON.stringify(serializeTile(afterTile)) : null;
 
-    logOperation({
-      operation: 'create',
-      tileId: id,
-      data: { tile: newTile },
-      timestamp: now,
+      if (beforeJson !== afterJson) {
+        changes.push({ tileId, before: beforeTile, after: afterTile });
+      }
     });
 
-    return newTile;
+    return changes;
   }
 
   /**
-   * Deletes a tile by ID
-   * @param {string} tileId - ID of tile to delete
-   * @returns {boolean} Whether the tile was successfully deleted
+   * Captures the layout settings and grid configuration recorded for undo/redo
+   * @returns {LayoutHistoryState} Settings of the active layout and the grid configuration
    */
-  function deleteTile(tileId: string): boolean {
-    const index = currentLayout.value.tiles.findIndex(tile => tile.id === tileId);
-
-    if (index === -1) return false;
+  function getLayoutHistoryState(): LayoutHistoryState {
+    const { name, gridColumns, compactionMode, collisionMode } = getLayoutSettings(currentLayout.value);
+    return { name, gridColumns, compactionMode, collisionMode, gridConfig: { ...gridConfig.value } };
+  }
 
-    const deletedTile = currentLayout.value.tiles[index];
-    currentLayout.value.tiles.splice(index, 1);
+  /**
+   * Restores recorded layout settings and grid configuration
+   * @param {LayoutHistoryState} state - Settings to restore
+   */
+  function applyLayoutHistoryState(state: LayoutHistoryState): void {
+    currentLayout.value.name = state.name;
+    currentLayout.value.gridColumns = state.gridColumns;
+    currentLayout.value.compactionMode = state.compactionMode;
+    currentLayout.value.collisionMode = state.collisionMode;
     currentLayout.value.modified = new Date();
+    gridConfig.value = { ...state.gridConfig };
+    broadcastSettings(currentLayout.value);
+  }
 
-    logOperation({
-      operation: 'delete',
-      tileId,
-      data: { tile: deletedTile },
-      timestamp: new Date(),
-    });
+  /**
+   * Runs a mutation of the active layout and logs it as a single undoable operation
+   *
+   * Tile states are recorded per changed tile; layout settings and the grid
+   * configuration are recorded as a whole when the mutation changes them.
+   *
+   * @param {TileOperation} operation - Operation type to log
+   * @param {string} tileId - Affected tile ID (or a pseudo ID such as 'all' or 'layout')
+   * @param {Function} mutate - Mutation to run; its return value is passed through
+   * @param {unknown} data - Additional operation-specific data
+   * @returns {T} The mutation's return value
+   */
+  function recordOperation<T>(
+    operation: TileOperation,
+    tileId: string,
+    mutate: () => T,
+    data?: unknown
+  ): T {
+    takeAutoSnapshotIfDue();
+
+    const before = snapshotTiles();
+    const layoutBefore = getLayoutHistoryState();
+    const settingsBefore = JSON.stringify(getLayoutSettings(currentLayout.value));
+    const result = mutate();
+    if (compactionMode.value === 'vertical') {
+      compactArrangement(false);
+    }
+    const changes = diffTileSnapshots(before, snapshotTiles());
+    const layoutAfter = getLayoutHistoryState();
+    const layoutChanged = JSON.stringify(layoutAfter) !== JSON.stringify(layoutBefore);
+    const timestamp = new Date();
 
-    return true;
+    if (changes.length > 0 || layoutChanged) {
+      logOperation({
+        operation,
+        tileId,
+        data,
+        changes,
+        ...(layoutChanged ? { layoutChange: { before: layoutBefore, after: layoutAfter } } : {}),
+        timestamp,
+      });
+    }
+
+    if (changes.length > 0) {
+      broadcastTileChanges(changes, timestamp);
+      shareTileChanges(currentLayout.value.id, changes);
+    }
+
+    if (JSON.stringify(getLayoutSettings(currentLayout.value)) !== settingsBefore) {
+      broadcastSettings(currentLayout.value);
+    }
+
+    return result;
   }
 
   /**
-   * Updates a tile's properties
-   * @param {string} tileId - ID of tile to update
-   * @param {Partial<Tile>} updates - Properties to update
-   * @returns {boolean} Whether the tile was successfully updated
+   * Applies one side of a set of tile changes to the active layout
+   * @param {TileChange[]} changes - Changes to apply
+   * @param {'before' | 'after'} side - Which state to restore
    */
-  function updateTile(tileId: string, updates: Partial<Tile>): boolean {
-    const tile = currentLayout.value.tiles.find(t => t.id === tileId);
+  function applyTileStates(changes: TileChange[], side: 'before' | 'after'): void {
+    const layoutTiles = currentLayout.value.tiles;
 
-    if (!tile) return false;
+    changes.forEach(change => {
+      const targetState = change[side];
+      const index = layoutTiles.findIndex(tile => tile.id === change.tileId);
 
-    const oldValues = { ...tile };
-    Object.assign(tile, updates, { modified: new Date() });
-    currentLayout.value.modified = new Date();
+      if (!targetState) {
+        if (index !== -1) layoutTiles.splice(index, 1);
+        return;
+      }
 
-    logOperation({
-      operation: 'move',
-      tileId,
-      data: { oldValues, newValues: { ...tile } },
-      timestamp: new Date(),
+      const tile = cloneTile(targetState);
+      if (index === -1) {
+        layoutTiles.push(tile);
+      } else {
+        layoutTiles.splice(index, 1, tile);
+      }
     });
 
-    return true;
+    currentLayout.value.modified = new Date();
   }
 
+  // Undo / redo
+
   /**
-   * Moves a tile to a new position
-   * @param {string} tileId - ID of tile to move
-   * @param {number} x - New X position
-   * @param {number} y - New Y position
-   * @returns {boolean} Whether the move was successful
+   * Reverts the most recent undoable operation
+   * @returns {TileOperationEvent | null} The reverted operation, or null if nothing to undo
    */
-  function moveTile(tileId: string, x: number, y: number): boolean {
-    const tile = currentLayout.value.tiles.find(t => t.id === tileId);
+  function undo(): TileOperationEvent | null {
+    if (isLayoutLocked.value) return null;
+    if (dragState.value.isDragging || resizeState.value.isResizing) return null;
 
-    if (!tile) return false;
+    const event = undoStack.value.pop();
+    if (!event) return null;
 
-    // Check bounds
-    if (x < 0 || x + tile.width > gridColumns.value || y < 0) {
-      return false;
+    const changes = event.changes ?? [];
+    if (event.layoutChange) {
+      applyLayoutHistoryState(event.layoutChange.before);
     }
-
-    // Check conflicts
-    if (hasPositionConflicts(x, y, tile.width, tile.height, tileId)) {
-      return false;
+    applyTileStates(changes, 'before');
+    redoStack.value.push(event);
+    saveHistory();
+    if (changes.length > 0) {
+      const inverted = changes.map(change => ({ ...change, before: change.after, after: change.before }));
+      broadcastTileChanges(inverted);
+      shareTileChanges(currentLayout.value.id, inverted);
     }
 
-    return updateTile(tileId, { x, y });
+    return event;
   }
 
   /**
-   * Resizes a tile
-   * @param {string} tileId - ID of tile to resize
-   * @param {number} width - New width in grid units
-   * @param {number} height - New height in grid units
-   * @returns {boolean} Whether the resize was successful
+   * Re-applies the most recently undone operation
+   * @returns {TileOperationEvent | null} The re-applied operation, or null if nothing to redo
    */
-  function resizeTile(tileId: string, width: number, height: number): boolean {
-    const tile = currentLayout.value.tiles.find(t => t.id === tileId);
-
-    if (!tile) return false;
-
-    // Enforce minimum/maximum constraints
-    const minWidth = tile.minWidth || DEFAULT_TILE_SIZE.minWidth;
-    const minHeight = tile.minHeight || DEFAULT_TILE_SIZE.minHeight;
-    const maxWidth = tile.maxWidth || gridColumns.value;
-    const maxHeight = tile.maxHeight || 20; // Reasonable default
+  function redo(): TileOperationEvent | null {
+    if (isLayoutLocked.value) return null;
+    if (dragState.value.isDragging || resizeState.value.isResizing) return null;
 
-    width = Math.max(minWidth, Math.min(maxWidth, width));
-    height = Math.max(minHeight, Math.min(maxHeight, height));
+    const event = redoStack.value.pop();
+    if (!event) return null;
 
-    // Check bounds
-    if (tile.x + width > gridColumns.value) {
-      return false;
+    const changes = event.changes ?? [];
+    if (event.layoutChange) {
+      applyLayoutHistoryState(event.layoutChange.after);
     }
-
-    // Check conflicts
-    if (hasPositionConflicts(tile.x, tile.y, width, height, tileId)) {
-      return false;
+    applyTileStates(changes, 'after');
+    undoStack.value.push(event);
+    saveHistory();
+    if (changes.length > 0) {
+      broadcastTileChanges(changes);
+      shareTileChanges(currentLayout.value.id, changes);
     }
 
-    logOperation({
-      operation: 'resize',
-      tileId,
-      data: { oldSize: { width: tile.width, height: tile.height }, newSize: { width, height } },
-      timestamp: new Date(),
-    });
-
-    return updateTile(tileId, { width, height });
+    return event;
   }
 
-  // Drag and drop operations
+  /**
+   * Schedules the undo/redo stacks of the active dashboard to be saved
+   */
+  function saveHistory(): void {
+    // Capture the stacks, which are replaced when switching dashboards
+    const undo = undoStack.value;
+    const redo = redoStack.value;
+
+    persist(`${HISTORY_KEY_PREFIX}${activeLayoutId.value}`, () => JSON.stringify({
+      version: LAYOUT_SCHEMA_VERSION,
+      undo: undo.map(serializeOperationEvent),
+      redo: redo.map(serializeOperationEvent),
+    }));
+  }
 
   /**
-   * Starts a drag operation
-   * @param {string} tileId - ID of tile being dragged
+   * Loads the undo/redo stacks of a dashboard from storage
+   * @param {string} layoutId - Dashboard whose history to load
+   * @returns {Promise<void>} Resolves when the history has been loaded
    */
-  function startDrag(tileId: string): void {
-    const tile = tiles.value.find(t => t.id === tileId);
-    if (!tile) return;
+  async function loadHistory(layoutId: string): Promise<void> {
+    undoStack.value = [];
+    redoStack.value = [];
 
-    dragState.value = {
-      isDragging: true,
-      draggedTileId: tileId,
+    try {
+      const savedHistory = await readStorage(`${HISTORY_KEY_PREFIX}${layoutId}`);
+      if (!savedHistory || activeLayoutId.value !== layoutId) return;
+
+      const historyData = JSON.parse(savedHistory) as {
+        version?: number;
+        undo?: SerializedOperationEvent[];
+        redo?: SerializedOperationEvent[];
+      };
+
+      // Recorded tile states are not migrated, so history from another schema version is dropped
+      if ((historyData.version ?? 1) !== LAYOUT_SCHEMA_VERSION) {
+        console.debug(`Discarding undo history of "${layoutId}" recorded with layout version ${historyData.version ?? 1}`);
+        return;
+      }
+
+      undoStack.value = (historyData.undo || []).slice(-MAX_UNDO_HISTORY).map(deserializeOperationEvent);
+      redoStack.value = (historyData.redo || []).slice(-MAX_UNDO_HISTORY).map(deserializeOperationEvent);
+    } catch (error) {
+      console.error(`Failed to load undo history from ${storage.name}:`, error);
+    }
+  }
+
+  // Snapshots
+
+  /**
+   * Schedules the snapshots of the active dashboard to be saved
+   */
+  function saveSnapshots(): void {
+    const savedSnapshots = snapshots.value;
+    const toStoredSnapshots = () => savedSnapshots.map(snapshot => ({
+      ...serializeSnapshot(snapshot),
+      layout: toStoredLayout(snapshot.layout),
+    }));
+
+    persist(`${SNAPSHOT_KEY_PREFIX}${activeLayoutId.value}`, () => JSON.stringify(toStoredSnapshots()));
+    tabSync.post({ kind: 'snapshots', layoutId: activeLayoutId.value, snapshots: toStoredSnapshots() });
+  }
+
+  /**
+   * Loads the snapshots of a dashboard from storage
+   * @param {string} layoutId - Dashboard whose snapshots to load
+   * @returns {Promise<void>} Resolves when the snapshots have been loaded
+   */
+  async function loadSnapshots(layoutId: string): Promise<void> {
+    snapshots.value = [];
+
+    try {
+      const savedSnapshots = await readStorage(`${SNAPSHOT_KEY_PREFIX}${layoutId}`);
+      if (!savedSnapshots || activeLayoutId.value !== layoutId) return;
+
+      const snapshotData = JSON.parse(savedSnapshots) as SerializedSnapshot[];
+      snapshots.value = applySnapshotRetention(
+        snapshotData
+          .map(readStoredSnapshot)
+          .filter((snapshot): snapshot is LayoutSnapshot => snapshot !== null)
+      );
+    } catch (error) {
+      console.error(`Failed to load snapshots from ${storage.name}:`, error);
+    }
+  }
+
+  /**
+   * Restores a stored snapshot, migrating its layout to the current schema
+   * @param {SerializedSnapshot} data - Stored snapshot
+   * @returns {LayoutSnapshot | null} Snapshot, or null if its layout cannot be read
+   */
+  function readStoredSnapshot(data: SerializedSnapshot): LayoutSnapshot | null {
+    try {
+      return deserializeSnapshot({ ...data, layout: migrateLayout(data?.layout) as SerializedLayout });
+    } catch (error) {
+      console.error(`Skipping unreadable snapshot "${data?.name}":`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Saves a copy of the active layout as a snapshot
+   *
+   * Older snapshots are dropped according to the retention policy.
+   *
+   * @param {string} name - Snapshot name (a timestamped name is used when empty)
+   * @param {SnapshotKind} kind - Whether the user or the store took the snapshot
+   * @returns {LayoutSnapshot} The new snapshot
+   */
+  function createSnapshot(name: string, kind: SnapshotKind = 'manual'): LayoutSnapshot {
+    const now = new Date();
+    const snapshot: LayoutSnapshot = {
+      id: generateSnapshotId(),
+      name: name.trim() || `Snapshot ${now.toLocaleString()}`,
+      kind,
+      created: now,
+      layout: cloneLayout(currentLayout.value),
+    };
+
+    snapshots.value = applySnapshotRetention([snapshot, ...snapshots.value], now);
+    saveSnapshots();
+
+    return snapshot;
+  }
+
+  /**
+   * Takes an automatic snapshot of the active layout before it changes, at
+   * most once per `AUTO_SNAPSHOT_INTERVAL`
+   *
+   * Empty layouts and layouts identical to the latest snapshot are skipped.
+   */
+  function takeAutoSnapshotIfDue(): void {
+    if (currentLayout.value.tiles.length === 0) return;
+
+    const lastAutoSnapshot = snapshots.value.find(snapshot => snapshot.kind === 'auto');
+    if (lastAutoSnapshot && Date.now() - lastAutoSnapshot.created.getTime() < AUTO_SNAPSHOT_INTERVAL) return;
+
+    const latestSnapshot = snapshots.value[0];
+    if (latestSnapshot && layoutsEqual(latestSnapshot.layout, currentLayout.value)) return;
+
+    createSnapshot('Automatic snapshot', 'auto');
+  }
+
+  /**
+   * Replaces the tiles and layout settings of the active dashboard with a snapshot
+   *
+   * The current layout is snapshotted first, and the restore itself is undoable.
+   * The dashboard keeps its ID and name.
+   *
+   * @param {string} snapshotId - ID of the snapshot to restore
+   * @returns {boolean} Whether the snapshot was restored
+   */
+  function restoreSnapshot(snapshotId: string): boolean {
+    if (isLayoutLocked.value) return false;
+
+    const snapshot = snapshots.value.find(s => s.id === snapshotId);
+    if (!snapshot) return false;
+
+    if (!layoutsEqual(snapshot.layout, currentLayout.value)) {
+      createSnapshot(`Before restoring "${snapshot.name}"`, 'auto');
+    }
+
+    const restored = cloneLayout(snapshot.layout);
+    recordOperation('restore', 'layout', () => {
+      currentLayout.value = {
+        ...currentLayout.value,
+        tiles: restored.tiles,
+        gridColumns: restored.gridColumns,
+        compactionMode: restored.compactionMode,
+        collisionMode: restored.collisionMode,
+        modified: new Date(),
+      };
+    }, { action: 'restore_snapshot', snapshotId, snapshotName: snapshot.name });
+
+    return true;
+  }
+
+  /**
+   * Deletes a snapshot of the active dashboard
+   * @param {string} snapshotId - ID of the snapshot to delete
+   * @returns {boolean} Whether the snapshot was deleted
+   */
+  function deleteSnapshot(snapshotId: string): boolean {
+    const index = snapshots.value.findIndex(s => s.id === snapshotId);
+    if (index === -1) return false;
+
+    snapshots.value.splice(index, 1);
+    saveSnapshots();
+
+    return true;
+  }
+
+  // Tile operations
+
+  /**
+   * Creates a new tile with default properties
+   * @param {Partial<Tile>} tileData - Optional tile properties to override defaults
+   * @returns {Tile} The created tile
+   * @throws {Error} If the layout is locked
+   */
+  function createTile(tileData: Partial<Tile> = {}): Tile {
+    if (isLayoutLocked.value) {
+      throw new Error('Dashboard layout is locked');
+    }
+
+    const id = generateTileId();
+    const now = new Date();
+    const position = findNextAvailablePosition(
+      tileData.width || DEFAULT_TILE_SIZE.width,
+      tileData.height || DEFAULT_TILE_SIZE.height,
+      'desktop'
+    );
+
+    const newTile: Tile = {
+      id,
+      title: `Tile ${id.replace('tile-', '')}`,
+      x: position.x,
+      y: position.y,
+      width: DEFAULT_TILE_SIZE.width,
+      height: DEFAULT_TILE_SIZE.height,
+      minWidth: DEFAULT_TILE_SIZE.minWidth,
+      minHeight: DEFAULT_TILE_SIZE.minHeight,
+      created: now,
+      modified: now,
+      ...tileData,
+    };
+
+    recordOperation('create', id, () => {
+      currentLayout.value.tiles.push(newTile);
+      currentLayout.value.modified = now;
+    });
+
+    return newTile;
+  }
+
+  /**
+   * Creates a tile showing a content type, with the default configuration
+   * and size of the content type's plugin; tiles too wide for the grid are
+   * narrowed to its width
+   * @param {TileContentType} contentType - Registered content type
+   * @returns {Tile} The created tile
+   * @throws {Error} If the content type is not registered or the layout is locked
+   */
+  function createTileOfType(contentType: TileContentType): Tile {
+    const plugin = getTileContentPlugin(contentType);
+    if (!plugin) {
+      throw new Error(`Unknown tile content type "${contentType}"`);
+    }
+
+    const columns = getColumnsForBreakpoint('desktop');
+    const { width, height, minWidth, minHeight, maxWidth, maxHeight } = plugin.size;
+    const tileData: Partial<Tile> = {
+      title: plugin.displayName,
+      width: Math.min(width, columns),
+      height,
+      minWidth: Math.min(minWidth, columns),
+      minHeight,
+      content: createTileContent(contentType),
+    };
+    if (maxWidth !== undefined) tileData.maxWidth = maxWidth;
+    if (maxHeight !== undefined) tileData.maxHeight = maxHeight;
+
+    return createTile(tileData);
+  }
+
+  /**
+   * Deletes a tile by ID. Locked tiles are never deleted.
+   * @param {string} tileId - ID of tile to delete
+   * @returns {boolean} Whether the tile was successfully deleted
+   */
+  function deleteTile(tileId: string): boolean {
+    const index = currentLayout.value.tiles.findIndex(tile => tile.id === tileId);
+
+    if (index === -1 || isTileLocked(tileId)) return false;
+
+    recordOperation('delete', tileId, () => {
+      currentLayout.value.tiles.splice(index, 1);
+      currentLayout.value.modified = new Date();
+    });
+
+    return true;
+  }
+
+  /**
+   * Deletes several tiles as a single undoable operation. Locked tiles are kept.
+   * @param {string[]} tileIds - IDs of tiles to delete
+   * @returns {number} Number of tiles deleted
+   */
+  function deleteTiles(tileIds: string[]): number {
+    const doomedIds = new Set(tileIds.filter(tileId => !isTileLocked(tileId)));
+    const remainingTiles = currentLayout.value.tiles.filter(tile => !doomedIds.has(tile.id));
+    const deletedCount = currentLayout.value.tiles.length - remainingTiles.length;
+
+    if (deletedCount === 0) return 0;
+
+    recordOperation('delete', 'selection', () => {
+      currentLayout.value.tiles = remainingTiles;
+      currentLayout.value.modified = new Date();
+    }, { count: deletedCount });
+
+    return deletedCount;
+  }
+
+  /**
+   * Duplicates several tiles as a single undoable operation. The copies keep
+   * their relative desktop offsets and are placed as a block in the first
+   * free space that fits the whole group.
+   * @param {string[]} tileIds - IDs of tiles to duplicate
+   * @returns {Tile[]} The created copies
+   * @throws {Error} If the layout is locked
+   */
+  function duplicateTiles(tileIds: string[]): Tile[] {
+    if (isLayoutLocked.value) {
+      throw new Error('Dashboard layout is locked');
+    }
+
+    const sources = sortByReadingOrder(currentLayout.value.tiles.filter(tile => tileIds.includes(tile.id)));
+    if (sources.length === 0) return [];
+
+    const columns = getColumnsForBreakpoint('desktop');
+    const left = Math.min(...sources.map(tile => tile.x));
+    const top = Math.min(...sources.map(tile => tile.y));
+    const right = Math.max(...sources.map(tile => tile.x + tile.width));
+    const bottom = Math.max(...sources.map(tile => tile.y + tile.height));
+    const spot = findFirstFit(
+      currentLayout.value.tiles.map(getDesktopPosition),
+      right - left,
+      bottom - top,
+      columns
+    );
+
+    const copies: Tile[] = [];
+    const now = new Date();
+
+    recordOperation('create', 'selection', () => {
+      sources.forEach(source => {
+        const copy: Tile = {
+          ...cloneTile(source),
+          id: generateTileId(),
+          title: `${source.title} (copy)`,
+          x: spot.x + source.x - left,
+          y: spot.y + source.y - top,
+          breakpointPositions: undefined,
+          locked: undefined,
+          created: now,
+          modified: now,
+        };
+
+        currentLayout.value.tiles.push(copy);
+        copies.push(copy);
+      });
+      currentLayout.value.modified = now;
+    }, { count: sources.length });
+
+    return copies;
+  }
+
+  /**
+   * Inserts tiles from the clipboard as a single undoable operation. Each
+   * pasted tile is rebuilt from the clipboard tile fields only, with its
+   * content validated, and gets a new ID and the next free desktop position.
+   * Tiles that fail validation are skipped.
+   * @param {ClipboardTile[]} clipboardTiles - Tiles to paste, in reading order
+   * @returns {Tile[]} The pasted tiles
+   * @throws {Error} If the layout is locked
+   */
+  function pasteTiles(clipboardTiles: ClipboardTile[]): Tile[] {
+    if (isLayoutLocked.value) {
+      throw new Error('Dashboard layout is locked');
+    }
+
+    const desktopColumns = getColumnsForBreakpoint('desktop');
+    const validTiles = clipboardTiles
+      .map(clipboardTile => sanitizeClipboardTile(clipboardTile, desktopColumns))
+      .filter((clipboardTile): clipboardTile is ClipboardTile => clipboardTile !== null);
+    const pasted: Tile[] = [];
+    const now = new Date();
+
+    if (validTiles.length === 0) {
+      return pasted;
+    }
+
+    recordOperation('create', 'clipboard', () => {
+      validTiles.forEach(clipboardTile => {
+        const position = findNextAvailablePosition(clipboardTile.width, clipboardTile.height, 'desktop');
+        const tile: Tile = {
+          ...clipboardTile,
+          id: generateTileId(),
+          x: position.x,
+          y: position.y,
+          created: now,
+          modified: now,
+        };
+
+        currentLayout.value.tiles.push(tile);
+        pasted.push(tile);
+      });
+      currentLayout.value.modified = now;
+    }, { count: validTiles.length });
+
+    return pasted;
+  }
+
+  /**
+   * Applies property updates to a tile without logging
+   * @param {Tile} tile - Tile to update
+   * @param {Partial<Tile>} updates - Properties to update
+   */
+  function applyTileUpdates(tile: Tile, updates: Partial<Tile>): void {
+    Object.assign(tile, updates, { modified: new Date() });
+    currentLayout.value.modified = new Date();
+  }
+
+  /**
+   * Stores the current derived arrangement of a breakpoint on every tile
+   * that has no hand-edited position yet, so that later edits do not make
+   * the remaining tiles reflow
+   * @param {ResponsiveBreakpoint} breakpoint - Breakpoint to freeze
+   */
+  function materializeBreakpoint(breakpoint: ResponsiveBreakpoint): void {
+    const positions = arrangeForBreakpoint(
+      currentLayout.value.tiles,
+      breakpoint,
+      getColumnsForBreakpoint(breakpoint)
+    );
+
+    currentLayout.value.tiles.forEach(tile => {
+      const position = positions.get(tile.id);
+      if (!position || tile.breakpointPositions?.[breakpoint]) return;
+
+      tile.breakpointPositions = { ...tile.breakpointPositions, [breakpoint]: { ...position } };
+    });
+  }
+
+  /**
+   * Sets a tile's position for the current breakpoint without logging.
+   * Desktop edits change the tile's own coordinates; edits on smaller
+   * breakpoints are stored separately and stick from then on.
+   * @param {Tile} tile - Stored tile to position
+   * @param {TilePosition} position - New position and size
+   */
+  function setTilePosition(tile: Tile, position: TilePosition): void {
+    const breakpoint = currentBreakpoint.value;
+
+    if (breakpoint === 'desktop') {
+      applyTileUpdates(tile, { ...position });
+      return;
+    }
+
+    materializeBreakpoint(breakpoint);
+    tile.breakpointPositions = { ...tile.breakpointPositions, [breakpoint]: { ...position } };
+    tile.modified = new Date();
+    currentLayout.value.modified = new Date();
+  }
+
+  /**
+   * Floats the tiles of the current breakpoint upward without logging.
+   * Derived arrangements are already compacted as they are derived, so
+   * they are only frozen into stored positions when `includeDerived` is set.
+   * @param {boolean} includeDerived - Whether to store compacted positions for a derived breakpoint
+   * @returns {number} Number of tiles that moved
+   */
+  function compactArrangement(includeDerived: boolean): number {
+    const breakpoint = currentBreakpoint.value;
+    if (breakpoint !== 'desktop' && !includeDerived && !isBreakpointCustomized.value) return 0;
+
+    const positions = arrangeForBreakpoint(
+      currentLayout.value.tiles,
+      breakpoint,
+      getColumnsForBreakpoint(breakpoint)
+    );
+    const compacted = compactVertically(positions, lockedTileIds.value);
+    let movedCount = 0;
+
+    currentLayout.value.tiles.forEach(tile => {
+      const position = positions.get(tile.id);
+      const target = compacted.get(tile.id);
+
+      if (position && target && position.y !== target.y) {
+        setTilePosition(tile, target);
+        movedCount++;
+      }
+    });
+
+    return movedCount;
+  }
+
+  /**
+   * Compacts the current arrangement once, regardless of the compaction mode
+   * @returns {boolean} Whether any tile moved
+   */
+  function compactLayout(): boolean {
+    if (isLayoutLocked.value) return false;
+
+    const movedCount = recordOperation('compact', 'all', () => compactArrangement(true), {
+      breakpoint: currentBreakpoint.value,
+    });
+
+    return movedCount > 0;
+  }
+
+  /**
+   * Sets the compaction mode of the active dashboard as one undoable
+   * operation. Enabling vertical compaction compacts the layout straight away.
+   * @param {CompactionMode} mode - New compaction mode
+   * @returns {boolean} Whether the mode was set (false if the layout is locked)
+   */
+  function setCompactionMode(mode: CompactionMode): boolean {
+    if (isLayoutLocked.value) return false;
+    if (compactionMode.value === mode) return true;
+
+    recordOperation('settings', 'compactionMode', () => {
+      currentLayout.value.compactionMode = mode;
+      currentLayout.value.modified = new Date();
+      if (mode === 'vertical') {
+        compactArrangement(true);
+      }
+    }, { compactionMode: mode });
+
+    return true;
+  }
+
+  /**
+   * Discards the hand-edited positions of a breakpoint so that its
+   * arrangement is derived from desktop again
+   * @param {ResponsiveBreakpoint} breakpoint - Breakpoint to reset
+   * @returns {boolean} Whether any positions were discarded
+   */
+  function resetBreakpointLayout(breakpoint: ResponsiveBreakpoint): boolean {
+    const customizedTiles = currentLayout.value.tiles.filter(
+      tile => tile.breakpointPositions?.[breakpoint]
+    );
+
+    if (customizedTiles.length === 0 || isLayoutLocked.value) return false;
+
+    recordOperation('reset', breakpoint, () => {
+      customizedTiles.forEach(tile => {
+        const remaining = { ...tile.breakpointPositions };
+        delete remaining[breakpoint];
+        tile.breakpointPositions = Object.keys(remaining).length > 0 ? remaining : undefined;
+      });
+      currentLayout.value.modified = new Date();
+    }, { breakpoint });
+
+    return true;
+  }
+
+  /**
+   * Updates a tile's properties
+   * @param {string} tileId - ID of tile to update
+   * @param {Partial<Tile>} updates - Properties to update
+   * @returns {boolean} Whether the tile was successfully updated
+   */
+  function updateTile(tileId: string, updates: Partial<Tile>): boolean {
+    const tile = currentLayout.value.tiles.find(t => t.id === tileId);
+
+    if (!tile || isLayoutLocked.value) return false;
+
+    recordOperation('update', tileId, () => applyTileUpdates(tile, updates), {
+      fields: Object.keys(updates),
+    });
+
+    return true;
+  }
+
+  /**
+   * Updates the content settings of several tiles as a single undoable
+   * operation, e.g. to give them all the same refresh interval. Tiles
+   * without content are skipped.
+   * @param {string[]} tileIds - IDs of tiles to update
+   * @param {Partial<BaseTileContent>} changes - Content settings shared by all content types
+   * @returns {number} Number of tiles updated
+   */
+  function updateTilesContent(tileIds: string[], changes: Partial<Omit<BaseTileContent, 'type'>>): number {
+    if (isLayoutLocked.value) return 0;
+
+    const targets = currentLayout.value.tiles.filter(tile => tile.content && tileIds.includes(tile.id));
+    if (targets.length === 0) return 0;
+
+    recordOperation('update', 'selection', () => {
+      targets.forEach(tile => {
+        applyTileUpdates(tile, { content: { ...tile.content, ...changes } as TileContent });
+      });
+    }, { fields: ['content'], count: targets.length });
+
+    return targets.length;
+  }
+
+  /**
+   * Locks or unlocks a single tile as an undoable update
+   * @param {string} tileId - ID of tile to lock or unlock
+   * @param {boolean} locked - Whether the tile should be locked
+   * @returns {boolean} Whether the tile was found and the layout is editable
+   */
+  function setTileLocked(tileId: string, locked: boolean): boolean {
+    return updateTile(tileId, { locked });
+  }
+
+  /**
+   * Clamps a requested tile size to the tile's constraints and the grid width
+   * @param {Tile} tile - Tile being resized
+   * @param {number} width - Requested width in grid units
+   * @param {number} height - Requested height in grid units
+   * @returns {{ width: number; height: number }} Allowed size
+   */
+  function clampTileSize(tile: Tile, width: number, height: number): { width: number; height: number } {
+    const minWidth = tile.minWidth || DEFAULT_TILE_SIZE.minWidth;
+    const minHeight = tile.minHeight || DEFAULT_TILE_SIZE.minHeight;
+    const maxWidth = tile.maxWidth || gridColumns.value;
+    const maxHeight = tile.maxHeight || 20; // Reasonable default
+
+    return {
+      width: Math.max(minWidth, Math.min(maxWidth, width)),
+      height: Math.max(minHeight, Math.min(maxHeight, height)),
+    };
+  }
+
+  /**
+   * Computes the arrangement that results from placing a tile at a target
+   * position, following the layout's collision and compaction modes.
+   * Locked tiles never move, and locked tiles cannot be placed.
+   * @param {string} tileId - ID of the tile being placed
+   * @param {TilePosition} target - Target position and size
+   * @param {'move' | 'resize'} intent - Whether the tile is being moved or resized
+   * @returns {Map<string, TilePosition> | null} Resulting positions, or null if the placement is not allowed
+   */
+  function planPlacement(
+    tileId: string,
+    target: TilePosition,
+    intent: 'move' | 'resize' = 'move'
+  ): Map<string, TilePosition> | null {
+    if (!arrangement.value.has(tileId) || isTileLocked(tileId)) return null;
+
+    // Check bounds
+    if (target.x < 0 || target.y < 0 || target.x + target.width > gridColumns.value) {
+      return null;
+    }
+
+    let positions: Map<string, TilePosition> | null;
+
+    if (collisionMode.value === 'push') {
+      positions = resolveCollisions(arrangement.value, tileId, target, lockedTileIds.value);
+    } else if (collisionMode.value === 'swap' && intent === 'move') {
+      positions = planSwap(arrangement.value, tileId, target, gridColumns.value, lockedTileIds.value);
+    } else {
+      // Check conflicts
+      if (hasPositionConflicts(target.x, target.y, target.width, target.height, tileId)) {
+        return null;
+      }
+
+      positions = new Map(arrangement.value).set(tileId, { ...target });
+    }
+
+    if (!positions) return null;
+
+    return compactionMode.value === 'vertical'
+      ? compactVertically(positions, lockedTileIds.value)
+      : positions;
+  }
+
+  /**
+   * Computes the arrangement that results from moving several tiles by the
+   * same offset. In push mode the tiles in the way are pushed down; otherwise
+   * the move must not overlap any other tile, since groups never swap.
+   * @param {string[]} tileIds - IDs of the tiles being moved
+   * @param {number} dx - Horizontal offset in grid units
+   * @param {number} dy - Vertical offset in grid units
+   * @returns {Map<string, TilePosition> | null} Resulting positions, or null if the move is not allowed
+   */
+  function planGroupPlacement(tileIds: string[], dx: number, dy: number): Map<string, TilePosition> | null {
+    const targets = new Map<string, TilePosition>();
+
+    for (const tileId of tileIds) {
+      const position = arrangement.value.get(tileId);
+      if (!position || isTileLocked(tileId)) return null;
+
+      const target = { ...position, x: position.x + dx, y: position.y + dy };
+      if (target.x < 0 || target.y < 0 || target.x + target.width > gridColumns.value) {
+        return null;
+      }
+
+      targets.set(tileId, target);
+    }
+
+    let positions: Map<string, TilePosition> | null;
+
+    if (collisionMode.value === 'push') {
+      positions = resolveGroupCollisions(arrangement.value, targets, lockedTileIds.value);
+    } else {
+      const blocked = [...arrangement.value].some(([tileId, position]) =>
+        !targets.has(tileId) && [...targets.values()].some(target => positionsOverlap(target, position))
+      );
+      positions = blocked ? null : new Map([...arrangement.value, ...targets]);
+    }
+
+    if (!positions) return null;
+
+    return compactionMode.value === 'vertical'
+      ? compactVertically(positions, lockedTileIds.value)
+      : positions;
+  }
+
+  /**
+   * Moves every tile whose planned position differs from the current
+   * arrangement, without logging
+   * @param {Map<string, TilePosition>} positions - Planned positions keyed by tile ID
+   */
+  function applyArrangement(positions: Map<string, TilePosition>): void {
+    const current = arrangement.value;
+
+    currentLayout.value.tiles.forEach(tile => {
+      const from = current.get(tile.id);
+      const to = positions.get(tile.id);
+
+      if (from && to && (
+        from.x !== to.x || from.y !== to.y || from.width !== to.width || from.height !== to.height
+      )) {
+        setTilePosition(tile, to);
+      }
+    });
+  }
+
+  /**
+   * Moves a tile to a new position. Depending on the collision mode, tiles in
+   * the way block the move, are pushed down, or trade places with the tile.
+   * Locked tiles refuse to move and are never displaced.
+   * @param {string} tileId - ID of tile to move
+   * @param {number} x - New X position
+   * @param {number} y - New Y position
+   * @returns {boolean} Whether the move was successful
+   */
+  function moveTile(tileId: string, x: number, y: number): boolean {
+    const position = arrangement.value.get(tileId);
+
+    if (!position) return false;
+
+    const plan = planPlacement(tileId, { ...position, x, y });
+    if (!plan) return false;
+
+    // Dropping a tile where it already is is not an operation worth undoing
+    if (position.x === x && position.y === y) {
+      return true;
+    }
+
+    const isSwap = collisionMode.value === 'swap' &&
+      hasPositionConflicts(x, y, position.width, position.height, tileId);
+
+    recordOperation(isSwap ? 'swap' : 'move', tileId, () => applyArrangement(plan), {
+      breakpoint: currentBreakpoint.value,
+    });
+
+    return true;
+  }
+
+  /**
+   * Moves several tiles by the same offset, keeping their relative positions
+   * @param {string[]} tileIds - IDs of tiles to move
+   * @param {number} dx - Horizontal offset in grid units
+   * @param {number} dy - Vertical offset in grid units
+   * @returns {boolean} Whether the move was successful
+   */
+  function moveTiles(tileIds: string[], dx: number, dy: number): boolean {
+    const plan = planGroupPlacement(tileIds, dx, dy);
+    if (!plan) return false;
+
+    if (dx === 0 && dy === 0) {
+      return true;
+    }
+
+    recordOperation('move', 'selection', () => applyArrangement(plan), {
+      breakpoint: currentBreakpoint.value,
+      count: tileIds.length,
+    });
+
+    return true;
+  }
+
+  /**
+   * Resizes a tile. Depending on the collision mode, tiles in the way either
+   * block the resize or are pushed down. Locked tiles refuse to resize.
+   * @param {string} tileId - ID of tile to resize
+   * @param {number} width - New width in grid units
+   * @param {number} height - New height in grid units
+   * @returns {boolean} Whether the resize was successful
+   */
+  function resizeTile(tileId: string, width: number, height: number): boolean {
+    const tile = currentLayout.value.tiles.find(t => t.id === tileId);
+    const position = arrangement.value.get(tileId);
+
+    if (!tile || !position) return false;
+
+    // Enforce minimum/maximum constraints
+    const size = clampTileSize(tile, width, height);
+
+    const plan = planPlacement(tileId, { ...position, ...size }, 'resize');
+    if (!plan) return false;
+
+    if (position.width === size.width && position.height === size.height) {
+      return true;
+    }
+
+    recordOperation('resize', tileId, () => applyArrangement(plan), {
+      breakpoint: currentBreakpoint.value,
+    });
+
+    return true;
+  }
+
+  /**
+   * Sets how the active dashboard resolves collisions when moving or
+   * resizing, as one undoable operation
+   * @param {CollisionMode} mode - New collision mode
+   * @returns {boolean} Whether the mode was set (false if the layout is locked)
+   */
+  function setCollisionMode(mode: CollisionMode): boolean {
+    if (isLayoutLocked.value) return false;
+    if (collisionMode.value === mode) return true;
+
+    recordOperation('settings', 'collisionMode', () => {
+      currentLayout.value.collisionMode = mode;
+      currentLayout.value.modified = new Date();
+    }, { collisionMode: mode });
+
+    return true;
+  }
+
+  /**
+   * Puts the active dashboard into or out of view-only mode. While locked,
+   * no tile can be created, changed or removed, and undo/redo are disabled.
+   * @param {boolean} locked - Whether the layout should be locked
+   */
+  function setLayoutLocked(locked: boolean): void {
+    if (isLayoutLocked.value === locked) return;
+
+    resetInteractionState();
+    currentLayout.value.locked = locked;
+    currentLayout.value.modified = new Date();
+    broadcastSettings(currentLayout.value);
+  }
+
+  // Selection
+
+  /**
+   * Selects tiles, replacing the selection unless `additive` is set
+   * @param {string[]} tileIds - IDs of tiles to select
+   * @param {boolean} additive - Whether to add to the existing selection
+   */
+  function selectTiles(tileIds: string[], additive: boolean = false): void {
+    selection.value = additive
+      ? [...new Set([...selectedTileIds.value, ...tileIds])]
+      : [...new Set(tileIds)];
+  }
+
+  /**
+   * Adds a tile to the selection or removes it if already selected
+   * @param {string} tileId - ID of tile to toggle
+   */
+  function toggleTileSelection(tileId: string): void {
+    selection.value = selectedTileIds.value.includes(tileId)
+      ? selectedTileIds.value.filter(id => id !== tileId)
+      : [...selectedTileIds.value, tileId];
+  }
+
+  /**
+   * Selects every tile that overlaps an area of the current arrangement
+   * @param {TilePosition} area - Area in grid units
+   * @param {boolean} additive - Whether to add to the existing selection
+   */
+  function selectTilesInArea(area: TilePosition, additive: boolean = false): void {
+    const tileIds = [...arrangement.value]
+      .filter(([, position]) => positionsOverlap(area, position))
+      .map(([tileId]) => tileId);
+
+    selectTiles(tileIds, additive);
+  }
+
+  /**
+   * Selects all tiles of the active layout
+   */
+  function selectAllTiles(): void {
+    selection.value = currentLayout.value.tiles.map(tile => tile.id);
+  }
+
+  /**
+   * Clears the selection
+   */
+  function clearSelection(): void {
+    selection.value = [];
+  }
+
+  /**
+   * Gets the tiles that move together when a tile is dragged: the whole
+   * selection if the tile is part of it, otherwise just the tile
+   * @param {string} tileId - ID of the dragged tile
+   * @returns {string[]} IDs of the tiles to move
+   */
+  function getDragGroup(tileId: string): string[] {
+    return selectedTileIds.value.includes(tileId) ? selectedTileIds.value : [tileId];
+  }
+
+  // Drag and drop operations
+
+  /**
+   * Starts a drag operation
+   * @param {string} tileId - ID of tile being dragged
+   */
+  function startDrag(tileId: string): void {
+    const tile = tiles.value.find(t => t.id === tileId);
+    if (!tile || isTileLocked(tileId)) return;
+
+    dragState.value = {
+      isDragging: true,
+      draggedTileId: tileId,
       originalPosition: { x: tile.x, y: tile.y },
       currentPosition: { x: tile.x, y: tile.y },
     };
   }
 
   /**
-   * Updates drag position
-   * @param {number} x - Current X position
-   * @param {number} y - Current Y position
+   * Updates drag position
+   * @param {number} x - Current X position
+   * @param {number} y - Current Y position
+   */
+  function updateDrag(x: number, y: number): void {
+    if (!dragState.value.isDragging) return;
+
+    dragState.value.currentPosition = { x, y };
+  }
+
+  /**
+   * Ends a drag operation
+   * @param {boolean} commit - Whether to commit the move
+   */
+  function endDrag(commit: boolean = true): void {
+    if (!dragState.value.isDragging || !dragState.value.draggedTileId) return;
+
+    if (commit && dragState.value.currentPosition) {
+      const { draggedTileId, currentPosition } = dragState.value;
+      const group = getDragGroup(draggedTileId);
+      const position = arrangement.value.get(draggedTileId);
+
+      if (group.length > 1 && position) {
+        moveTiles(group, currentPosition.x - position.x, currentPosition.y - position.y);
+      } else {
+        moveTile(draggedTileId, currentPosition.x, currentPosition.y);
+      }
+    }
+
+    dragState.value = {
+      isDragging: false,
+      draggedTileId: null,
+      originalPosition: null,
+      currentPosition: null,
+    };
+  }
+
+  // Resize operations
+
+  /**
+   * Starts a resize operation
+   * @param {string} tileId - ID of tile being resized
+   * @param {string} handle - Resize handle being used
+   */
+  function startResize(tileId: string, handle: 'se' | 'e' | 's'): void {
+    const tile = tiles.value.find(t => t.id === tileId);
+    if (!tile || isTileLocked(tileId)) return;
+
+    resizeState.value = {
+      isResizing: true,
+      resizedTileId: tileId,
+      originalSize: { width: tile.width, height: tile.height },
+      currentSize: { width: tile.width, height: tile.height },
+      resizeHandle: handle,
+    };
+  }
+
+  /**
+   * Updates resize dimensions
+   * @param {number} width - Current width
+   * @param {number} height - Current height
+   */
+  function updateResize(width: number, height: number): void {
+    if (!resizeState.value.isResizing) return;
+
+    resizeState.value.currentSize = { width, height };
+  }
+
+  /**
+   * Ends a resize operation
+   * @param {boolean} commit - Whether to commit the resize
+   */
+  function endResize(commit: boolean = true): void {
+    if (!resizeState.value.isResizing || !resizeState.value.resizedTileId) return;
+
+    if (commit && resizeState.value.currentSize) {
+      resizeTile(
+        resizeState.value.resizedTileId,
+        resizeState.value.currentSize.width,
+        resizeState.value.currentSize.height
+      );
+    }
+
+    resizeState.value = {
+      isResizing: false,
+      resizedTileId: null,
+      originalSize: null,
+      currentSize: null,
+      resizeHandle: null,
+    };
+  }
+
+  // Layout persistence
+
+  /**
+   * Schedules a debounced storage write. Writes are dropped until the stored
+   * data has been loaded, so that the initial empty layout never overwrites it.
+   * @param {string} key - Storage key to write
+   * @param {() => string | null} serialize - Produces the value when written, or null to remove the key
+   */
+  function persist(key: string, serialize: () => string | null): void {
+    if (!isStorageReady.value) return;
+    storageWriter.schedule(key, serialize);
+  }
+
+  /**
+   * Reads a value from storage after writing pending changes, so that reads
+   * never return data older than the store's own state
+   * @param {string} key - Storage key to read
+   * @returns {Promise<string | null>} Stored value or null if missing
+   */
+  async function readStorage(key: string): Promise<string | null> {
+    await storageWriter.flush();
+    return storage.getItem(key);
+  }
+
+  /**
+   * Writes all pending changes to storage immediately
+   * @returns {Promise<void>} Resolves when the writes have finished
+   */
+  function flushStorage(): Promise<void> {
+    return storageWriter.flush();
+  }
+
+  /**
+   * Waits until the stored dashboards have been loaded
+   * @returns {Promise<void>} Resolves when loading has finished
+   */
+  function whenStorageReady(): Promise<void> {
+    return storageLoad;
+  }
+
+  /**
+   * Schedules a dashboard layout to be saved under its own key
+   * @param {DashboardLayout} layout - Layout to save (defaults to the active layout)
+   */
+  function saveLayout(layout: DashboardLayout = currentLayout.value): void {
+    persist(`${LAYOUT_KEY_PREFIX}${layout.id}`, () => JSON.stringify(toStoredLayout(layout)));
+    if (isStorageReady.value) {
+      layoutSync.enqueue({ kind: 'save', layoutId: layout.id });
+    }
+  }
+
+  /**
+   * Schedules the list of dashboards and the active dashboard ID to be saved
+   */
+  function saveLayoutIndex(): void {
+    persist(LAYOUT_INDEX_KEY, () => JSON.stringify(layouts.value.map(l => l.id)));
+    persist(ACTIVE_LAYOUT_KEY, () => activeLayoutId.value);
+  }
+
+  /**
+   * Reads a single stored layout, migrating it to the current schema
+   *
+   * Layouts written by a newer version of the app are skipped but left in storage.
+   *
+   * @param {string} key - Storage key of the layout
+   * @returns {Promise<DashboardLayout | null>} Parsed layout or null if missing, corrupted or too new
+   */
+  async function readStoredLayout(key: string): Promise<DashboardLayout | null> {
+    try {
+      const savedLayout = await storage.getItem(key);
+      if (!savedLayout) return null;
+
+      const layoutData = JSON.parse(savedLayout);
+      if (!layoutData || !Array.isArray(layoutData.tiles)) {
+        console.warn(`Ignoring malformed layout stored under "${key}"`);
+        return null;
+      }
+
+      const layout = deserializeLayout(migrateLayout(layoutData) as SerializedLayout);
+
+      // Write upgraded layouts back so that the migration runs only once
+      if (getLayoutSchemaVersion(layoutData) < LAYOUT_SCHEMA_VERSION && key.startsWith(LAYOUT_KEY_PREFIX)) {
+        storageWriter.schedule(key, () => JSON.stringify(toStoredLayout(layout)));
+      }
+
+      return layout;
+    } catch (error) {
+      console.error(`Failed to read layout "${key}" from ${storage.name}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Moves a layout saved under the legacy single-dashboard key into the
+   * per-dashboard storage scheme
+   * @returns {Promise<DashboardLayout[]>} Migrated layouts (empty if nothing to migrate)
+   */
+  async function migrateLegacyLayout(): Promise<DashboardLayout[]> {
+    const legacyLayout = await readStoredLayout(LEGACY_LAYOUT_KEY);
+    if (!legacyLayout) return [];
+
+    const layout = { ...legacyLayout, id: legacyLayout.id || 'default' };
+    storageWriter.schedule(`${LAYOUT_KEY_PREFIX}${layout.id}`, () => JSON.stringify(toStoredLayout(layout)));
+    storageWriter.schedule(LEGACY_LAYOUT_KEY, () => null);
+    console.debug(`Migrated legacy dashboard layout "${layout.name}"`);
+
+    return [layout];
+  }
+
+  /**
+   * Loads all dashboards from storage and restores the last active one
+   *
+   * On first use of IndexedDB, data saved to localStorage by earlier
+   * versions of the app is moved over first.
+   * @returns {Promise<void>} Resolves when the dashboards have been loaded
+   */
+  function loadLayouts(): Promise<void> {
+    isStorageReady.value = false;
+    storageLoad = loadStoredLayouts();
+    return storageLoad;
+  }
+
+  /**
+   * Performs the loading started by `loadLayouts`
+   * @returns {Promise<void>} Resolves when the dashboards have been loaded
+   */
+  async function loadStoredLayouts(): Promise<void> {
+    let savedSyncState: LayoutSyncState | null = null;
+
+    try {
+      await storageWriter.flush();
+      await migrateFromLocalStorage(storage, STORAGE_KEY_PREFIX);
+
+      const savedIndex = await storage.getItem(LAYOUT_INDEX_KEY);
+      let loadedLayouts: DashboardLayout[];
+
+      if (savedIndex) {
+        const layoutIds = JSON.parse(savedIndex) as string[];
+        loadedLayouts = (await Promise.all(layoutIds.map(id => readStoredLayout(`${LAYOUT_KEY_PREFIX}${id}`))))
+          .filter((layout): layout is DashboardLayout => layout !== null);
+      } else {
+        loadedLayouts = await migrateLegacyLayout();
+      }
+
+      if (loadedLayouts.length === 0) {
+        loadedLayouts = [createEmptyLayout('default', 'Default Dashboard')];
+      }
+
+      const savedActiveId = await storage.getItem(ACTIVE_LAYOUT_KEY);
+      resetInteractionState();
+      layouts.value = loadedLayouts;
+      activeLayoutId.value = loadedLayouts.some(l => l.id === savedActiveId)
+        ? (savedActiveId as string)
+        : loadedLayouts[0].id;
+
+      await Promise.all([
+        loadHistory(activeLayoutId.value),
+        loadSnapshots(activeLayoutId.value),
+        loadTemplates(),
+        loadTilePresets(),
+      ]);
+      savedSyncState = await readServerSyncState();
+    } catch (error) {
+      console.error(`Failed to load layouts from ${storage.name}:`, error);
+    } finally {
+      isStorageReady.value = true;
+      saveLayoutIndex();
+
+      // Apply changes that other tabs made while loading
+      pendingRemoteChanges.splice(0).forEach(handleRemoteChange);
+      void layoutSync.start(savedSyncState);
+    }
+  }
+
+  /**
+   * Switches to another storage backend and reloads the dashboards from it
+   *
+   * Pending changes are written to the previous backend first. Data is not
+   * copied between backends.
+   * @param {StorageAdapter} adapter - Backend to use from now on
+   * @returns {Promise<void>} Resolves when the dashboards have been loaded
+   */
+  async function setStorageAdapter(adapter: StorageAdapter): Promise<void> {
+    await storageWriter.setAdapter(adapter);
+    storage = adapter;
+    storageName.value = adapter.name;
+    storageError.value = null;
+    await loadLayouts();
+  }
+
+  // Dashboard management
+
+  /**
+   * Resets transient drag, resize and selection state, e.g. when switching dashboards
+   */
+  function resetInteractionState(): void {
+    endDrag(false);
+    endResize(false);
+    clearSelection();
+  }
+
+  /**
+   * Creates a new empty dashboard and makes it active
+   * @param {string} name - Name of the new dashboard
+   * @returns {DashboardLayout} The created dashboard
+   */
+  function createDashboard(name: string): DashboardLayout {
+    const layout = createEmptyLayout(generateLayoutId(), name.trim() || 'Untitled Dashboard');
+
+    layouts.value.push(layout);
+    resetInteractionState();
+    activeLayoutId.value = layout.id;
+
+    saveLayout(layout);
+    saveLayoutIndex();
+    tabSync.post({ kind: 'dashboard-added', layout: serializeLayout(layout), index: layouts.value.length - 1 });
+
+    return layout;
+  }
+
+  /**
+   * Renames a dashboard
+   * @param {string} layoutId - ID of the dashboard to rename
+   * @param {string} name - New name
+   * @returns {boolean} Whether the dashboard was renamed
+   */
+  function renameDashboard(layoutId: string, name: string): boolean {
+    const layout = layouts.value.find(l => l.id === layoutId);
+    const trimmedName = name.trim();
+
+    if (!layout || !trimmedName) return false;
+
+    layout.name = trimmedName;
+    layout.modified = new Date();
+    saveLayout(layout);
+    broadcastSettings(layout);
+
+    return true;
+  }
+
+  /**
+   * Duplicates a dashboard, including all of its tiles, and makes the copy active
+   * @param {string} layoutId - ID of the dashboard to duplicate
+   * @param {string} name - Optional name for the copy
+   * @returns {DashboardLayout | null} The copy, or null if the source was not found
+   */
+  function duplicateDashboard(layoutId: string, name?: string): DashboardLayout | null {
+    const source = layouts.value.find(l => l.id === layoutId);
+    if (!source) return null;
+
+    const now = new Date();
+    const copy: DashboardLayout = {
+      ...cloneLayout(source),
+      id: generateLayoutId(),
+      name: name?.trim() || `${source.name} (copy)`,
+      created: now,
+      modified: now,
+    };
+
+    const sourceIndex = layouts.value.indexOf(source);
+    layouts.value.splice(sourceIndex + 1, 0, copy);
+    resetInteractionState();
+    activeLayoutId.value = copy.id;
+
+    saveLayout(copy);
+    saveLayoutIndex();
+    tabSync.post({ kind: 'dashboard-added', layout: serializeLayout(copy), index: sourceIndex + 1 });
+
+    return copy;
+  }
+
+  /**
+   * Deletes a dashboard. The last remaining dashboard cannot be deleted.
+   * @param {string} layoutId - ID of the dashboard to delete
+   * @returns {boolean} Whether the dashboard was deleted
+   */
+  function deleteDashboard(layoutId: string): boolean {
+    if (!removeDashboard(layoutId)) return false;
+
+    layoutSync.enqueue({ kind: 'delete', layoutId });
+    return true;
+  }
+
+  /**
+   * Removes a dashboard with its history and snapshots, without deleting
+   * it on the layout server
+   * @param {string} layoutId - ID of the dashboard to remove
+   * @returns {boolean} Whether the dashboard was removed
+   */
+  function removeDashboard(layoutId: string): boolean {
+    const index = layouts.value.findIndex(l => l.id === layoutId);
+
+    if (index === -1 || layouts.value.length <= 1) return false;
+
+    layouts.value.splice(index, 1);
+
+    if (activeLayoutId.value === layoutId) {
+      resetInteractionState();
+      activeLayoutId.value = layouts.value[Math.max(0, index - 1)].id;
+    }
+
+    persist(`${LAYOUT_KEY_PREFIX}${layoutId}`, () => null);
+    persist(`${HISTORY_KEY_PREFIX}${layoutId}`, () => null);
+    persist(`${SNAPSHOT_KEY_PREFIX}${layoutId}`, () => null);
+    saveLayoutIndex();
+    tabSync.post({ kind: 'dashboard-removed', layoutId });
+    if (collabSession?.layoutId === layoutId) {
+      stopCollaboration();
+    }
+
+    return true;
+  }
+
+  /**
+   * Switches the active dashboard
+   * @param {string} layoutId - ID of the dashboard to activate
+   * @returns {boolean} Whether the switch happened
+   */
+  function switchDashboard(layoutId: string): boolean {
+    if (!layouts.value.some(l => l.id === layoutId)) return false;
+    if (layoutId === activeLayoutId.value) return true;
+
+    resetInteractionState();
+    activeLayoutId.value = layoutId;
+    saveLayoutIndex();
+
+    return true;
+  }
+
+  /**
+   * Loads layout data from an imported layout object
+   * @param {DashboardLayout} layoutData - Layout data to load
+   */
+  function loadLayoutData(layoutData: DashboardLayout): void {
+    if (isLayoutLocked.value) {
+      throw new Error('Dashboard layout is locked');
+    }
+
+    try {
+      recordOperation('import', 'layout', () => {
+        currentLayout.value = {
+          ...layoutData,
+          id: currentLayout.value.id, // Replace the active dashboard in place
+          modified: new Date(), // Update modified time to current time
+        };
+      }, { action: 'import_layout', layoutName: layoutData.name });
+    } catch (error) {
+      console.error('Failed to load layout data:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Updates the current breakpoint based on window width
+   * @param {number} width - Current window width
+   */
+  function updateBreakpoint(width: number): void {
+    if (width >= BREAKPOINTS.tablet) {
+      currentBreakpoint.value = 'desktop';
+    } else if (width >= BREAKPOINTS.mobile) {
+      currentBreakpoint.value = 'tablet';
+    } else if (width >= BREAKPOINTS.smallMobile) {
+      currentBreakpoint.value = 'mobile';
+    } else {
+      currentBreakpoint.value = 'smallMobile';
+    }
+  }
+
+  /**
+   * Clears all unlocked tiles from the dashboard
+   * @returns {number} Number of tiles removed
+   */
+  function clearDashboard(): number {
+    if (isLayoutLocked.value) return 0;
+
+    const remainingTiles = currentLayout.value.tiles.filter(tile => tile.locked);
+    const removedCount = currentLayout.value.tiles.length - remainingTiles.length;
+
+    recordOperation('clear', 'all', () => {
+      currentLayout.value.tiles = remainingTiles;
+      currentLayout.value.modified = new Date();
+    }, { action: 'clear_dashboard' });
+
+    return removedCount;
+  }
+
+  /**
+   * Upgrades imported layout data to the current schema and validates it
+   *
+   * Files from older schema versions are migrated first; files from newer
+   * versions and files that fail validation are rejected. Use
+   * `validateLayout` to report problems and repair the data beforehand.
+   *
+   * @param {unknown} importedData - Layout data as parsed from the file
+   * @returns {MigratedLayoutData} Valid layout data at the current schema version
+   * @throws {Error} If the data cannot be migrated or has validation problems
+   */
+  function readImportedLayout(importedData: unknown): MigratedLayoutData {
+    const layoutData = migrateLayout(importedData);
+    const { issues } = validateLayout(layoutData);
+
+    if (issues.length > 0) {
+      const [firstIssue] = issues;
+      throw new Error(
+        `Invalid layout data: ${issues.length} problem(s), first at ${firstIssue.path || 'layout'}: ${firstIssue.message}`
+      );
+    }
+
+    return layoutData;
+  }
+
+  /**
+   * Builds a dashboard from validated imported layout data
+   * @param {MigratedLayoutData} layoutData - Layout data at the current schema version
+   * @param {string} layoutId - ID of the dashboard to build
+   * @returns {DashboardLayout} Dashboard with the imported tiles and settings
+   */
+  function buildImportedLayout(layoutData: MigratedLayoutData, layoutId: string): DashboardLayout {
+    const now = new Date();
+
+    return {
+      id: layoutId,
+      name: layoutData.name || 'Imported Dashboard',
+      tiles: layoutData.tiles.map(tile => ({
+        ...tile,
+        id: tile.id || generateTileId(),
+        created: tile.created ? new Date(tile.created) : now,
+        modified: tile.modified ? new Date(tile.modified) : now,
+      })),
+      gridColumns: layoutData.gridColumns || DEFAULT_GRID_CONFIG.desktop,
+      compactionMode: layoutData.compactionMode ?? 'none',
+      collisionMode: layoutData.collisionMode ?? 'reject',
+      created: layoutData.created ? new Date(layoutData.created) : now,
+      modified: now,
+    };
+  }
+
+  /**
+   * Applies the grid configuration of imported layout data, if it has one
+   * @param {MigratedLayoutData} layoutData - Imported layout data
+   */
+  function applyImportedGridConfig(layoutData: MigratedLayoutData): void {
+    if (layoutData.gridConfig) {
+      gridConfig.value = { ...gridConfig.value, ...(layoutData.gridConfig as Partial<GridConfig>) };
+    }
+  }
+
+  /**
+   * Imports a layout from external data, replacing the active dashboard
+   * @param {unknown} importedData - Layout data to import, as parsed from the file
+   */
+  function importLayout(importedData: unknown): void {
+    try {
+      // Validate and upgrade imported data to the current schema
+      const layoutData = readImportedLayout(importedData);
+      if (isLayoutLocked.value) {
+        throw new Error('Dashboard layout is locked');
+      }
+
+      // Replace the contents of the active dashboard, keeping its ID so that
+      // other stored dashboards are never overwritten
+      recordOperation('import', 'layout', () => {
+        currentLayout.value = buildImportedLayout(layoutData, currentLayout.value.id);
+        applyImportedGridConfig(layoutData);
+      }, { tilesImported: layoutData.tiles.length });
+
+      saveLayout();
+    } catch (error) {
+      console.error('Failed to import layout:', error);
+      throw new Error('Failed to import layout: ' + (error as Error).message);
+    }
+  }
+
+  /**
+   * Imports a layout from external data as a new dashboard and makes it active
+   * @param {unknown} importedData - Layout data to import
+   * @param {string} [name] - Name of the new dashboard (defaults to the imported name)
+   * @returns {DashboardLayout} The created dashboard
+   * @throws {Error} If the data is invalid
+   */
+  function importLayoutAsDashboard(importedData: unknown, name?: string): DashboardLayout {
+    try {
+      const layoutData = readImportedLayout(importedData);
+      const layout = buildImportedLayout(layoutData, generateLayoutId());
+      if (name?.trim()) layout.name = name.trim();
+
+      layouts.value.push(layout);
+      resetInteractionState();
+      activeLayoutId.value = layout.id;
+      applyImportedGridConfig(layoutData);
+
+      saveLayout(layout);
+      saveLayoutIndex();
+      tabSync.post({ kind: 'dashboard-added', layout: serializeLayout(layout), index: layouts.value.length - 1 });
+
+      return layout;
+    } catch (error) {
+      console.error('Failed to import layout as a new dashboard:', error);
+      throw new Error('Failed to import layout: ' + (error as Error).message);
+    }
+  }
+
+  /**
+   * Merges tiles of an imported layout into the active dashboard as a single
+   * undoable operation. Imported IDs that already exist are replaced with new
+   * ones. The tiles keep their arrangement relative to each other and are
+   * placed in the first free space that fits them all, which is below the
+   * existing tiles if nothing else fits; tiles too wide for the grid as a
+   * group are placed one by one instead.
+   * @param {unknown} importedData - Layout data to merge, as parsed from the file
+   * @param {string[]} [tileIds] - IDs of the imported tiles to merge (defaults to all)
+   * @returns {Tile[]} The merged tiles
+   * @throws {Error} If the data is invalid or the layout is locked
+   */
+  function mergeLayout(importedData: unknown, tileIds?: string[]): Tile[] {
+    try {
+      const layoutData = readImportedLayout(importedData);
+      if (isLayoutLocked.value) {
+        throw new Error('Dashboard layout is locked');
+      }
+
+      const sources = sortByReadingOrder(
+        layoutData.tiles
+          .filter(tile => !tileIds || tileIds.includes(tile.id))
+          .map(tile => deserializeTile(JSON.parse(JSON.stringify(tile)) as SerializedTile))
+      );
+      if (sources.length === 0) return [];
+
+      const columns = getColumnsForBreakpoint('desktop');
+      const left = Math.min(...sources.map(tile => tile.x));
+      const top = Math.min(...sources.map(tile => tile.y));
+      const groupWidth = Math.max(...sources.map(tile => tile.x + tile.width)) - left;
+      const groupHeight = Math.max(...sources.map(tile => tile.y + tile.height)) - top;
+      const spot = groupWidth <= columns
+        ? findFirstFit(currentLayout.value.tiles.map(getDesktopPosition), groupWidth, groupHeight, columns)
+        : null;
+
+      const existingIds = new Set(currentLayout.value.tiles.map(tile => tile.id));
+      const merged: Tile[] = [];
+      const now = new Date();
+
+      recordOperation('import', 'merge', () => {
+        sources.forEach(source => {
+          const width = Math.min(source.width, columns);
+          const position = spot
+            ? { x: spot.x + source.x - left, y: spot.y + source.y - top }
+            : findNextAvailablePosition(width, source.height, 'desktop');
+          const tile: Tile = {
+            ...source,
+            id: existingIds.has(source.id) ? generateTileId() : source.id,
+            x: position.x,
+            y: position.y,
+            width,
+            breakpointPositions: undefined,
+            modified: now,
+          };
+
+          currentLayout.value.tiles.push(tile);
+          existingIds.add(tile.id);
+          merged.push(tile);
+        });
+        currentLayout.value.modified = now;
+      }, { tilesMerged: sources.length });
+
+      return merged;
+    } catch (error) {
+      console.error('Failed to merge layout:', error);
+      throw new Error('Failed to merge layout: ' + (error as Error).message);
+    }
+  }
+
+  // Dashboard templates
+
+  /**
+   * Built-in templates followed by the templates saved by the user
+   */
+  const templates = computed<DashboardTemplate[]>(() => [...BUILT_IN_TEMPLATES, ...userTemplates.value]);
+
+  /**
+   * Loads the templates saved by the user; unreadable entries are skipped
+   * @returns {Promise<void>} Resolves when the templates have been loaded
+   */
+  async function loadTemplates(): Promise<void> {
+    userTemplates.value = [];
+
+    try {
+      const savedTemplates = await storage.getItem(TEMPLATES_KEY);
+      if (!savedTemplates) return;
+
+      const templateData = JSON.parse(savedTemplates) as unknown[];
+      userTemplates.value = templateData.filter(isDashboardTemplate);
+    } catch (error) {
+      console.error(`Failed to load templates from ${storage.name}:`, error);
+    }
+  }
+
+  /**
+   * Schedules the user templates to be saved and announces them to other tabs
+   */
+  function saveTemplates(): void {
+    persist(TEMPLATES_KEY, () => (userTemplates.value.length > 0 ? JSON.stringify(userTemplates.value) : null));
+    tabSync.post({ kind: 'templates', templates: userTemplates.value });
+  }
+
+  /**
+   * Creates a new dashboard from a template and makes it active
+   * @param {string} templateId - ID of the template
+   * @param {Record<string, string>} values - Input per template parameter; empty inputs use the defaults
+   * @param {string} [name] - Name of the new dashboard (defaults to the template name)
+   * @returns {DashboardLayout} The created dashboard
+   * @throws {Error} If the template does not exist or produces no tiles
+   */
+  function createDashboardFromTemplate(
+    templateId: string,
+    values: Record<string, string>,
+    name?: string
+  ): DashboardLayout {
+    const template = templates.value.find(t => t.id === templateId);
+    if (!template) {
+      throw new Error(`Template "${templateId}" does not exist`);
+    }
+
+    const layout = importLayoutAsDashboard(instantiateTemplate(template, values), name);
+    console.debug(`Created dashboard "${layout.name}" from template "${template.name}"`);
+
+    return layout;
+  }
+
+  /**
+   * Saves a dashboard as a user template. Stock symbols and news queries
+   * become template parameters.
+   * @param {string} name - Name of the template
+   * @param {string} [description] - Description shown in the gallery
+   * @param {string} [layoutId] - ID of the dashboard to save (defaults to the active dashboard)
+   * @returns {DashboardTemplate} The saved template
+   * @throws {Error} If the dashboard does not exist or has no tiles
+   */
+  function saveDashboardAsTemplate(
+    name: string,
+    description?: string,
+    layoutId: string = activeLayoutId.value
+  ): DashboardTemplate {
+    const layout = layouts.value.find(l => l.id === layoutId);
+    if (!layout) {
+      throw new Error(`Dashboard "${layoutId}" does not exist`);
+    }
+    if (layout.tiles.length === 0) {
+      throw new Error('Cannot save an empty dashboard as a template');
+    }
+
+    const template = createTemplateFromLayout(
+      layout,
+      generateTemplateId(),
+      name.trim() || layout.name,
+      description?.trim()
+    );
+
+    userTemplates.value = [...userTemplates.value, template];
+    saveTemplates();
+
+    return template;
+  }
+
+  /**
+   * Deletes a user template. Built-in templates cannot be deleted.
+   * @param {string} templateId - ID of the template to delete
+   * @returns {boolean} Whether the template was deleted
+   */
+  function deleteTemplate(templateId: string): boolean {
+    if (!userTemplates.value.some(t => t.id === templateId)) return false;
+
+    userTemplates.value = userTemplates.value.filter(t => t.id !== templateId);
+    saveTemplates();
+
+    return true;
+  }
+
+  // Tile presets
+
+  /**
+   * Checks whether a stored value is a usable preset with an ID
+   * @param {unknown} value - Value read from storage or received from another tab
+   * @returns {boolean} True if the value can be used as a preset
+   */
+  function isStoredTilePreset(value: unknown): value is TilePreset {
+    return isTilePreset(value) && typeof (value as Partial<TilePreset>).id === 'string';
+  }
+
+  /**
+   * Loads the tile presets; unreadable entries are skipped
+   * @returns {Promise<void>} Resolves when the presets have been loaded
+   */
+  async function loadTilePresets(): Promise<void> {
+    tilePresets.value = [];
+
+    try {
+      const savedPresets = await storage.getItem(TILE_PRESETS_KEY);
+      if (!savedPresets) return;
+
+      const presetData = JSON.parse(savedPresets) as unknown[];
+      tilePresets.value = presetData.filter(isStoredTilePreset);
+    } catch (error) {
+      console.error(`Failed to load tile presets from ${storage.name}:`, error);
+    }
+  }
+
+  /**
+   * Schedules the tile presets to be saved and announces them to other tabs
    */
-  function updateDrag(x: number, y: number): void {
-    if (!dragState.value.isDragging) return;
-
-    dragState.value.currentPosition = { x, y };
+  function saveTilePresets(): void {
+    persist(TILE_PRESETS_KEY, () => (tilePresets.value.length > 0 ? JSON.stringify(tilePresets.value) : null));
+    tabSync.post({ kind: 'presets', presets: tilePresets.value });
   }
 
   /**
-   * Ends a drag operation
-   * @param {boolean} commit - Whether to commit the move
+   * Creates a tile on the active dashboard from a preset. The tile is rebuilt
+   * from the preset's clipboard tile fields with its content validated; tiles
+   * too wide for the grid are narrowed to its width.
+   * @param {string} presetId - ID of the preset
+   * @returns {Tile} The created tile
+   * @throws {Error} If the preset does not exist, its tile fails validation or the layout is locked
    */
-  function endDrag(commit: boolean = true): void {
-    if (!dragState.value.isDragging || !dragState.value.draggedTileId) return;
+  function createTileFromPreset(presetId: string): Tile {
+    const preset = tilePresets.value.find(p => p.id === presetId);
+    if (!preset) {
+      throw new Error(`Tile preset "${presetId}" does not exist`);
+    }
 
-    if (commit && dragState.value.currentPosition) {
-      moveTile(
-        dragState.value.draggedTileId,
-        dragState.value.currentPosition.x,
-        dragState.value.currentPosition.y
-      );
+    const tileData = sanitizeClipboardTile(preset.tile, getColumnsForBreakpoint('desktop'));
+    if (!tileData) {
+      throw new Error(`Tile preset "${preset.name}" has an invalid tile configuration`);
     }
 
-    dragState.value = {
-      isDragging: false,
-      draggedTileId: null,
-      originalPosition: null,
-      currentPosition: null,
-    };
+    return createTile(tileData);
   }
 
-  // Resize operations
+  /**
+   * Saves the size constraints and content of a tile as a preset
+   * @param {string} tileId - ID of the tile on the active dashboard
+   * @param {string} name - Name of the preset (defaults to the tile title)
+   * @returns {TilePreset} The saved preset
+   * @throws {Error} If the tile does not exist
+   */
+  function saveTilePreset(tileId: string, name: string): TilePreset {
+    const tile = currentLayout.value.tiles.find(t => t.id === tileId);
+    if (!tile) {
+      throw new Error(`Tile "${tileId}" does not exist`);
+    }
+
+    const preset = createPresetFromTile(tile, generatePresetId(), name.trim() || tile.title);
+    tilePresets.value = [...tilePresets.value, preset];
+    saveTilePresets();
+
+    return preset;
+  }
 
   /**
-   * Starts a resize operation
-   * @param {string} tileId - ID of tile being resized
-   * @param {string} handle - Resize handle being used
+   * Renames a tile preset
+   * @param {string} presetId - ID of the preset
+   * @param {string} name - New name
+   * @returns {boolean} Whether the preset was renamed (false if missing or the name is empty)
    */
-  function startResize(tileId: string, handle: 'se' | 'e' | 's'): void {
-    const tile = tiles.value.find(t => t.id === tileId);
-    if (!tile) return;
+  function renameTilePreset(presetId: string, name: string): boolean {
+    const trimmedName = name.trim();
+    if (!trimmedName || !tilePresets.value.some(p => p.id === presetId)) return false;
 
-    resizeState.value = {
-      isResizing: true,
-      resizedTileId: tileId,
-      originalSize: { width: tile.width, height: tile.height },
-      currentSize: { width: tile.width, height: tile.height },
-      resizeHandle: handle,
-    };
+    tilePresets.value = tilePresets.value.map(p => (p.id === presetId ? { ...p, name: trimmedName } : p));
+    saveTilePresets();
+
+    return true;
   }
 
   /**
-   * Updates resize dimensions
-   * @param {number} width - Current width
-   * @param {number} height - Current height
+   * Deletes a tile preset. Tiles created from it are not affected.
+   * @param {string} presetId - ID of the preset to delete
+   * @returns {boolean} Whether the preset was deleted
    */
-  function updateResize(width: number, height: number): void {
-    if (!resizeState.value.isResizing) return;
+  function deleteTilePreset(presetId: string): boolean {
+    if (!tilePresets.value.some(p => p.id === presetId)) return false;
 
-    resizeState.value.currentSize = { width, height };
+    tilePresets.value = tilePresets.value.filter(p => p.id !== presetId);
+    saveTilePresets();
+
+    return true;
   }
 
   /**
-   * Ends a resize operation
-   * @param {boolean} commit - Whether to commit the resize
+   * Adds imported presets. Each tile is rebuilt from the clipboard tile fields
+   * with its content validated; presets that fail validation or equal an
+   * existing one are skipped.
+   * @param {ExportedTilePreset[]} presets - Presets read from a preset file
+   * @returns {number} Number of presets added
    */
-  function endResize(commit: boolean = true): void {
-    if (!resizeState.value.isResizing || !resizeState.value.resizedTileId) return;
+  function importTilePresets(presets: ExportedTilePreset[]): number {
+    const added: TilePreset[] = [];
+
+    presets.forEach(preset => {
+      const tile = sanitizeClipboardTile(preset.tile);
+      if (!tile) {
+        console.warn('Skipping tile preset with an invalid tile configuration:', preset.name);
+        return;
+      }
 
-    if (commit && resizeState.value.currentSize) {
-      resizeTile(
-        resizeState.value.resizedTileId,
-        resizeState.value.currentSize.width,
-        resizeState.value.currentSize.height
-      );
+      const candidate: ExportedTilePreset = { name: preset.name.trim(), tile, created: preset.created };
+      if ([...tilePresets.value, ...added].some(existing => presetsEqual(existing, candidate))) return;
+
+      added.push({
+        id: generatePresetId(),
+        name: candidate.name,
+        tile,
+        created: typeof preset.created === 'string' ? preset.created : new Date().toISOString(),
+      });
+    });
+
+    if (added.length > 0) {
+      tilePresets.value = [...tilePresets.value, ...added];
+      saveTilePresets();
     }
 
-    resizeState.value = {
-      isResizing: false,
-      resizedTileId: null,
-      originalSize: null,
-      currentSize: null,
-      resizeHandle: null,
-    };
+    return added.length;
   }
 
-  // Layout persistence
+  // Watch for layout changes and auto-save
+  watch(
+    () => currentLayout.value,
+    () => {
+      saveLayout();
+    },
+    { deep: true }
+  );
+
+  // Cross-tab synchronization
 
   /**
-   * Saves the current layout to localStorage
+   * Announces tile changes of a dashboard to other tabs and
+   * remembers this tab as the last writer of the changed tiles
+   * @param {TileChange[]} changes - Tile changes to announce
+   * @param {Date} [timestamp] - Time of the changes (defaults to now)
+   * @param {string} [layoutId] - Dashboard the changes belong to (defaults to the active one)
    */
-  function saveLayout(): void {
-    try {
-      const layoutData = JSON.stringify({
-        ...currentLayout.value,
-        tiles: currentLayout.value.tiles.map(tile => ({
-          ...tile,
-          created: tile.created.toISOString(),
-          modified: tile.modified.toISOString(),
-        })),
-        created: currentLayout.value.created.toISOString(),
-        modified: currentLayout.value.modified.toISOString(),
-      });
+  function broadcastTileChanges(
+    changes: TileChange[],
+    timestamp: Date = new Date(),
+    layoutId: string = currentLayout.value.id
+  ): void {
+    const time = timestamp.getTime();
+
+    changes.forEach(change => tileVersions.set(`${layoutId}/${change.tileId}`, { time, tabId: tabSync.tabId }));
+    tabSync.post({ kind: 'tiles', layoutId, changes: changes.map(serializeTileChange) }, time);
+  }
 
-      localStorage.setItem('dashboard-layout', layoutData);
-    } catch (error) {
-      console.error('Failed to save layout to localStorage:', error);
-    }
+  /**
+   * Announces the settings of a dashboard to other tabs
+   * @param {DashboardLayout} layout - Dashboard whose settings changed
+   */
+  function broadcastSettings(layout: DashboardLayout): void {
+    tabSync.post({ kind: 'settings', layoutId: layout.id, settings: getLayoutSettings(layout) });
   }
 
   /**
-   * Loads layout from localStorage
+   * Applies tile changes made in another tab
+   *
+   * A change applies when the tile still has the state the other tab
+   * started from, so edits of different tiles merge. If both tabs changed
+   * the same tile, the later change wins (ties are broken by tab ID); both
+   * tabs reach the same result and the user is notified.
+   * @param {DashboardLayout} layout - Dashboard the changes belong to
+   * @param {SerializedTileChange[]} changes - Changes made in the other tab
+   * @param {{ time: number, tabId: string }} remoteVersion - Time and tab of the changes
    */
-  function loadLayout(): void {
-    try {
-      const savedLayout = localStorage.getItem('dashboard-layout');
+  function applyRemoteTileChanges(
+    layout: DashboardLayout,
+    changes: SerializedTileChange[],
+    remoteVersion: { time: number; tabId: string }
+  ): void {
+    changes.map(deserializeTileChange).forEach(change => {
+      const versionKey = `${layout.id}/${change.tileId}`;
+      const index = layout.tiles.findIndex(tile => tile.id === change.tileId);
+      const localTile = index === -1 ? null : layout.tiles[index];
+      const localState = tileStateKey(localTile);
+
+      if (localState === tileStateKey(change.after)) {
+        tileVersions.set(versionKey, remoteVersion);
+        return;
+      }
+
+      if (localState !== tileStateKey(change.before)) {
+        const localVersion = tileVersions.get(versionKey);
+        const keptRemote = !localVersion || remoteVersion.time > localVersion.time ||
+          (remoteVersion.time === localVersion.time && remoteVersion.tabId > localVersion.tabId);
+
+        // Without a local version this tab was merely out of date
+        if (localVersion) {
+          syncNotice.value = {
+            kind: 'conflict',
+            layoutId: layout.id,
+            tileId: change.tileId,
+            title: ((keptRemote ? change.after : localTile) ?? change.before)?.title ?? change.tileId,
+            keptRemote,
+          };
+        }
+        if (!keptRemote) return;
+      }
 
-      if (savedLayout) {
-        const layoutData = JSON.parse(savedLayout);
+      if (!change.after) {
+        if (index !== -1) layout.tiles.splice(index, 1);
+        selection.value = selection.value.filter(tileId => tileId !== change.tileId);
+      } else if (index === -1) {
+        layout.tiles.push(change.after);
+      } else {
+        layout.tiles.splice(index, 1, change.after);
+      }
 
-        currentLayout.value = {
-          ...layoutData,
-          tiles: layoutData.tiles.map((tile: unknown) => {
-            const tileData = tile as {
-              created: string;
-              modified: string;
-              [key: string]: unknown;
-            };
-            return {
-              ...tileData,
-              created: new Date(tileData.created),
-              modified: new Date(tileData.modified),
-            };
-          }),
-          created: new Date(layoutData.created),
-          modified: new Date(layoutData.modified),
-        };
+      tileVersions.set(versionKey, remoteVersion);
+      layout.modified = new Date(remoteVersion.time);
+      shareTileChanges(layout.id, [change]);
+    });
+  }
+
+  /**
+   * Applies a change made in another tab. Changes arriving while the
+   * dashboards are loading are applied once loading has finished.
+   * @param {TabSyncEnvelope} envelope - Received change
+   */
+  function handleRemoteChange(envelope: TabSyncEnvelope): void {
+    if (!isStorageReady.value) {
+      pendingRemoteChanges.push(envelope);
+      return;
+    }
+
+    const { message } = envelope;
+
+    switch (message.kind) {
+      case 'tiles': {
+        const layout = layouts.value.find(l => l.id === message.layoutId);
+        if (layout) {
+          applyRemoteTileChanges(layout, message.changes, { time: envelope.time, tabId: envelope.tabId });
+        }
+        break;
+      }
+      case 'settings': {
+        const layout = layouts.value.find(l => l.id === message.layoutId);
+        if (!layout) break;
+
+        if (layout.id === activeLayoutId.value && message.settings.locked && !layout.locked) {
+          resetInteractionState();
+        }
+        Object.assign(layout, message.settings, { modified: new Date(envelope.time) });
+        if (!message.settings.locked) delete layout.locked;
+        break;
+      }
+      case 'dashboard-added': {
+        if (layouts.value.some(l => l.id === message.layout.id)) break;
+
+        const index = Math.min(Math.max(0, message.index), layouts.value.length);
+        layouts.value.splice(index, 0, deserializeLayout(message.layout));
+        break;
+      }
+      case 'dashboard-removed': {
+        const index = layouts.value.findIndex(l => l.id === message.layoutId);
+        if (index === -1 || layouts.value.length <= 1) break;
+
+        const [removed] = layouts.value.splice(index, 1);
+        if (activeLayoutId.value === removed.id) {
+          resetInteractionState();
+          activeLayoutId.value = layouts.value[Math.max(0, index - 1)].id;
+          syncNotice.value = { kind: 'dashboard-removed', layoutId: removed.id, name: removed.name };
+        }
+        if (collabSession?.layoutId === removed.id) {
+          stopCollaboration();
+        }
+        break;
+      }
+      case 'snapshots': {
+        if (message.layoutId !== activeLayoutId.value) break;
+
+        snapshots.value = applySnapshotRetention(
+          message.snapshots
+            .map(readStoredSnapshot)
+            .filter((snapshot): snapshot is LayoutSnapshot => snapshot !== null)
+        );
+        break;
+      }
+      case 'templates': {
+        userTemplates.value = message.templates.filter(isDashboardTemplate);
+        break;
+      }
+      case 'presets': {
+        tilePresets.value = message.presets.filter(isStoredTilePreset);
+        break;
       }
-    } catch (error) {
-      console.error('Failed to load layout from localStorage:', error);
     }
   }
 
+  tabSync.subscribe(handleRemoteChange);
+
+  // Layout server sync
+
   /**
-   * Loads layout data from an imported layout object
-   * @param {DashboardLayout} layoutData - Layout data to load
+   * Reads a layout in the form exchanged with the layout server
+   * @param {string} layoutId - ID of the layout
+   * @returns {StoredLayout | null} Layout in stored form, or null if it does not exist
    */
-  function loadLayoutData(layoutData: DashboardLayout): void {
-    try {
-      currentLayout.value = {
-        ...layoutData,
-        modified: new Date(), // Update modified time to current time
-      };
+  function readServerLayout(layoutId: string): StoredLayout | null {
+    const layout = layouts.value.find(l => l.id === layoutId);
+    return layout ? toStoredLayout(layout) : null;
+  }
 
-      // Log the import operation
-      logOperation({
-        operation: 'create',
-        tileId: 'layout',
-        data: { action: 'import_layout', layoutName: layoutData.name },
-        timestamp: new Date(),
-      });
+  /**
+   * Migrates layout data received from the layout server
+   * @param {unknown} data - Layout data as returned by the server
+   * @returns {StoredLayout | null} Layout in stored form, or null if the data is unusable
+   */
+  function normalizeServerLayout(data: unknown): StoredLayout | null {
+    try {
+      if (typeof data !== 'object' || data === null || !Array.isArray((data as { tiles?: unknown }).tiles)) {
+        return null;
+      }
+      return toStoredLayout(deserializeLayout(migrateLayout(data) as SerializedLayout));
     } catch (error) {
-      console.error('Failed to load layout data:', error);
-      throw error;
+      console.warn('Ignoring unusable layout from the layout server:', error);
+      return null;
     }
   }
 
   /**
-   * Updates the current breakpoint based on window width
-   * @param {number} width - Current window width
+   * Adds a layout from the layout server, or replaces the local layout with the same ID
+   * @param {StoredLayout} storedLayout - Server version of the layout
    */
-  function updateBreakpoint(width: number): void {
-    if (width >= BREAKPOINTS.tablet) {
-      currentBreakpoint.value = 'desktop';
-    } else if (width >= BREAKPOINTS.mobile) {
-      currentBreakpoint.value = 'tablet';
-    } else if (width >= BREAKPOINTS.smallMobile) {
-      currentBreakpoint.value = 'mobile';
+  function applyServerLayout(storedLayout: StoredLayout): void {
+    const layout = deserializeLayout(storedLayout);
+    const index = layouts.value.findIndex(l => l.id === layout.id);
+
+    if (index === -1) {
+      layouts.value.push(layout);
+      saveLayoutIndex();
+      tabSync.post({ kind: 'dashboard-added', layout: serializeLayout(layout), index: layouts.value.length - 1 });
     } else {
-      currentBreakpoint.value = 'smallMobile';
+      if (layout.id === activeLayoutId.value) {
+        resetInteractionState();
+      }
+      layouts.value.splice(index, 1, layout);
     }
+
+    // Written directly, as the layout must not be queued for upload again
+    persist(`${LAYOUT_KEY_PREFIX}${layout.id}`, () => JSON.stringify(toStoredLayout(layout)));
   }
 
   /**
-   * Clears all tiles from the dashboard
+   * Reads the saved layout server sync state
+   * @returns {Promise<LayoutSyncState | null>} Saved state, or null if missing or corrupted
    */
-  function clearDashboard(): void {
-    currentLayout.value.tiles = [];
-    currentLayout.value.modified = new Date();
+  async function readServerSyncState(): Promise<LayoutSyncState | null> {
+    try {
+      const savedState = await storage.getItem(SERVER_SYNC_KEY);
+      return savedState ? JSON.parse(savedState) as LayoutSyncState : null;
+    } catch (error) {
+      console.error('Failed to load layout server sync state:', error);
+      return null;
+    }
+  }
 
-    logOperation({
-      operation: 'delete',
-      tileId: 'all',
-      data: { action: 'clear_dashboard' },
-      timestamp: new Date(),
-    });
+  /**
+   * Connects to a layout server, or disables syncing
+   *
+   * On the first sync, local dashboards missing on the server are uploaded
+   * and dashboards only on the server are added locally.
+   * @param {string | null} serverUrl - Base URL of the server, or null to disable syncing
+   * @returns {Promise<void>} Resolves when the first sync has finished
+   */
+  function configureLayoutServer(serverUrl: string | null): Promise<void> {
+    return layoutSync.configure(serverUrl?.trim() || null);
   }
 
   /**
-   * Imports a layout from external data
-   * @param {object} layoutData - Layout data to import
+   * Pulls changes from the layout server and sends queued local changes
+   * @returns {Promise<void>} Resolves when the sync has finished
    */
-  function importLayout(layoutData: any): void {
-    try {
-      // Validate and sanitize imported data
-      if (!layoutData || !Array.isArray(layoutData.tiles)) {
-        throw new Error('Invalid layout data format');
+  function syncWithServer(): Promise<void> {
+    return layoutSync.sync();
+  }
+
+  /**
+   * Resolves a sync conflict by keeping one version of the dashboard
+   * @param {string} layoutId - ID of the dashboard in conflict
+   * @param {'local' | 'remote'} keep - `local` overwrites the server version, `remote` replaces the local version
+   * @returns {Promise<void>} Resolves when the chosen version has been synced
+   */
+  function resolveSyncConflict(layoutId: string, keep: 'local' | 'remote'): Promise<void> {
+    return layoutSync.resolveConflict(layoutId, keep);
+  }
+
+  // Real-time collaboration
+
+  /**
+   * Shares local tile changes of the collaborated dashboard with the other
+   * participants. Only properties that differ from the merged state are sent.
+   * @param {string} layoutId - Dashboard the changes belong to
+   * @param {TileChange[]} changes - Tile changes to share
+   */
+  function shareTileChanges(layoutId: string, changes: TileChange[]): void {
+    if (!collabSession?.joined || collabSession.layoutId !== layoutId) return;
+
+    const { document, connection } = collabSession;
+    const entries = changes.flatMap(change => tileChangeToEntries(
+      document.readTile(change.tileId),
+      change.after ? serializeTile(change.after) : null
+    ));
+    const ops = document.createOps(entries);
+
+    if (ops.length > 0) {
+      connection.send({ type: 'ops', ops });
+    }
+  }
+
+  /**
+   * Brings tiles of the collaborated dashboard up to date with the merged state
+   * @param {DashboardLayout} layout - Collaborated dashboard
+   * @param {Iterable<string>} tileIds - IDs of the tiles to update
+   * @returns {TileChange[]} Changes made to the dashboard
+   */
+  function applyCollabTiles(layout: DashboardLayout, tileIds: Iterable<string>): TileChange[] {
+    if (!collabSession) return [];
+
+    const changes: TileChange[] = [];
+
+    for (const tileId of tileIds) {
+      const state = collabSession.document.readTile(tileId);
+      const after = state ? deserializeTile(state) : null;
+      const index = layout.tiles.findIndex(tile => tile.id === tileId);
+      const before = index === -1 ? null : layout.tiles[index];
+
+      if (tileStateKey(before) === tileStateKey(after)) continue;
+
+      if (!after) {
+        layout.tiles.splice(index, 1);
+        selection.value = selection.value.filter(id => id !== tileId);
+      } else if (index === -1) {
+        layout.tiles.push(after);
+      } else {
+        layout.tiles.splice(index, 1, after);
       }
+      changes.push({ tileId, before, after: after ? cloneTile(after) : null });
+    }
 
-      const now = new Date();
-      
-      // Update current layout with imported data
-      currentLayout.value = {
-        id: layoutData.id || 'imported',
-        name: layoutData.name || 'Imported Dashboard',
-        tiles: layoutData.tiles.map((tile: any) => ({
-          ...tile,
-          id: tile.id || generateTileId(),
-          created: tile.created ? new Date(tile.created) : now,
-          modified: tile.modified ? new Date(tile.modified) : now,
-        })),
-        gridColumns: layoutData.gridColumns || DEFAULT_GRID_CONFIG.desktop,
-        created: layoutData.created ? new Date(layoutData.created) : now,
-        modified: now,
-      };
+    if (changes.length > 0) {
+      layout.modified = new Date();
+      saveLayout(layout);
+      broadcastTileChanges(changes, layout.modified, layout.id);
+    }
+
+    return changes;
+  }
+
+  /**
+   * Moves apart tiles that overlap after concurrent moves or resizes
+   *
+   * Only the participant with the smallest client ID repairs overlaps, so
+   * that participants do not push tiles around at the same time. The most
+   * recently placed tile of every overlap keeps its place; the others are
+   * pushed down and the result is shared like a local change.
+   * @param {DashboardLayout} layout - Collaborated dashboard
+   */
+  function repairCollabOverlaps(layout: DashboardLayout): void {
+    const { self, peers } = collaboration.value;
+    if (!collabSession || !self || peers.some(peer => peer.clientId < self.clientId)) return;
+
+    const { document } = collabSession;
+    const positions = new Map(layout.tiles.map(tile => [tile.id, getDesktopPosition(tile)]));
+    const fixedIds = new Set(layout.tiles.filter(tile => tile.locked).map(tile => tile.id));
+    const overlapping = layout.tiles.filter(tile => !fixedIds.has(tile.id) && layout.tiles.some(other =>
+      other.id !== tile.id && positionsOverlap(getDesktopPosition(tile), getDesktopPosition(other))));
+    if (overlapping.length === 0) return;
+
+    // Newest placements first; a tile overlapping an earlier pick gets pushed
+    const placementClock = (tile: Tile) =>
+      document.latestClock(tile.id, ['x', 'y', 'width', 'height']) ?? { counter: 0, clientId: '' };
+    const targets = new Map<string, TilePosition>();
+    [...overlapping]
+      .sort((a, b) => compareClocks(placementClock(b), placementClock(a)))
+      .forEach(tile => {
+        const position = getDesktopPosition(tile);
+        const blocked = [...targets.values(), ...[...fixedIds].map(id => positions.get(id)!)]
+          .some(other => positionsOverlap(position, other));
+        if (!blocked) targets.set(tile.id, position);
+      });
+
+    const resolved = resolveGroupCollisions(positions, targets, fixedIds);
+    if (!resolved) return;
+
+    const changes: TileChange[] = [];
+    layout.tiles.forEach(tile => {
+      const position = resolved.get(tile.id);
+      if (!position || (position.x === tile.x && position.y === tile.y)) return;
+
+      const before = cloneTile(tile);
+      tile.x = position.x;
+      tile.y = position.y;
+      tile.modified = new Date();
+      changes.push({ tileId: tile.id, before, after: cloneTile(tile) });
+    });
+
+    if (changes.length > 0) {
+      layout.modified = new Date();
+      saveLayout(layout);
+      broadcastTileChanges(changes, layout.modified, layout.id);
+      shareTileChanges(layout.id, changes);
+    }
+  }
+
+  /**
+   * Handles a message from the collaboration relay
+   *
+   * On the first welcome, an empty room is seeded with the local tiles;
+   * otherwise the local tiles are replaced with the shared ones, after
+   * taking a snapshot. After reconnecting, the full local state is sent
+   * again, so changes made while offline are merged.
+   * @param {CollabServerMessage} message - Received message
+   */
+  function handleCollabMessage(message: CollabServerMessage): void {
+    if (!collabSession) return;
+
+    const session = collabSession;
+    const layout = layouts.value.find(l => l.id === session.layoutId);
+    if (!layout) {
+      stopCollaboration();
+      return;
+    }
+
+    switch (message.type) {
+      case 'welcome': {
+        collaboration.value.peers = message.peers.filter(peer => peer.clientId !== session.document.clientId);
+
+        if (session.joined) {
+          applyCollabTiles(layout, session.document.apply(message.ops));
+        } else if (message.ops.length === 0) {
+          session.document.createOps(layout.tiles.flatMap(tile => tileChangeToEntries(null, serializeTile(tile))));
+        } else {
+          if (layout.id === activeLayoutId.value && layout.tiles.length > 0) {
+            createSnapshot('Before joining collaboration', 'auto');
+          }
+          session.document.apply(message.ops);
+          applyCollabTiles(layout, new Set([...session.document.tileIds(), ...layout.tiles.map(tile => tile.id)]));
+        }
 
-      // Update grid configuration if provided
-      if (layoutData.gridConfig) {
-        gridConfig.value = { ...gridConfig.value, ...layoutData.gridConfig };
+        session.joined = true;
+        if (!session.document.isEmpty) {
+          session.connection.send({ type: 'ops', ops: session.document.allOps() });
+        }
+        repairCollabOverlaps(layout);
+        break;
+      }
+      case 'ops':
+        if (applyCollabTiles(layout, session.document.apply(message.ops)).length > 0) {
+          repairCollabOverlaps(layout);
+        }
+        break;
+      case 'presence': {
+        const presence = { ...collabPresence.value };
+        delete presence[message.clientId];
+        if (message.presence) presence[message.clientId] = message.presence;
+        collabPresence.value = presence;
+        break;
       }
+      case 'peer-joined':
+        collaboration.value.peers = [
+          ...collaboration.value.peers.filter(peer => peer.clientId !== message.peer.clientId),
+          message.peer,
+        ];
+        break;
+      case 'peer-left': {
+        collaboration.value.peers = collaboration.value.peers.filter(peer => peer.clientId !== message.clientId);
+        const presence = { ...collabPresence.value };
+        delete presence[message.clientId];
+        collabPresence.value = presence;
+        break;
+      }
+    }
+  }
 
-      saveLayout();
-      
-      logOperation({
-        operation: 'import',
-        tileId: 'layout',
-        timestamp: now,
-        data: { tilesImported: currentLayout.value.tiles.length },
+  /**
+   * Starts collaborating on the active dashboard
+   *
+   * All participants of the same room on the same relay edit one dashboard
+   * together; see `docs/COLLABORATION.md`.
+   * @param {string} relayUrl - WebSocket URL of the collaboration relay
+   * @param {string} room - Name of the room to join
+   * @param {string} name - Name shown to the other participants
+   * @returns {Promise<void>} Resolves once joined
+   * @throws {Error} If the relay cannot be reached
+   */
+  function startCollaboration(relayUrl: string, room: string, name: string): Promise<void> {
+    stopCollaboration();
+
+    const layoutId = currentLayout.value.id;
+    const clientId = generateClientId();
+    const self: CollabPeer = { clientId, name: name.trim() || 'Anonymous', color: getPeerColor(clientId) };
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+
+      const connection = new CollabConnection(relayUrl, room, self, {
+        onStatusChange: status => {
+          if (collabSession?.connection !== connection) return;
+
+          collaboration.value.status = status;
+          if (status !== 'disconnected') return;
+
+          collaboration.value.peers = [];
+          collabPresence.value = {};
+          if (!settled) {
+            settled = true;
+            stopCollaboration();
+            reject(new Error(`Could not connect to the collaboration relay at ${relayUrl}`));
+          }
+        },
+        onMessage: message => {
+          if (collabSession?.connection !== connection) return;
+
+          handleCollabMessage(message);
+          if (message.type === 'welcome' && !settled) {
+            settled = true;
+            resolve();
+          }
+        },
       });
-    } catch (error) {
-      console.error('Failed to import layout:', error);
-      throw new Error('Failed to import layout: ' + (error as Error).message);
+
+      collabSession = { layoutId, document: new CollabDocument(clientId), connection, joined: false };
+      collaboration.value = { status: 'connecting', layoutId, relayUrl, room, self, peers: [] };
+      connection.connect();
+    });
+  }
+
+  /**
+   * Leaves the collaboration session, keeping the dashboard as it is
+   */
+  function stopCollaboration(): void {
+    const session = collabSession;
+    collabSession = null;
+    session?.connection.close();
+
+    collaboration.value = { status: 'off', layoutId: null, relayUrl: null, room: null, self: null, peers: [] };
+    collabPresence.value = {};
+  }
+
+  /**
+   * In-progress drags and resizes of other participants on the active
+   * dashboard, scaled to the local number of grid columns
+   */
+  const collaboratorPresence = computed<CollaboratorPresence[]>(() => {
+    if (collaboration.value.layoutId !== activeLayoutId.value) return [];
+
+    return collaboration.value.peers.flatMap(peer => {
+      const presence = collabPresence.value[peer.clientId];
+      if (!presence) return [];
+
+      const scale = gridColumns.value / Math.max(1, presence.columns);
+      const x = Math.round(presence.x * scale);
+      return [{
+        peer,
+        kind: presence.kind,
+        tileIds: presence.tileIds,
+        x,
+        y: presence.y,
+        width: Math.max(1, Math.min(Math.round(presence.width * scale), gridColumns.value - x)),
+        height: presence.height,
+      }];
+    });
+  });
+
+  /**
+   * Describes the local drag or resize for the other participants
+   * @returns {CollabPresence | null} Current drag or resize, or null if none
+   */
+  function getLocalPresence(): CollabPresence | null {
+    const { isDragging, draggedTileId, currentPosition } = dragState.value;
+    if (isDragging && draggedTileId && currentPosition) {
+      const origin = arrangement.value.get(draggedTileId);
+      if (!origin) return null;
+
+      const tileIds = getDragGroup(draggedTileId);
+      const group = tileIds
+        .map(id => arrangement.value.get(id))
+        .filter((position): position is TilePosition => position !== undefined);
+      const left = Math.min(...group.map(position => position.x));
+      const top = Math.min(...group.map(position => position.y));
+
+      return {
+        kind: 'drag',
+        tileIds,
+        x: Math.max(0, left + currentPosition.x - origin.x),
+        y: Math.max(0, top + currentPosition.y - origin.y),
+        width: Math.max(...group.map(position => position.x + position.width)) - left,
+        height: Math.max(...group.map(position => position.y + position.height)) - top,
+        columns: gridColumns.value,
+      };
+    }
+
+    const { isResizing, resizedTileId, currentSize } = resizeState.value;
+    const position = resizedTileId ? arrangement.value.get(resizedTileId) : undefined;
+    if (isResizing && resizedTileId && currentSize && position) {
+      return {
+        kind: 'resize',
+        tileIds: [resizedTileId],
+        x: position.x,
+        y: position.y,
+        width: currentSize.width,
+        height: currentSize.height,
+        columns: gridColumns.value,
+      };
     }
+
+    return null;
   }
 
-  // Watch for layout changes and auto-save
-  watch(
-    () => currentLayout.value,
-    () => {
-      saveLayout();
-    },
-    { deep: true }
-  );
+  // Show local drags and resizes of the collaborated dashboard to the others
+  watch([dragState, resizeState], () => {
+    if (!collabSession?.joined || collabSession.layoutId !== activeLayoutId.value) return;
+    collabSession.connection.sendPresence(getLocalPresence());
+  }, { deep: true });
+
+  // Each dashboard keeps its own undo/redo history and snapshots; while
+  // loading, they are loaded together with the dashboards
+  watch(activeLayoutId, layoutId => {
+    if (!isStorageReady.value) return;
+    void loadHistory(layoutId);
+    void loadSnapshots(layoutId);
+  });
+
+  // Write pending changes before the page is hidden or closed
+  if (typeof window !== 'undefined') {
+    window.addEventListener('pagehide', () => {
+      void storageWriter.flush();
+    });
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') {
+        void storageWriter.flush();
+      }
+    });
+  }
 
   // Initialize store
-  loadLayout();
+  void loadLayouts();
 
   return {
     // State
+    layouts: computed(() => layouts.value),
+    activeLayoutId: computed(() => activeLayoutId.value),
     currentLayout: computed(() => currentLayout.value),
     gridConfig: computed(() => gridConfig.value),
     currentBreakpoint: computed(() => currentBreakpoint.value),
     dragState: computed(() => dragState.value),
     resizeState: computed(() => resizeState.value),
     operationHistory: computed(() => operationHistory.value),
+    undoStack: computed(() => undoStack.value),
+    redoStack: computed(() => redoStack.value),
+    snapshots: computed(() => snapshots.value),
+    userTemplates: computed(() => userTemplates.value),
+    tilePresets: computed(() => tilePresets.value),
+    storageName: computed(() => storageName.value),
+    isStorageReady: computed(() => isStorageReady.value),
+    storageError: computed(() => storageError.value),
+    syncNotice: computed(() => syncNotice.value),
+    serverSync: computed(() => serverSync.value),
+    collaboration: computed(() => collaboration.value),
 
     // Computed
     tiles,
     gridColumns,
+    canUndo,
+    canRedo,
+    isBreakpointCustomized,
+    compactionMode,
+    collisionMode,
+    isLayoutLocked,
+    selectedTileIds,
+    selectedTiles,
+    placementPreview,
+    collaboratorPresence,
+    templates,
 
     // Actions
     createTile,
+    createTileOfType,
     deleteTile,
+    deleteTiles,
+    duplicateTiles,
+    pasteTiles,
     updateTile,
+    updateTilesContent,
     moveTile,
+    moveTiles,
     resizeTile,
+    selectTiles,
+    toggleTileSelection,
+    selectTilesInArea,
+    selectAllTiles,
+    clearSelection,
+    undo,
+    redo,
+    createSnapshot,
+    restoreSnapshot,
+    deleteSnapshot,
     startDrag,
     updateDrag,
     endDrag,
@@ -650,11 +3331,41 @@ export const useDashboardStore = defineStore('dashboard', () => {
     updateResize,
     endResize,
     saveLayout,
-    loadLayout,
+    loadLayouts,
+    setStorageAdapter,
+    flushStorage,
+    whenStorageReady,
+    configureLayoutServer,
+    syncWithServer,
+    resolveSyncConflict,
+    startCollaboration,
+    stopCollaboration,
     loadLayoutData,
+    createDashboard,
+    renameDashboard,
+    duplicateDashboard,
+    deleteDashboard,
+    switchDashboard,
     updateBreakpoint,
+    resetBreakpointLayout,
+    compactLayout,
+    setCompactionMode,
+    setCollisionMode,
+    setTileLocked,
+    setLayoutLocked,
+    isTileLocked,
     clearDashboard,
     importLayout,
+    importLayoutAsDashboard,
+    mergeLayout,
+    createDashboardFromTemplate,
+    saveDashboardAsTemplate,
+    deleteTemplate,
+    createTileFromPreset,
+    saveTilePreset,
+    renameTilePreset,
+    deleteTilePreset,
+    importTilePresets,
     findNextAvailablePosition,
     hasPositionConflicts,
   };
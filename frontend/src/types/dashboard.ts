@@ -5,9 +5,59 @@
  * the dashboard application, based on the requirements specification.
  */
 
+import type { PriceHistoryRange } from '@/services/googleFinanceService';
+
+/**
+ * Responsive layout breakpoints.
+ */
+export type Breakpoint = 'desktop' | 'tablet' | 'mobile' | 'smallMobile';
+
+/**
+ * Breakpoints whose tile positions are derived from, or stored separately
+ * from, the desktop arrangement.
+ */
+export type ResponsiveBreakpoint = Exclude<Breakpoint, 'desktop'>;
+
+/**
+ * How tiles settle after layout operations.
+ * - `none`: tiles stay exactly where they are placed
+ * - `vertical`: tiles float upward until they hit another tile or the top
+ */
+export type CompactionMode = 'none' | 'vertical';
+
+/**
+ * What happens when a moved or resized tile would overlap other tiles.
+ * - `reject`: the operation is refused
+ * - `push`: the tiles in the way are pushed down, cascading as needed
+ * - `swap`: a tile dropped onto another trades places with it if both
+ *   still fit; resizes into other tiles are refused
+ */
+export type CollisionMode = 'reject' | 'push' | 'swap';
+
+/**
+ * Position and size of a tile on the grid, in grid units.
+ *
+ * @interface TilePosition
+ */
+export interface TilePosition {
+  /** Grid column position (0-based) */
+  x: number;
+
+  /** Grid row position (0-based) */
+  y: number;
+
+  /** Width in grid units */
+  width: number;
+
+  /** Height in grid units */
+  height: number;
+}
+
 /**
  * Represents a single tile in the dashboard grid system.
  *
+ * The `x`, `y`, `width` and `height` fields describe the desktop arrangement.
+ *
  * @interface Tile
  */
 export interface Tile {
@@ -44,6 +94,15 @@ export interface Tile {
   /** Content configuration for the tile */
   content?: TileContent;
 
+  /**
+   * Hand-edited positions for smaller breakpoints. Breakpoints without an
+   * entry are derived automatically from the desktop arrangement.
+   */
+  breakpointPositions?: Partial<Record<ResponsiveBreakpoint, TilePosition>>;
+
+  /** Locked tiles cannot be moved, resized or deleted; other tiles flow around them */
+  locked?: boolean;
+
   /** Timestamp when tile was created */
   created: Date;
 
@@ -69,6 +128,15 @@ export interface DashboardLayout {
   /** Number of columns in the grid system */
   gridColumns: number;
 
+  /** Compaction applied after every operation (defaults to `none`) */
+  compactionMode?: CompactionMode;
+
+  /** Collision handling for moves and resizes (defaults to `reject`; new dashboards use `push`) */
+  collisionMode?: CollisionMode;
+
+  /** View-only mode: no tile can be added, changed or removed (defaults to `false`) */
+  locked?: boolean;
+
   /** Timestamp when layout was created */
   created: Date;
 
@@ -146,9 +214,51 @@ export interface ResizeState {
 }
 
 /**
- * Available tile operation types.
+ * Available tile operation types. `settings` changes a dashboard setting,
+ * named by the event's `tileId`, e.g. `compactionMode`.
+ */
+export type TileOperation = 'create' | 'delete' | 'move' | 'resize' | 'update' | 'clear' | 'import' | 'reset' | 'compact' | 'swap' | 'restore' | 'settings';
+
+/**
+ * State of a single tile before and after an operation.
+ *
+ * A `null` state means the tile did not exist on that side of the operation,
+ * so creations have `before: null` and deletions have `after: null`.
+ *
+ * @interface TileChange
  */
-export type TileOperation = 'create' | 'delete' | 'move' | 'resize' | 'import';
+export interface TileChange {
+  /** ID of the changed tile */
+  tileId: string;
+
+  /** Tile state before the operation */
+  before: Tile | null;
+
+  /** Tile state after the operation */
+  after: Tile | null;
+}
+
+/**
+ * Layout settings and grid configuration recorded for undo/redo.
+ *
+ * @interface LayoutHistoryState
+ */
+export interface LayoutHistoryState {
+  /** Dashboard name */
+  name: string;
+
+  /** Desktop column count */
+  gridColumns: number;
+
+  /** Gravity setting */
+  compactionMode: CompactionMode;
+
+  /** Collision handling */
+  collisionMode: CollisionMode;
+
+  /** Grid configuration */
+  gridConfig: GridConfig;
+}
 
 /**
  * Event payload for tile operations.
@@ -165,10 +275,58 @@ export interface TileOperationEvent {
   /** Additional operation-specific data */
   data?: unknown;
 
+  /** Tile states before and after the operation, used for undo/redo */
+  changes?: TileChange[];
+
+  /** Layout settings before and after the operation, if it changed them; used for undo/redo */
+  layoutChange?: {
+    before: LayoutHistoryState;
+    after: LayoutHistoryState;
+  };
+
   /** Timestamp of the operation */
   timestamp: Date;
 }
 
+/**
+ * How a layout snapshot was taken: explicitly by the user, or automatically.
+ */
+export type SnapshotKind = 'manual' | 'auto';
+
+/**
+ * Saved copy of a dashboard layout that can be compared with the current
+ * layout and restored.
+ *
+ * @interface LayoutSnapshot
+ */
+export interface LayoutSnapshot {
+  /** Unique identifier for the snapshot */
+  id: string;
+
+  /** Name given by the user, or a description of an automatic snapshot */
+  name: string;
+
+  /** Whether the snapshot was taken by the user or automatically */
+  kind: SnapshotKind;
+
+  /** Timestamp when the snapshot was taken */
+  created: Date;
+
+  /** Copy of the layout at the time of the snapshot */
+  layout: DashboardLayout;
+}
+
+/**
+ * Change from another browser tab that the user should know about.
+ *
+ * `conflict`: a tile was changed in this tab and another tab at the same
+ * time; the newer change was kept in both tabs. `dashboard-removed`: the
+ * active dashboard was deleted in another tab.
+ */
+export type TabSyncNotice =
+  | { kind: 'conflict'; layoutId: string; tileId: string; title: string; keptRemote: boolean }
+  | { kind: 'dashboard-removed'; layoutId: string; name: string };
+
 /**
  * Grid position calculation result.
  *
@@ -220,10 +378,32 @@ export const BREAKPOINTS = {
   tablet: 1200,
 } as const;
 
+/**
+ * Content configurations by content type
+ *
+ * Modules that register their own tile content plugin add their content
+ * type here through declaration merging:
+ *
+ * ```typescript
+ * declare module '@/types/dashboard' {
+ *   interface TileContentTypeMap {
+ *     'order-book': OrderBookContent;
+ *   }
+ * }
+ * ```
+ */
+export interface TileContentTypeMap {
+  'equity-quote': EquityQuoteContent;
+  'placeholder': PlaceholderContent;
+  'news': NewsContent;
+  'price-chart': PriceChartContent;
+  'watchlist': WatchlistContent;
+}
+
 /**
  * Available tile content component types
  */
-export type TileContentType = 'equity-quote' | 'placeholder' | 'news';
+export type TileContentType = keyof TileContentTypeMap;
 
 /**
  * Base interface for tile content configuration
@@ -287,66 +467,41 @@ export interface NewsContent extends BaseTileContent {
 }
 
 /**
- * Union type for all tile content configurations
+ * Configuration for price chart tile content
  */
-export type TileContent = EquityQuoteContent | PlaceholderContent | NewsContent;
+export interface PriceChartContent extends BaseTileContent {
+  type: 'price-chart';
+  /** Stock symbol (e.g., 'AAPL', 'VWRL:LON') */
+  symbol: string;
+  /** Period shown when the tile loads */
+  range: PriceHistoryRange;
+  /** Display format preferences */
+  displayOptions?: {
+    showVolume?: boolean;
+    showPreviousClose?: boolean;
+  };
+}
 
 /**
- * Registry of available tile content types with metadata
+ * Configuration for watchlist tile content
  */
-export const TILE_CONTENT_TYPES: Record<TileContentType, {
-  displayName: string;
-  description: string;
-  defaultConfig: Partial<TileContent>;
-  requiredFields: string[];
-}> = {
-  'equity-quote': {
-    displayName: 'Stock Quote',
-    description: 'Display real-time stock price and market data',
-    defaultConfig: {
-      type: 'equity-quote',
-      displayName: 'Stock Quote',
-      autoRefresh: true,
-      refreshInterval: 60,
-      symbol: 'AAPL',
-      displayOptions: {
-        showChange: true,
-        showPercentChange: true,
-        showVolume: true,
-        showChart: false,
-      },
-    },
-    requiredFields: ['symbol'],
-  },
-  'placeholder': {
-    displayName: 'Placeholder',
-    description: 'Simple placeholder content for testing',
-    defaultConfig: {
-      type: 'placeholder',
-      displayName: 'Placeholder',
-      message: 'Content coming soon...',
-    },
-    requiredFields: [],
-  },
-  'news': {
-    displayName: 'News Feed',
-    description: 'Display latest news articles from Google News',
-    defaultConfig: {
-      type: 'news',
-      displayName: 'News Feed',
-      autoRefresh: true,
-      refreshInterval: 300, // 5 minutes
-      query: 'technology',
-      articleCount: 5,
-      language: 'en',
-      country: 'US',
-      displayOptions: {
-        showImages: false,
-        showSource: true,
-        showTimestamp: true,
-        compactView: false,
-      },
-    },
-    requiredFields: ['query'],
-  },
-};
+export interface WatchlistContent extends BaseTileContent {
+  type: 'watchlist';
+  /** Stock symbols in display order */
+  symbols: string[];
+  /** Columns shown next to symbol and last price, and highlighting */
+  displayOptions?: {
+    showChange?: boolean;
+    showPercentChange?: boolean;
+    showVolume?: boolean;
+    showDayRange?: boolean;
+    showMarketStatus?: boolean;
+    flashOnChange?: boolean;
+  };
+}
+
+/**
+ * Union type for all tile content configurations
+ */
+export type TileContent = TileContentTypeMap[TileContentType];
+
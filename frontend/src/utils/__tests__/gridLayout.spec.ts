@@ -0,0 +1,219 @@
+import { describe, expect, it } from 'vitest';
+import {
+  arrangeForBreakpoint,
+  compactVertically,
+  findFirstFit,
+  planSwap,
+  positionsOverlap,
+  resolveCollisions,
+  resolveGroupCollisions,
+} from '@/utils/gridLayout';
+import type { Tile, TilePosition } from '@/types/dashboard';
+
+/**
+ * Builds a tile rectangle
+ */
+function rect(x: number, y: number, width: number, height: number): TilePosition {
+  return { x, y, width, height };
+}
+
+/**
+ * Builds a tile at the given desktop position
+ */
+function tileAt(id: string, position: TilePosition, fields: Partial<Tile> = {}): Tile {
+  return {
+    id,
+    title: `Tile ${id}`,
+    ...position,
+    created: new Date(),
+    modified: new Date(),
+    ...fields,
+  };
+}
+
+/**
+ * Builds positions keyed by tile ID
+ */
+function positionsOf(entries: Record<string, TilePosition>): Map<string, TilePosition> {
+  return new Map(Object.entries(entries));
+}
+
+describe('positionsOverlap', () => {
+  it('detects rectangles sharing a cell', () => {
+    expect(positionsOverlap(rect(0, 0, 2, 2), rect(1, 1, 2, 2))).toBe(true);
+  });
+
+  it('treats touching edges as not overlapping', () => {
+    expect(positionsOverlap(rect(0, 0, 2, 2), rect(2, 0, 2, 2))).toBe(false);
+    expect(positionsOverlap(rect(0, 0, 2, 2), rect(0, 2, 2, 2))).toBe(false);
+  });
+});
+
+describe('findFirstFit', () => {
+  it('returns the first free spot in reading order', () => {
+    expect(findFirstFit([rect(0, 0, 3, 1), rect(4, 0, 2, 1)], 2, 1, 6)).toEqual({ x: 0, y: 1 });
+    expect(findFirstFit([rect(0, 0, 3, 1)], 2, 1, 6)).toEqual({ x: 3, y: 0 });
+  });
+
+  it('starts scanning at the given position', () => {
+    expect(findFirstFit([], 2, 1, 6, { x: 3, y: 2 })).toEqual({ x: 3, y: 2 });
+    expect(findFirstFit([], 2, 1, 6, { x: 5, y: 2 })).toEqual({ x: 0, y: 3 });
+  });
+
+  it('narrows rectangles wider than the grid', () => {
+    expect(findFirstFit([rect(0, 0, 4, 1)], 8, 1, 4)).toEqual({ x: 0, y: 1 });
+  });
+});
+
+describe('arrangeForBreakpoint', () => {
+  it('uses the tiles\' own coordinates on desktop', () => {
+    const positions = arrangeForBreakpoint([tileAt('a', rect(6, 2, 6, 2))], 'desktop', 12);
+
+    expect(positions.get('a')).toEqual(rect(6, 2, 6, 2));
+  });
+
+  it('flows tiles into narrower grids in desktop reading order', () => {
+    const positions = arrangeForBreakpoint([
+      tileAt('b', rect(6, 0, 6, 2)),
+      tileAt('c', rect(0, 2, 2, 1)),
+      tileAt('a', rect(0, 0, 6, 2)),
+    ], 'mobile', 4);
+
+    expect(positions.get('a')).toEqual(rect(0, 0, 4, 2));
+    expect(positions.get('b')).toEqual(rect(0, 2, 4, 2));
+    expect(positions.get('c')).toEqual(rect(0, 4, 2, 1));
+  });
+
+  it('keeps stored positions, clamped to the grid, and flows other tiles around them', () => {
+    const positions = arrangeForBreakpoint([
+      tileAt('a', rect(0, 0, 6, 2), { breakpointPositions: { mobile: rect(2, 0, 6, 1) } }),
+      tileAt('b', rect(6, 0, 6, 2)),
+    ], 'mobile', 4);
+
+    expect(positions.get('a')).toEqual(rect(0, 0, 4, 1));
+    expect(positions.get('b')).toEqual(rect(0, 1, 4, 2));
+  });
+});
+
+describe('compactVertically', () => {
+  it('floats tiles up without letting them pass the tiles above', () => {
+    const compacted = compactVertically(positionsOf({
+      a: rect(0, 2, 2, 2),
+      b: rect(0, 5, 2, 1),
+      c: rect(2, 3, 2, 1),
+    }));
+
+    expect(compacted.get('a')).toEqual(rect(0, 0, 2, 2));
+    expect(compacted.get('b')).toEqual(rect(0, 2, 2, 1));
+    expect(compacted.get('c')).toEqual(rect(2, 0, 2, 1));
+  });
+
+  it('keeps fixed tiles in place and stacks other tiles below them', () => {
+    const compacted = compactVertically(positionsOf({
+      fixed: rect(0, 1, 4, 1),
+      a: rect(0, 4, 2, 1),
+      b: rect(2, 0, 2, 1),
+    }), new Set(['fixed']));
+
+    expect(compacted.get('fixed')).toEqual(rect(0, 1, 4, 1));
+    expect(compacted.get('a')).toEqual(rect(0, 2, 2, 1));
+    expect(compacted.get('b')).toEqual(rect(2, 0, 2, 1));
+  });
+
+  it('does not modify its input', () => {
+    const positions = positionsOf({ a: rect(0, 3, 1, 1) });
+
+    compactVertically(positions);
+
+    expect(positions.get('a')).toEqual(rect(0, 3, 1, 1));
+  });
+});
+
+describe('resolveCollisions', () => {
+  it('pushes colliding tiles down in a cascade', () => {
+    const resolved = resolveCollisions(positionsOf({
+      moved: rect(4, 0, 2, 2),
+      a: rect(0, 0, 2, 2),
+      b: rect(0, 2, 2, 2),
+      c: rect(2, 0, 2, 1),
+    }), 'moved', rect(0, 1, 2, 2));
+
+    expect(resolved?.get('moved')).toEqual(rect(0, 1, 2, 2));
+    expect(resolved?.get('a')).toEqual(rect(0, 3, 2, 2));
+    expect(resolved?.get('b')).toEqual(rect(0, 5, 2, 2));
+    expect(resolved?.get('c')).toEqual(rect(2, 0, 2, 1));
+  });
+
+  it('pushes tiles past fixed tiles', () => {
+    const resolved = resolveCollisions(positionsOf({
+      moved: rect(4, 0, 2, 2),
+      a: rect(0, 1, 2, 2),
+      fixed: rect(0, 3, 2, 1),
+    }), 'moved', rect(0, 0, 2, 2), new Set(['fixed']));
+
+    expect(resolved?.get('fixed')).toEqual(rect(0, 3, 2, 1));
+    expect(resolved?.get('a')).toEqual(rect(0, 4, 2, 2));
+  });
+
+  it('refuses targets that overlap a fixed tile', () => {
+    const positions = positionsOf({
+      moved: rect(4, 0, 2, 2),
+      fixed: rect(0, 0, 2, 2),
+    });
+
+    expect(resolveCollisions(positions, 'moved', rect(1, 1, 2, 2), new Set(['fixed']))).toBeNull();
+  });
+});
+
+describe('resolveGroupCollisions', () => {
+  it('places every target and pushes other tiles below all of them', () => {
+    const resolved = resolveGroupCollisions(
+      positionsOf({
+        a: rect(6, 0, 2, 2),
+        b: rect(6, 2, 2, 3),
+        other: rect(0, 0, 4, 1),
+      }),
+      positionsOf({ a: rect(0, 0, 2, 2), b: rect(2, 0, 2, 3) })
+    );
+
+    expect(resolved?.get('a')).toEqual(rect(0, 0, 2, 2));
+    expect(resolved?.get('b')).toEqual(rect(2, 0, 2, 3));
+    expect(resolved?.get('other')).toEqual(rect(0, 3, 4, 1));
+  });
+});
+
+describe('planSwap', () => {
+  it('trades places with the tile under the drop position', () => {
+    const swapped = planSwap(positionsOf({
+      a: rect(0, 0, 2, 2),
+      b: rect(2, 0, 2, 2),
+    }), 'a', rect(2, 0, 2, 2), 4);
+
+    expect(swapped?.get('a')).toEqual(rect(2, 0, 2, 2));
+    expect(swapped?.get('b')).toEqual(rect(0, 0, 2, 2));
+  });
+
+  it('moves the tile when the drop position is free', () => {
+    const moved = planSwap(positionsOf({ a: rect(0, 0, 2, 2) }), 'a', rect(2, 3, 2, 2), 4);
+
+    expect(moved?.get('a')).toEqual(rect(2, 3, 2, 2));
+  });
+
+  it('refuses swaps that do not fit the grid', () => {
+    const positions = positionsOf({
+      wide: rect(0, 0, 4, 1),
+      small: rect(4, 0, 2, 1),
+    });
+
+    expect(planSwap(positions, 'wide', rect(4, 0, 4, 1), 6)).toBeNull();
+  });
+
+  it('refuses swaps with fixed tiles', () => {
+    const positions = positionsOf({
+      a: rect(0, 0, 2, 2),
+      fixed: rect(2, 0, 2, 2),
+    });
+
+    expect(planSwap(positions, 'a', rect(2, 0, 2, 2), 4, new Set(['fixed']))).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LAYOUT_SCHEMA_VERSION, getLayoutSchemaVersion, migrateLayout } from '@/utils/layoutMigrations';
+
+beforeEach(() => {
+  vi.spyOn(console, 'debug').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('getLayoutSchemaVersion', () => {
+  it('treats unversioned data and the legacy export format as version 1', () => {
+    expect(getLayoutSchemaVersion({ tiles: [] })).toBe(1);
+    expect(getLayoutSchemaVersion({ version: '1.0', tiles: [] })).toBe(1);
+  });
+
+  it('reads numeric versions and rejects unreadable ones', () => {
+    expect(getLayoutSchemaVersion({ version: 2, tiles: [] })).toBe(2);
+    expect(getLayoutSchemaVersion({ version: true, tiles: [] })).toBeNaN();
+  });
+});
+
+describe('migrateLayout', () => {
+  it('rejects data that is not a layout', () => {
+    expect(() => migrateLayout(null)).toThrow('Invalid layout data format');
+    expect(() => migrateLayout({ name: 'No tiles' })).toThrow('Invalid layout data format');
+  });
+
+  it('rejects unreadable and newer versions', () => {
+    expect(() => migrateLayout({ version: 'beta', tiles: [] })).toThrow('Unrecognized layout version');
+    expect(() => migrateLayout({ version: LAYOUT_SCHEMA_VERSION + 1, tiles: [] })).toThrow('newer version of the app');
+  });
+
+  it('leaves current layouts unchanged apart from the version field', () => {
+    const layout = { version: LAYOUT_SCHEMA_VERSION, name: 'Markets', compactionMode: 'vertical', tiles: [{ id: 'tile-1' }] };
+
+    expect(migrateLayout(layout)).toEqual({ name: 'Markets', compactionMode: 'vertical', tiles: [{ id: 'tile-1' }] });
+  });
+
+  it('fills in version 2 layout defaults and drops invalid modes and lock flags', () => {
+    const migrated = migrateLayout({
+      version: '1.0',
+      name: 'Legacy',
+      compactionMode: 'sideways',
+      collisionMode: 'swap',
+      locked: 'yes',
+      tiles: [],
+    });
+
+    expect(migrated).toEqual({
+      name: 'Legacy',
+      gridColumns: 12,
+      compactionMode: 'none',
+      collisionMode: 'swap',
+      tiles: [],
+    });
+  });
+
+  it('keeps rejecting overlapping moves in layouts from before collision modes', () => {
+    expect(migrateLayout({ tiles: [] })).toMatchObject({ compactionMode: 'none', collisionMode: 'reject' });
+    expect(migrateLayout({ collisionMode: 'sideways', tiles: [] })).toMatchObject({ collisionMode: 'reject' });
+    expect(migrateLayout({ collisionMode: 'push', tiles: [] })).toMatchObject({ collisionMode: 'push' });
+  });
+
+  it('keeps only well-formed breakpoint positions and boolean lock flags of version 1 tiles', () => {
+    const migrated = migrateLayout({
+      tiles: [{
+        id: 'tile-1',
+        locked: 1,
+        breakpointPositions: {
+          mobile: { x: 0, y: 2, width: 4, height: 2, extra: true },
+          tablet: { x: 'left', y: 0, width: 4, height: 2 },
+          desktop: { x: 0, y: 0, width: 4, height: 2 },
+        },
+      }, {
+        id: 'tile-2',
+        locked: true,
+        breakpointPositions: 'none',
+      }],
+    });
+
+    expect(migrated.tiles).toEqual([
+      { id: 'tile-1', breakpointPositions: { mobile: { x: 0, y: 2, width: 4, height: 2 } } },
+      { id: 'tile-2', locked: true },
+    ]);
+  });
+
+  it('adds the version 1 display names to content without one', () => {
+    const migrated = migrateLayout({
+      tiles: [
+        { id: 'tile-1', content: { type: 'equity-quote', symbol: 'AAPL' } },
+        { id: 'tile-2', content: { type: 'news', displayName: 'Headlines', query: 'markets' } },
+        { id: 'tile-3', content: { type: 'watchlist', symbols: ['AAPL'] } },
+      ],
+    });
+
+    expect(migrated.tiles.map(tile => tile.content?.displayName)).toEqual(['Stock Quote', 'Headlines', undefined]);
+  });
+
+  it('does not modify its input', () => {
+    const tile = { id: 'tile-1', locked: 'no', content: { type: 'placeholder' } };
+    const layout = { tiles: [tile] };
+
+    migrateLayout(layout);
+
+    expect(layout).toEqual({ tiles: [{ id: 'tile-1', locked: 'no', content: { type: 'placeholder' } }] });
+  });
+});
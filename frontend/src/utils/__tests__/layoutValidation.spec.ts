@@ -0,0 +1,270 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { WATCHLIST_MAX_SYMBOLS, registerBuiltInTileContentPlugins } from '@/components/tile-content/plugins';
+import { validateLayout, validateTileContent } from '@/utils/layoutValidation';
+import { registerTileContentPlugin, type TileContentPlugin } from '@/utils/tileContentRegistry';
+import type { MigratedLayoutData } from '@/utils/layoutMigrations';
+
+/**
+ * Content type registered by the tests, as an in-house plugin would be
+ */
+const orderBookPlugin = {
+  type: 'order-book',
+  displayName: 'Order Book',
+  description: 'Bids and asks of a symbol',
+  icon: 'fas fa-list-ol',
+  defaultConfig: { symbol: 'AAPL', depth: 10, side: 'bid', venue: 'XNAS', tags: [] },
+  configSchema: [
+    { key: 'symbol', label: 'Symbol', kind: 'symbol' },
+    { key: 'depth', label: 'Depth', kind: 'number', min: 1, max: 20 },
+    {
+      key: 'side',
+      label: 'Side',
+      kind: 'select',
+      options: [{ value: 'bid', label: 'Bids' }, { value: 'ask', label: 'Asks' }],
+    },
+    { key: 'tags', label: 'Tags', kind: 'list', maxItems: 2 },
+  ],
+  requiredFields: ['symbol'],
+  size: { width: 2, height: 2, minWidth: 1, minHeight: 1 },
+  component: () => Promise.resolve({}),
+} as unknown as TileContentPlugin;
+
+/**
+ * Builds a valid layout with the given tiles
+ */
+function layoutWith(tiles: unknown[], extra: Record<string, unknown> = {}): MigratedLayoutData {
+  return {
+    name: 'Markets',
+    gridColumns: 12,
+    compactionMode: 'none',
+    collisionMode: 'push',
+    tiles,
+    ...extra,
+  } as MigratedLayoutData;
+}
+
+/**
+ * Builds a valid tile, overridden by the given fields
+ */
+function tileWith(fields: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    id: 'tile-1',
+    title: 'Apple',
+    x: 0,
+    y: 0,
+    width: 3,
+    height: 2,
+    content: { type: 'equity-quote', displayName: 'Stock Quote', symbol: 'AAPL' },
+    ...fields,
+  };
+}
+
+beforeAll(() => {
+  registerBuiltInTileContentPlugins();
+  registerTileContentPlugin(orderBookPlugin);
+});
+
+describe('validateLayout', () => {
+  it('accepts a valid layout without issues', () => {
+    const { issues, repaired } = validateLayout(layoutWith([tileWith()]));
+
+    expect(issues).toEqual([]);
+    expect(repaired.tiles).toHaveLength(1);
+  });
+
+  it('drops unknown fields and reports their paths', () => {
+    const { issues, repaired } = validateLayout(layoutWith([tileWith({ color: 'red' })], { theme: 'dark' }));
+
+    expect(issues.map(issue => issue.path)).toEqual(['theme', 'tiles[0].color']);
+    expect(issues.every(issue => issue.fixable)).toBe(true);
+    expect(repaired).not.toHaveProperty('theme');
+    expect(repaired.tiles[0]).not.toHaveProperty('color');
+  });
+
+  it('falls back to rejecting overlapping moves for an unknown collision mode', () => {
+    const { issues, repaired } = validateLayout(layoutWith([], { collisionMode: 'sideways' }));
+
+    expect(issues).toEqual([expect.objectContaining({ path: 'collisionMode', fixable: true })]);
+    expect(repaired.collisionMode).toBe('reject');
+  });
+
+  it('rounds and clamps sizes to the grid', () => {
+    const { issues, repaired } = validateLayout(layoutWith([tileWith({ width: 20.4, x: 2 })]));
+
+    expect(issues.map(issue => issue.path)).toEqual(['tiles[0].width', 'tiles[0].width', 'tiles[0].x']);
+    expect(repaired.tiles[0]).toMatchObject({ x: 0, width: 12 });
+  });
+
+  it('clamps sizes to the tile constraints and removes an inverted maximum', () => {
+    const { issues, repaired } = validateLayout(layoutWith([tileWith({ width: 1, minWidth: 4, maxWidth: 2 })]));
+
+    expect(issues.map(issue => issue.path)).toEqual(['tiles[0].maxWidth', 'tiles[0].width']);
+    expect(repaired.tiles[0]).toMatchObject({ width: 4, minWidth: 4 });
+    expect(repaired.tiles[0]).not.toHaveProperty('maxWidth');
+  });
+
+  it('replaces missing and duplicate tile IDs', () => {
+    const { issues, repaired } = validateLayout(layoutWith([
+      tileWith({ id: 'tile-3' }),
+      tileWith({ id: 'tile-3', y: 2 }),
+      tileWith({ id: undefined, y: 4 }),
+    ]));
+
+    expect(issues.map(issue => issue.path)).toEqual(['tiles[1].id', 'tiles[2].id']);
+    expect(repaired.tiles.map(tile => tile.id)).toEqual(['tile-3', 'tile-4', 'tile-5']);
+  });
+
+  it('moves overlapping tiles to the next free position', () => {
+    const { issues, repaired } = validateLayout(layoutWith([
+      tileWith({ id: 'tile-1' }),
+      tileWith({ id: 'tile-2', x: 1 }),
+    ]));
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ path: 'tiles[1]', fixable: true });
+    expect(repaired.tiles[1]).toMatchObject({ x: 3, y: 0 });
+  });
+
+  it('removes breakpoint positions outside their grid', () => {
+    const { issues, repaired } = validateLayout(layoutWith([tileWith({
+      breakpointPositions: {
+        mobile: { x: 3, y: 0, width: 4, height: 2 },
+        tablet: { x: 0, y: 0, width: 4, height: 2 },
+      },
+    })]));
+
+    expect(issues.map(issue => issue.path)).toEqual(['tiles[0].breakpointPositions.mobile']);
+    expect(repaired.tiles[0].breakpointPositions).toEqual({ tablet: { x: 0, y: 0, width: 4, height: 2 } });
+  });
+
+  it('repairs content fields and removes content of unknown types', () => {
+    const { issues, repaired } = validateLayout(layoutWith([
+      tileWith({
+        content: { type: 'news', query: 'markets', articleCount: 40, displayOptions: { showImages: 'yes' } },
+      }),
+      tileWith({ id: 'tile-2', y: 2, content: { type: 'heatmap' } }),
+    ]));
+
+    expect(issues.map(issue => issue.path)).toEqual([
+      'tiles[0].content.displayName',
+      'tiles[0].content.articleCount',
+      'tiles[0].content.displayOptions.showImages',
+      'tiles[1].content.type',
+    ]);
+    expect(issues.every(issue => issue.fixable)).toBe(true);
+    expect(repaired.tiles[0].content).toMatchObject({ displayName: 'News Feed', articleCount: 10, displayOptions: {} });
+    expect(repaired.tiles[1]).not.toHaveProperty('content');
+  });
+
+  it('reports content that needs user input as not fixable', () => {
+    const { issues } = validateLayout(layoutWith([
+      tileWith({ content: { type: 'equity-quote', displayName: 'Stock Quote', symbol: 'not a symbol' } }),
+      tileWith({ id: 'tile-2', y: 2, content: { type: 'news', displayName: 'News Feed', query: '' } }),
+    ]));
+
+    expect(issues).toEqual([
+      expect.objectContaining({ path: 'tiles[0].content.symbol', fixable: false }),
+      expect.objectContaining({ path: 'tiles[1].content.query', fixable: false }),
+    ]);
+  });
+
+  it('removes invalid watchlist symbols and requires at least one', () => {
+    const { issues, repaired } = validateLayout(layoutWith([
+      tileWith({ content: { type: 'watchlist', displayName: 'Watchlist', symbols: [] } }),
+      tileWith({ id: 'tile-2', y: 2, content: { type: 'watchlist', displayName: 'Watchlist', symbols: ['AAPL', 'not a symbol'] } }),
+    ]));
+
+    expect(issues).toEqual([
+      expect.objectContaining({ path: 'tiles[0].content.symbols', fixable: false }),
+      expect.objectContaining({ path: 'tiles[1].content.symbols', fixable: true }),
+    ]);
+    expect(repaired.tiles[1].content).toMatchObject({ symbols: ['AAPL'] });
+  });
+
+  it('shortens watchlists to the plugin\'s symbol limit', () => {
+    const symbols = Array.from({ length: 55 }, (_, index) => `SYM${index}`);
+    const { issues, repaired } = validateLayout(layoutWith([
+      tileWith({ content: { type: 'watchlist', displayName: 'Watchlist', symbols } }),
+    ]));
+
+    expect(issues).toEqual([expect.objectContaining({ path: 'tiles[0].content.symbols', fixable: true })]);
+    expect(repaired.tiles[0].content).toMatchObject({ symbols: symbols.slice(0, WATCHLIST_MAX_SYMBOLS) });
+  });
+
+  it('resets an unknown chart range to the default', () => {
+    const { issues, repaired } = validateLayout(layoutWith([
+      tileWith({ content: { type: 'price-chart', displayName: 'Price Chart', symbol: 'AAPL', range: '10Y' } }),
+    ]));
+
+    expect(issues).toEqual([expect.objectContaining({ path: 'tiles[0].content.range', fixable: true })]);
+    expect(repaired.tiles[0].content).toMatchObject({ range: '1M' });
+  });
+
+  it('reports an invalid chart symbol as not fixable', () => {
+    const { issues } = validateLayout(layoutWith([
+      tileWith({ content: { type: 'price-chart', displayName: 'Price Chart', symbol: 42, range: '1Y' } }),
+    ]));
+
+    expect(issues).toEqual([expect.objectContaining({ path: 'tiles[0].content.symbol', fixable: false })]);
+  });
+
+  it('reports non-numeric positions as not fixable', () => {
+    const { issues } = validateLayout(layoutWith([tileWith({ x: 'left' })]));
+
+    expect(issues).toEqual([expect.objectContaining({ path: 'tiles[0].x', fixable: false })]);
+  });
+});
+
+describe('validateTileContent', () => {
+  it('reports paths relative to the content', () => {
+    const { issues, repaired } = validateTileContent({ type: 'placeholder', message: 42 });
+
+    expect(issues.map(issue => issue.path)).toEqual(['content.displayName', 'content.message']);
+    expect(repaired).toEqual({ type: 'placeholder', displayName: 'Placeholder' });
+  });
+
+  it('reports missing required fields', () => {
+    const { issues } = validateTileContent({ type: 'news', displayName: 'News Feed' });
+
+    expect(issues).toEqual([expect.objectContaining({ path: 'content.query', fixable: false })]);
+  });
+
+  it('does not modify its input', () => {
+    const content = { type: 'news', displayName: 'News Feed', query: 'markets', displayOptions: { showSource: 'yes' } };
+
+    const { repaired } = validateTileContent(content);
+
+    expect(repaired).toMatchObject({ displayOptions: {} });
+    expect(content.displayOptions).toEqual({ showSource: 'yes' });
+  });
+});
+
+describe('content of registered plugins', () => {
+  it('is checked against the plugin\'s configuration schema', () => {
+    const { issues, repaired } = validateTileContent({
+      type: 'order-book',
+      displayName: 'Order Book',
+      symbol: 'not a symbol',
+      depth: 50,
+      side: 'mid',
+      tags: ['a', 'b', 'c'],
+      venue: 3,
+    });
+
+    expect(issues).toEqual([
+      expect.objectContaining({ path: 'content.symbol', fixable: false }),
+      expect.objectContaining({ path: 'content.depth', fixable: true }),
+      expect.objectContaining({ path: 'content.side', fixable: true }),
+      expect.objectContaining({ path: 'content.tags', fixable: true }),
+      expect.objectContaining({ path: 'content.venue', fixable: true }),
+    ]);
+    expect(repaired).toEqual({
+      type: 'order-book',
+      displayName: 'Order Book',
+      symbol: 'not a symbol',
+      depth: 20,
+      side: 'bid',
+      tags: ['a', 'b'],
+    });
+  });
+});
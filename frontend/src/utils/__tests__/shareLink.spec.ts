@@ -0,0 +1,91 @@
+import { deflateRawSync } from 'node:zlib';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MAX_SHARE_URL_LENGTH, buildShareUrl, decodeShareData, encodeShareData } from '@/utils/shareLink';
+
+/**
+ * Layout in the export format, with the given number of tiles
+ */
+function layoutWith(tileCount: number): Record<string, unknown> {
+  return {
+    version: 2,
+    name: 'Markets',
+    gridColumns: 12,
+    tiles: Array.from({ length: tileCount }, (_, index) => ({
+      id: `tile-${index + 1}`,
+      title: `Quote ${index + 1}`,
+      x: (index % 4) * 3,
+      y: Math.floor(index / 4) * 2,
+      width: 3,
+      height: 2,
+      content: { type: 'equity-quote', displayName: 'Stock Quote', symbol: 'AAPL' },
+    })),
+  };
+}
+
+/**
+ * Encodes bytes as base64url, as share links do
+ */
+function toBase64Url(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('base64url');
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('encodeShareData and decodeShareData', () => {
+  it('round-trip compressed layouts', async () => {
+    const layout = layoutWith(8);
+    const fragment = await encodeShareData(layout);
+
+    expect(fragment[0]).toBe('z');
+    expect(fragment).toMatch(/^z[A-Za-z0-9_-]+$/);
+    await expect(decodeShareData(`#${fragment}`)).resolves.toEqual(layout);
+  });
+
+  it('fall back to uncompressed JSON without the Compression Streams API', async () => {
+    vi.stubGlobal('CompressionStream', undefined);
+
+    const layout = layoutWith(1);
+    const fragment = await encodeShareData(layout);
+
+    expect(fragment[0]).toBe('j');
+    await expect(decodeShareData(fragment)).resolves.toEqual(layout);
+  });
+
+  it('keep a typical dashboard within the share URL limit', async () => {
+    const url = buildShareUrl('https://example.com/share', await encodeShareData(layoutWith(20)));
+
+    expect(url.length).toBeLessThanOrEqual(MAX_SHARE_URL_LENGTH);
+  });
+});
+
+describe('decodeShareData', () => {
+  it('rejects an empty fragment', async () => {
+    await expect(decodeShareData('#')).rejects.toThrow('does not contain a dashboard');
+  });
+
+  it('rejects unknown encodings', async () => {
+    await expect(decodeShareData('#xabc')).rejects.toThrow('unknown format');
+  });
+
+  it('rejects damaged data', async () => {
+    await expect(decodeShareData('#z!!!')).rejects.toThrow('damaged');
+    await expect(decodeShareData(`#z${toBase64Url(new Uint8Array([1, 2, 3, 4]))}`)).rejects.toThrow('damaged');
+    await expect(decodeShareData(`#j${toBase64Url(new TextEncoder().encode('{"tiles":'))}`)).rejects.toThrow('damaged');
+  });
+
+  it('rejects compressed links in browsers without the Compression Streams API', async () => {
+    const fragment = await encodeShareData(layoutWith(1));
+    vi.stubGlobal('DecompressionStream', undefined);
+
+    await expect(decodeShareData(fragment)).rejects.toThrow('cannot open compressed share links');
+  });
+
+  it('rejects layouts that decompress beyond the size limit', async () => {
+    const oversized = JSON.stringify({ name: ' '.repeat(6 * 1024 * 1024), tiles: [] });
+    const fragment = `z${toBase64Url(deflateRawSync(oversized))}`;
+
+    await expect(decodeShareData(fragment)).rejects.toThrow('too large');
+  });
+});
@@ -0,0 +1,151 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { registerBuiltInTileContentPlugins } from '@/components/tile-content/plugins';
+import {
+  TILE_CLIPBOARD_FORMAT,
+  TILE_CLIPBOARD_VERSION,
+  parseTileClipboard,
+  sanitizeClipboardTile,
+  serializeTileClipboard,
+} from '@/utils/tileClipboard';
+import type { Tile } from '@/types/dashboard';
+
+/**
+ * Builds clipboard text holding the given tiles
+ */
+function clipboardText(tiles: unknown[], version: unknown = TILE_CLIPBOARD_VERSION): string {
+  return JSON.stringify({ format: TILE_CLIPBOARD_FORMAT, version, tiles });
+}
+
+/**
+ * Builds a tile on the dashboard
+ */
+function tileAt(id: string, x: number, y: number): Tile {
+  return {
+    id,
+    title: `Tile ${id}`,
+    x,
+    y,
+    width: 2,
+    height: 2,
+    locked: true,
+    content: { type: 'equity-quote', displayName: 'Stock Quote', symbol: 'AAPL' },
+    created: new Date(),
+    modified: new Date(),
+  };
+}
+
+beforeAll(() => {
+  registerBuiltInTileContentPlugins();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('serializeTileClipboard', () => {
+  it('writes tiles in reading order without IDs, positions or lock flags', () => {
+    const text = serializeTileClipboard([tileAt('b', 2, 0), tileAt('a', 0, 0)]);
+    const data = JSON.parse(text);
+
+    expect(data.format).toBe(TILE_CLIPBOARD_FORMAT);
+    expect(data.tiles.map((tile: { title: string }) => tile.title)).toEqual(['Tile a', 'Tile b']);
+    expect(Object.keys(data.tiles[0]).sort()).toEqual(['content', 'height', 'title', 'width']);
+  });
+});
+
+describe('parseTileClipboard', () => {
+  it('ignores text that is not tile data', () => {
+    expect(parseTileClipboard('hello')).toBeNull();
+    expect(parseTileClipboard('{"format":"other","tiles":[]}')).toBeNull();
+  });
+
+  it('rejects payloads from a newer version', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(parseTileClipboard(clipboardText([], TILE_CLIPBOARD_VERSION + 1))).toBeNull();
+  });
+
+  it('round-trips serialized tiles', () => {
+    const tiles = parseTileClipboard(serializeTileClipboard([tileAt('a', 0, 0)]));
+
+    expect(tiles).toEqual([{
+      title: 'Tile a',
+      width: 2,
+      height: 2,
+      content: { type: 'equity-quote', displayName: 'Stock Quote', symbol: 'AAPL' },
+    }]);
+  });
+
+  it('skips invalid tiles individually', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const tiles = parseTileClipboard(clipboardText([
+      { title: 'Valid', width: 1, height: 1 },
+      { title: 'Fractional', width: 1.5, height: 1 },
+      { width: 1, height: 1 },
+      { title: 'Unknown type', width: 1, height: 1, content: { type: 'heatmap' } },
+      { title: 'No symbol', width: 1, height: 1, content: { type: 'equity-quote', displayName: 'Stock Quote' } },
+    ]));
+
+    expect(tiles?.map(tile => tile.title)).toEqual(['Valid']);
+  });
+});
+
+describe('sanitizeClipboardTile', () => {
+  it('keeps only clipboard tile fields', () => {
+    const tile = sanitizeClipboardTile({
+      id: 'tile-9',
+      title: 'Pasted',
+      x: 4,
+      width: 2,
+      height: 2,
+      locked: true,
+      breakpointPositions: { mobile: { x: 0, y: 0, width: 4, height: 2 } },
+      extra: 'value',
+    });
+
+    expect(tile).toEqual({ title: 'Pasted', width: 2, height: 2 });
+  });
+
+  it('narrows the width and fits size constraints around the size', () => {
+    const tile = sanitizeClipboardTile({
+      title: 'Wide',
+      width: 16,
+      height: 2,
+      minWidth: 14,
+      minHeight: 0,
+      maxHeight: 1,
+      maxWidth: 'wide',
+    }, 12);
+
+    expect(tile).toEqual({ title: 'Wide', width: 12, height: 2, minWidth: 12, maxHeight: 2 });
+  });
+
+  it('repairs fixable content problems', () => {
+    const tile = sanitizeClipboardTile({
+      title: 'News',
+      width: 2,
+      height: 2,
+      content: { type: 'news', query: 'markets', articleCount: 25, color: 'red' },
+    });
+
+    expect(tile?.content).toEqual({ type: 'news', displayName: 'News Feed', query: 'markets', articleCount: 10 });
+  });
+
+  it('rejects content that fails validation', () => {
+    expect(sanitizeClipboardTile({
+      title: 'Watchlist',
+      width: 2,
+      height: 2,
+      content: { type: 'watchlist', displayName: 'Watchlist', symbols: ['not a symbol'] },
+    })).toBeNull();
+  });
+
+  it('does not share content with the input', () => {
+    const content = { type: 'equity-quote', displayName: 'Stock Quote', symbol: 'AAPL' };
+    const tile = sanitizeClipboardTile({ title: 'Quote', width: 2, height: 2, content });
+
+    expect(tile?.content).toEqual(content);
+    expect(tile?.content).not.toBe(content);
+  });
+});
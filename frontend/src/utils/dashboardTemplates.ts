@@ -0,0 +1,572 @@
+/**
+ * Dashboard Template Utilities
+ *
+ * Templates are dashboard layouts with placeholders in their tile titles and
+ * content, so that a new dashboard can be started from a ready-made
+ * arrangement of tiles instead of an empty grid. Filling in the parameters of
+ * a template produces layout data in the export format, which is imported as
+ * a new dashboard.
+ *
+ * Placeholders:
+ * - `{{key}}` is replaced with the value of a parameter
+ * - `{{key.N}}` is replaced with the N-th item (from 0) of a list parameter;
+ *   tiles that refer to an item beyond the end of the list are left out
+ *
+ * @author Dashboard System
+ * @version 1.0.0
+ */
+
+import type { DashboardLayout, Tile, TileContent } from '@/types/dashboard';
+import { LAYOUT_SCHEMA_VERSION } from '@/utils/layoutMigrations';
+import type { SerializedTile } from '@/utils/layoutSerialization';
+import { sortByReadingOrder } from '@/utils/gridLayout';
+
+/**
+ * Kind of value a template parameter takes
+ *
+ * - `text`: a single value
+ * - `list`: comma-separated values
+ */
+export type TemplateParameterKind = 'text' | 'list';
+
+/**
+ * Input asked for when a dashboard is created from a template
+ *
+ * @interface TemplateParameter
+ */
+export interface TemplateParameter {
+  /** Name used in placeholders */
+  key: string;
+
+  /** Label shown in the form */
+  label: string;
+
+  /** Kind of value */
+  kind: TemplateParameterKind;
+
+  /** Value used when the input is left empty */
+  defaultValue: string;
+
+  /** Optional help text shown below the input */
+  hint?: string;
+}
+
+/**
+ * Tile of a template, with placeholders in its title and content
+ */
+export type TemplateTile = Omit<Tile, 'id' | 'created' | 'modified'>;
+
+/**
+ * Parameterized dashboard layout
+ */
+export type TemplateLayout = Pick<DashboardLayout, 'gridColumns' | 'compactionMode' | 'collisionMode'> & {
+  tiles: TemplateTile[];
+};
+
+/**
+ * Dashboard template
+ *
+ * @interface DashboardTemplate
+ */
+export interface DashboardTemplate {
+  /** Unique identifier of the template */
+  id: string;
+
+  /** Name shown in the gallery and used for new dashboards */
+  name: string;
+
+  /** Short description of what the template shows */
+  description: string;
+
+  /** Font Awesome icon class */
+  icon: string;
+
+  /** Whether the template ships with the app (built-in templates cannot be deleted) */
+  builtIn: boolean;
+
+  /** Inputs asked for when a dashboard is created */
+  parameters: TemplateParameter[];
+
+  /** Parameterized layout */
+  layout: TemplateLayout;
+
+  /** Time the template was saved, as an ISO string (user templates only) */
+  created?: string;
+}
+
+/**
+ * Layout data produced by `instantiateTemplate`, in the export format
+ */
+export interface TemplateLayoutData {
+  version: number;
+  name: string;
+  gridColumns: number;
+  compactionMode?: DashboardLayout['compactionMode'];
+  collisionMode?: DashboardLayout['collisionMode'];
+  tiles: Array<TemplateTile & { id: string }>;
+}
+
+/**
+ * Matches a placeholder, capturing the parameter key and the optional list index
+ */
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z][\w-]*)(?:\.(\d+))?\s*\}\}/g;
+
+/**
+ * Default display options of stock quote tiles
+ */
+const QUOTE_DISPLAY_OPTIONS = {
+  showChange: true,
+  showPercentChange: true,
+  showVolume: true,
+  showChart: false,
+};
+
+/**
+ * Default display options of news tiles
+ */
+const NEWS_DISPLAY_OPTIONS = {
+  showImages: false,
+  showSource: true,
+  showTimestamp: true,
+  compactView: false,
+};
+
+/**
+ * Creates a template tile
+ *
+ * @param title - Tile title
+ * @param x - Column
+ * @param y - Row
+ * @param width - Width in grid units
+ * @param height - Height in grid units
+ * @param content - Tile content
+ * @returns Template tile
+ */
+function templateTile(
+  title: string,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  content: TileContent
+): TemplateTile {
+  return { title, x, y, width, height, minWidth: 1, minHeight: 1, content };
+}
+
+/**
+ * Creates stock quote content
+ *
+ * @param symbol - Symbol or placeholder
+ * @param showChart - Whether to show the price chart
+ * @returns Tile content
+ */
+function quoteContent(symbol: string, showChart: boolean = false): TileContent {
+  return {
+    type: 'equity-quote',
+    displayName: 'Stock Quote',
+    autoRefresh: true,
+    refreshInterval: 60,
+    symbol,
+    displayOptions: { ...QUOTE_DISPLAY_OPTIONS, showChart },
+  };
+}
+
+/**
+ * Creates news feed content
+ *
+ * @param query - Search query or placeholder
+ * @param articleCount - Number of articles to show
+ * @param compactView - Whether to use the compact list
+ * @returns Tile content
+ */
+function newsContent(query: string, articleCount: number = 5, compactView: boolean = false): TileContent {
+  return {
+    type: 'news',
+    displayName: 'News Feed',
+    autoRefresh: true,
+    refreshInterval: 300,
+    query,
+    articleCount,
+    language: 'en',
+    country: 'US',
+    displayOptions: { ...NEWS_DISPLAY_OPTIONS, compactView },
+  };
+}
+
+/**
+ * Creates a row of quote tiles, one per item of a list parameter
+ *
+ * @param key - Key of the list parameter
+ * @param count - Number of tiles
+ * @param y - Row
+ * @param width - Width of each tile
+ * @param height - Height of each tile
+ * @returns Template tiles, left to right
+ */
+function quoteRow(key: string, count: number, y: number, width: number, height: number): TemplateTile[] {
+  return Array.from({ length: count }, (_, index) =>
+    templateTile(`{{${key}.${index}}}`, index * width, y, width, height, quoteContent(`{{${key}.${index}}}`))
+  );
+}
+
+/**
+ * Templates that ship with the app
+ */
+export const BUILT_IN_TEMPLATES: DashboardTemplate[] = [
+  {
+    id: 'us-market-open',
+    name: 'US Market Open',
+    description: 'Major US index ETFs and the most watched stocks, with market headlines below.',
+    icon: 'fas fa-bell',
+    builtIn: true,
+    parameters: [
+      {
+        key: 'indices',
+        label: 'Index funds',
+        kind: 'list',
+        defaultValue: 'SPY, QQQ, DIA, IWM',
+        hint: 'Up to 4 symbols, separated by commas',
+      },
+      {
+        key: 'stocks',
+        label: 'Stocks',
+        kind: 'list',
+        defaultValue: 'AAPL, MSFT, NVDA, AMZN, GOOGL, TSLA',
+        hint: 'Up to 6 symbols, separated by commas',
+      },
+      { key: 'topic', label: 'News topic', kind: 'text', defaultValue: 'stock market' },
+    ],
+    layout: {
+      gridColumns: 12,
+      compactionMode: 'vertical',
+      collisionMode: 'push',
+      tiles: [
+        ...quoteRow('indices', 4, 0, 3, 2),
+        ...quoteRow('stocks', 6, 2, 2, 2),
+        templateTile('Market News: {{topic}}', 0, 4, 12, 4, newsContent('{{topic}}', 8)),
+      ],
+    },
+  },
+  {
+    id: 'global-indices-fx',
+    name: 'Global Indices + FX',
+    description: 'Index funds tracking the main regions next to funds tracking the major currencies.',
+    icon: 'fas fa-globe',
+    builtIn: true,
+    parameters: [
+      {
+        key: 'indices',
+        label: 'Index funds',
+        kind: 'list',
+        defaultValue: 'SPY, QQQ, ISF:LON, EXS1:ETR, 1321:TYO, VWRL:LON',
+        hint: 'Up to 6 symbols, with the exchange for non-US listings (e.g. ISF:LON), separated by commas',
+      },
+      {
+        key: 'currencies',
+        label: 'Currency funds',
+        kind: 'list',
+        defaultValue: 'UUP, FXE, FXB, FXY',
+        hint: 'Up to 4 symbols, separated by commas',
+      },
+    ],
+    layout: {
+      gridColumns: 12,
+      compactionMode: 'vertical',
+      collisionMode: 'push',
+      tiles: [
+        ...quoteRow('indices', 6, 0, 2, 2),
+        ...quoteRow('currencies', 4, 2, 3, 2),
+        templateTile('Global Markets', 0, 4, 6, 4, newsContent('global markets')),
+        templateTile('Currency Markets', 6, 4, 6, 4, newsContent('forex')),
+      ],
+    },
+  },
+  {
+    id: 'tech-news-desk',
+    name: 'Tech News Desk',
+    description: 'A news feed per technology topic, with quotes of the companies you follow.',
+    icon: 'fas fa-newspaper',
+    builtIn: true,
+    parameters: [
+      {
+        key: 'topics',
+        label: 'Topics',
+        kind: 'list',
+        defaultValue: 'artificial intelligence, semiconductors, cloud computing',
+        hint: 'Up to 3 topics, separated by commas',
+      },
+      {
+        key: 'stocks',
+        label: 'Companies',
+        kind: 'list',
+        defaultValue: 'AAPL, MSFT, NVDA, GOOGL',
+        hint: 'Up to 4 symbols, separated by commas',
+      },
+    ],
+    layout: {
+      gridColumns: 12,
+      compactionMode: 'vertical',
+      collisionMode: 'push',
+      tiles: [
+        ...quoteRow('stocks', 4, 0, 3, 2),
+        ...Array.from({ length: 3 }, (_, index) =>
+          templateTile(`{{topics.${index}}}`, index * 4, 2, 4, 5, newsContent(`{{topics.${index}}}`, 6, true))
+        ),
+      ],
+    },
+  },
+  {
+    id: 'single-stock-deep-dive',
+    name: 'Single-Stock Deep Dive',
+    description: 'One stock with its chart, company news, earnings coverage and its peers.',
+    icon: 'fas fa-search-dollar',
+    builtIn: true,
+    parameters: [
+      { key: 'symbol', label: 'Symbol', kind: 'text', defaultValue: 'AAPL' },
+      { key: 'company', label: 'Company name', kind: 'text', defaultValue: 'Apple' },
+      {
+        key: 'peers',
+        label: 'Peers',
+        kind: 'list',
+        defaultValue: 'MSFT, GOOGL, AMZN',
+        hint: 'Up to 3 symbols, separated by commas',
+      },
+    ],
+    layout: {
+      gridColumns: 12,
+      compactionMode: 'vertical',
+      collisionMode: 'push',
+      tiles: [
+        templateTile('{{symbol}}', 0, 0, 6, 4, quoteContent('{{symbol}}', true)),
+        templateTile('{{company}} News', 6, 0, 6, 4, newsContent('{{company}}', 6)),
+        ...quoteRow('peers', 3, 4, 2, 2),
+        templateTile('{{company}} Earnings', 6, 4, 6, 4, newsContent('{{company}} earnings', 5, true)),
+        templateTile('Notes', 0, 6, 6, 2, {
+          type: 'placeholder',
+          displayName: 'Placeholder',
+          message: 'Notes on {{company}}',
+        }),
+      ],
+    },
+  },
+];
+
+/**
+ * Splits the value of a list parameter into its items
+ *
+ * @param value - Comma-separated values
+ * @returns Non-empty, trimmed items
+ */
+export function parseListValue(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Replaces the placeholders in every string of a value
+ *
+ * @param value - Value to fill in (strings, arrays and plain objects are visited)
+ * @param resolve - Returns the replacement of a placeholder, or null if it cannot be filled in
+ * @returns Filled-in copy, or null if any placeholder cannot be filled in
+ *
+ * Time Complexity: O(n) where n is the size of the value
+ * Space Complexity: O(n)
+ */
+function fillPlaceholders<T>(value: T, resolve: (key: string, index: number | null) => string | null): T | null {
+  if (typeof value === 'string') {
+    let complete = true;
+    const filled = value.replace(PLACEHOLDER_PATTERN, (match, key: string, index?: string) => {
+      const replacement = resolve(key, index === undefined ? null : Number(index));
+      if (replacement === null) complete = false;
+      return replacement ?? match;
+    });
+    return complete ? (filled as T) : null;
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.map(item => fillPlaceholders(item, resolve));
+    return items.includes(null) ? null : (items as T);
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const filled = fillPlaceholders(item, resolve);
+      if (filled === null) return null;
+      result[key] = filled;
+    }
+    return result as T;
+  }
+
+  return value;
+}
+
+/**
+ * Creates layout data from a template
+ *
+ * Empty inputs fall back to the default value of the parameter. Tiles that
+ * refer to a list item beyond the values given are left out, so shorter lists
+ * produce fewer tiles.
+ *
+ * @param template - Template to fill in
+ * @param values - Input per parameter key
+ * @param name - Name of the new dashboard (defaults to the template name)
+ * @returns Layout data in the export format
+ * @throws {Error} If no tile remains after filling in the parameters
+ *
+ * @example
+ * ```typescript
+ * const layoutData = instantiateTemplate(template, { symbol: 'MSFT', company: 'Microsoft' });
+ * dashboardStore.importLayoutAsDashboard(layoutData);
+ * ```
+ */
+export function instantiateTemplate(
+  template: DashboardTemplate,
+  values: Record<string, string>,
+  name: string = template.name
+): TemplateLayoutData {
+  const parameters = new Map(template.parameters.map(parameter => {
+    const value = values[parameter.key]?.trim() || parameter.defaultValue;
+    return [parameter.key, { kind: parameter.kind, value, items: parseListValue(value) }];
+  }));
+
+  const resolve = (key: string, index: number | null): string | null => {
+    const parameter = parameters.get(key);
+    if (!parameter) return null;
+    if (index === null) {
+      return parameter.kind === 'list' ? parameter.items.join(', ') : parameter.value;
+    }
+    return parameter.kind === 'list' ? parameter.items[index] ?? null : null;
+  };
+
+  const tiles = template.layout.tiles
+    .map(tile => fillPlaceholders(tile, resolve))
+    .filter((tile): tile is TemplateTile => tile !== null)
+    .map((tile, index) => ({ ...tile, id: `tile-${index + 1}` }));
+
+  if (tiles.length === 0) {
+    throw new Error(`Template "${template.name}" has no tiles for the values given`);
+  }
+
+  return {
+    version: LAYOUT_SCHEMA_VERSION,
+    name,
+    gridColumns: template.layout.gridColumns,
+    compactionMode: template.layout.compactionMode,
+    collisionMode: template.layout.collisionMode,
+    tiles,
+  };
+}
+
+/**
+ * Replaces every occurrence of a value in a tile title with a placeholder
+ *
+ * @param title - Tile title
+ * @param value - Value to replace
+ * @param placeholder - Placeholder to insert
+ * @returns Title with placeholders
+ */
+function replaceInTitle(title: string, value: string, placeholder: string): string {
+  return title.split(value).join(placeholder);
+}
+
+/**
+ * Creates a template from a dashboard
+ *
+ * The symbols of stock quote tiles become the `symbols` list parameter and
+ * the queries of news tiles become the `topics` list parameter, each with the
+ * current values as defaults. Occurrences of these values in tile titles are
+ * replaced as well.
+ *
+ * @param layout - Dashboard to save as a template
+ * @param id - ID of the template
+ * @param name - Name of the template
+ * @param description - Description of the template
+ * @returns User template
+ *
+ * Time Complexity: O(n) where n is number of tiles
+ * Space Complexity: O(n)
+ */
+export function createTemplateFromLayout(
+  layout: DashboardLayout,
+  id: string,
+  name: string,
+  description: string = ''
+): DashboardTemplate {
+  const symbols: string[] = [];
+  const topics: string[] = [];
+
+  const tiles = sortByReadingOrder(layout.tiles).map(tile => {
+    const templateTile = JSON.parse(JSON.stringify(tile)) as TemplateTile & Partial<SerializedTile>;
+    delete templateTile.id;
+    delete templateTile.created;
+    delete templateTile.modified;
+    const content = templateTile.content;
+
+    if (content?.type === 'equity-quote' && content.symbol) {
+      if (!symbols.includes(content.symbol)) symbols.push(content.symbol);
+      const placeholder = `{{symbols.${symbols.indexOf(content.symbol)}}}`;
+      templateTile.title = replaceInTitle(templateTile.title, content.symbol, placeholder);
+      content.symbol = placeholder;
+    } else if (content?.type === 'news' && content.query) {
+      if (!topics.includes(content.query)) topics.push(content.query);
+      const placeholder = `{{topics.${topics.indexOf(content.query)}}}`;
+      templateTile.title = replaceInTitle(templateTile.title, content.query, placeholder);
+      content.query = placeholder;
+    }
+
+    return templateTile;
+  });
+
+  const parameters: TemplateParameter[] = [];
+  if (symbols.length > 0) {
+    parameters.push({
+      key: 'symbols',
+      label: 'Symbols',
+      kind: 'list',
+      defaultValue: symbols.join(', '),
+      hint: symbols.length === 1 ? 'One symbol' : `Up to ${symbols.length} symbols, separated by commas`,
+    });
+  }
+  if (topics.length > 0) {
+    parameters.push({
+      key: 'topics',
+      label: 'News topics',
+      kind: 'list',
+      defaultValue: topics.join(', '),
+      hint: topics.length === 1 ? 'One topic' : `Up to ${topics.length} topics, separated by commas`,
+    });
+  }
+
+  return {
+    id,
+    name,
+    description: description || `${layout.tiles.length} tiles from "${layout.name}"`,
+    icon: 'fas fa-user',
+    builtIn: false,
+    parameters,
+    layout: {
+      gridColumns: layout.gridColumns,
+      compactionMode: layout.compactionMode,
+      collisionMode: layout.collisionMode,
+      tiles,
+    },
+    created: new Date().toISOString(),
+  };
+}
+
+/**
+ * Checks whether a stored value has the shape of a dashboard template
+ *
+ * @param value - Value read from storage
+ * @returns True if the value can be used as a template
+ */
+export function isDashboardTemplate(value: unknown): value is DashboardTemplate {
+  if (typeof value !== 'object' || value === null) return false;
+
+  const template = value as Partial<DashboardTemplate>;
+  return typeof template.id === 'string' &&
+    typeof template.name === 'string' &&
+    Array.isArray(template.parameters) &&
+    typeof template.layout === 'object' && template.layout !== null &&
+    Array.isArray(template.layout.tiles);
+}
@@ -0,0 +1,370 @@
+/**
+ * Grid Layout Utilities
+ *
+ * Pure functions for reasoning about tile arrangements on the dashboard grid.
+ * They never mutate their inputs, which keeps them usable from the store,
+ * composables and previews alike.
+ *
+ * Features:
+ * - Overlap detection between tile rectangles
+ * - First-fit placement in reading order
+ * - Derivation of per-breakpoint arrangements from the desktop layout
+ * - Vertical compaction ("gravity")
+ * - Push-down collision resolution, for single tiles and groups
+ * - Swapping tiles on drop
+ *
+ * @author Dashboard System
+ * @version 1.0.0
+ */
+
+import type { Breakpoint, Tile, TilePosition } from '@/types/dashboard';
+
+/**
+ * Upper bound for row scans, preventing runaway searches on corrupted layouts
+ */
+const MAX_SCAN_ROWS = 1000;
+
+/**
+ * Checks whether two tile rectangles overlap
+ *
+ * @param a - First rectangle
+ * @param b - Second rectangle
+ * @returns True if the rectangles share at least one grid cell
+ *
+ * Time Complexity: O(1)
+ * Space Complexity: O(1)
+ */
+export function positionsOverlap(a: TilePosition, b: TilePosition): boolean {
+  return !(
+    a.x >= b.x + b.width ||
+    a.x + a.width <= b.x ||
+    a.y >= b.y + b.height ||
+    a.y + a.height <= b.y
+  );
+}
+
+/**
+ * Extracts the desktop position of a tile
+ *
+ * @param tile - Tile to read
+ * @returns Desktop position and size
+ */
+export function getDesktopPosition(tile: Tile): TilePosition {
+  return { x: tile.x, y: tile.y, width: tile.width, height: tile.height };
+}
+
+/**
+ * Clamps a position so that it fits inside a grid with the given column count
+ *
+ * @param position - Position to clamp
+ * @param columns - Number of grid columns
+ * @returns Position with width and x inside the grid
+ */
+export function clampToColumns(position: TilePosition, columns: number): TilePosition {
+  const width = Math.max(1, Math.min(position.width, columns));
+
+  return {
+    x: Math.max(0, Math.min(position.x, columns - width)),
+    y: Math.max(0, position.y),
+    width,
+    height: Math.max(1, position.height),
+  };
+}
+
+/**
+ * Finds the first free position for a rectangle in reading order
+ *
+ * Scanning starts at `start` (inclusive) and proceeds left to right, top to
+ * bottom, so that consecutive placements preserve their relative order.
+ *
+ * @param occupied - Rectangles already on the grid
+ * @param width - Width of the rectangle to place
+ * @param height - Height of the rectangle to place
+ * @param columns - Number of grid columns
+ * @param start - Earliest acceptable position (defaults to the top-left cell)
+ * @returns Top-left position of the first free spot
+ *
+ * Time Complexity: O(r * c * n) where r is rows scanned, c columns and n occupied rectangles
+ * Space Complexity: O(1)
+ */
+export function findFirstFit(
+  occupied: TilePosition[],
+  width: number,
+  height: number,
+  columns: number,
+  start: { x: number; y: number } = { x: 0, y: 0 }
+): { x: number; y: number } {
+  const fittedWidth = Math.min(width, columns);
+
+  for (let y = start.y; y < start.y + MAX_SCAN_ROWS; y++) {
+    const firstX = y === start.y ? start.x : 0;
+
+    for (let x = firstX; x <= columns - fittedWidth; x++) {
+      const candidate = { x, y, width: fittedWidth, height };
+      if (!occupied.some(position => positionsOverlap(candidate, position))) {
+        return { x, y };
+      }
+    }
+  }
+
+  // Fallback to the bottom of the grid
+  return {
+    x: 0,
+    y: Math.max(0, ...occupied.map(position => position.y + position.height)),
+  };
+}
+
+/**
+ * Sorts tiles by their desktop reading order (top to bottom, left to right)
+ *
+ * @param tiles - Tiles to sort
+ * @returns New array sorted by desktop row, then column
+ */
+export function sortByReadingOrder<T extends TilePosition>(tiles: T[]): T[] {
+  return [...tiles].sort((a, b) => a.y - b.y || a.x - b.x);
+}
+
+/**
+ * Computes the arrangement of all tiles for a breakpoint
+ *
+ * Desktop uses the tiles' own coordinates. For smaller breakpoints, tiles
+ * with a hand-edited position keep it (clamped to the column count); all
+ * other tiles are derived from the desktop arrangement by flowing them, in
+ * desktop reading order, into the first free space after the previously
+ * placed tile.
+ *
+ * @param tiles - Tiles of the layout
+ * @param breakpoint - Breakpoint to arrange for
+ * @param columns - Number of grid columns at that breakpoint
+ * @returns Positions keyed by tile ID
+ *
+ * Time Complexity: O(n² * r * c) worst case for n tiles; typically near O(n²)
+ * Space Complexity: O(n)
+ */
+export function arrangeForBreakpoint(
+  tiles: Tile[],
+  breakpoint: Breakpoint,
+  columns: number
+): Map<string, TilePosition> {
+  const positions = new Map<string, TilePosition>();
+
+  if (breakpoint === 'desktop') {
+    tiles.forEach(tile => positions.set(tile.id, getDesktopPosition(tile)));
+    return positions;
+  }
+
+  const derivedTiles: Tile[] = [];
+
+  tiles.forEach(tile => {
+    const storedPosition = tile.breakpointPositions?.[breakpoint];
+    if (storedPosition) {
+      positions.set(tile.id, clampToColumns(storedPosition, columns));
+    } else {
+      derivedTiles.push(tile);
+    }
+  });
+
+  let cursor = { x: 0, y: 0 };
+  sortByReadingOrder(derivedTiles).forEach(tile => {
+    const width = Math.min(tile.width, columns);
+    const spot = findFirstFit([...positions.values()], width, tile.height, columns, cursor);
+
+    positions.set(tile.id, { x: spot.x, y: spot.y, width, height: tile.height });
+    cursor = spot;
+  });
+
+  return positions;
+}
+
+/**
+ * Floats tiles upward until they hit the top of the grid or another tile
+ *
+ * Tiles are processed in reading order, so a tile never jumps over one
+ * that was above it. Fixed tiles stay where they are and act as obstacles.
+ *
+ * @param positions - Current positions keyed by tile ID
+ * @param fixedIds - IDs of tiles that must not move
+ * @returns Compacted positions keyed by tile ID
+ *
+ * Time Complexity: O(n² * h) where n is number of tiles and h the tallest column
+ * Space Complexity: O(n)
+ */
+export function compactVertically(
+  positions: Map<string, TilePosition>,
+  fixedIds: Set<string> = new Set()
+): Map<string, TilePosition> {
+  const compacted = new Map<string, TilePosition>();
+  const placed: TilePosition[] = [];
+
+  fixedIds.forEach(id => {
+    const position = positions.get(id);
+    if (position) {
+      compacted.set(id, { ...position });
+      placed.push(position);
+    }
+  });
+
+  const ordered = [...positions.entries()]
+    .filter(([id]) => !fixedIds.has(id))
+    .sort(([, a], [, b]) => a.y - b.y || a.x - b.x);
+
+  ordered.forEach(([id, position]) => {
+    const candidate = { ...position };
+    const fitsOneRowUp = () =>
+      !placed.some(other => positionsOverlap({ ...candidate, y: candidate.y - 1 }, other));
+
+    while (candidate.y > 0 && fitsOneRowUp()) {
+      candidate.y--;
+    }
+
+    compacted.set(id, candidate);
+    placed.push(candidate);
+  });
+
+  return compacted;
+}
+
+/**
+ * Places a tile and pushes every tile in its way downward, cascading
+ *
+ * The placed tile keeps its target position. All other tiles are visited in
+ * reading order and moved just below whatever they collide with, so that a
+ * pushed tile can in turn push the tiles beneath it. Fixed tiles never move;
+ * pushed tiles flow around them.
+ *
+ * @param positions - Current positions keyed by tile ID
+ * @param tileId - ID of the tile being placed
+ * @param target - Target position and size of that tile
+ * @param fixedIds - IDs of tiles that must not move
+ * @returns Resolved positions keyed by tile ID, or null if the target overlaps a fixed tile
+ *
+ * Time Complexity: O(n² * k) where n is number of tiles and k the number of pushes per tile
+ * Space Complexity: O(n)
+ */
+export function resolveCollisions(
+  positions: Map<string, TilePosition>,
+  tileId: string,
+  target: TilePosition,
+  fixedIds: Set<string> = new Set()
+): Map<string, TilePosition> | null {
+  return resolveGroupCollisions(positions, new Map([[tileId, target]]), fixedIds);
+}
+
+/**
+ * Places several tiles at once and pushes every tile in their way downward
+ *
+ * Works like {@link resolveCollisions} for a group: the placed tiles keep
+ * their targets and everything else cascades below them.
+ *
+ * @param positions - Current positions keyed by tile ID
+ * @param targets - Target positions of the placed tiles, keyed by tile ID
+ * @param fixedIds - IDs of tiles that must not move
+ * @returns Resolved positions keyed by tile ID, or null if a target overlaps a fixed tile
+ *
+ * Time Complexity: O(n² * k) where n is number of tiles and k the number of pushes per tile
+ * Space Complexity: O(n)
+ */
+export function resolveGroupCollisions(
+  positions: Map<string, TilePosition>,
+  targets: Map<string, TilePosition>,
+  fixedIds: Set<string> = new Set()
+): Map<string, TilePosition> | null {
+  const resolved = new Map<string, TilePosition>();
+  const placed: TilePosition[] = [];
+
+  targets.forEach((target, id) => {
+    resolved.set(id, { ...target });
+    placed.push(target);
+  });
+
+  for (const id of fixedIds) {
+    const position = positions.get(id);
+    if (!position || targets.has(id)) continue;
+    if ([...targets.values()].some(target => positionsOverlap(target, position))) return null;
+
+    resolved.set(id, { ...position });
+    placed.push(position);
+  }
+
+  const others = [...positions.entries()]
+    .filter(([id]) => !targets.has(id) && !fixedIds.has(id))
+    .sort(([, a], [, b]) => a.y - b.y || a.x - b.x);
+
+  others.forEach(([id, position]) => {
+    const candidate = { ...position };
+    let blockers = placed.filter(other => positionsOverlap(candidate, other));
+
+    while (blockers.length > 0) {
+      candidate.y = Math.max(...blockers.map(other => other.y + other.height));
+      blockers = placed.filter(other => positionsOverlap(candidate, other));
+    }
+
+    resolved.set(id, candidate);
+    placed.push(candidate);
+  });
+
+  return resolved;
+}
+
+/**
+ * Plans a move in which the tile dropped onto another tile trades places with it
+ *
+ * The partner is the tile under the target's top-left cell or, failing that,
+ * the only tile the target overlaps. Each tile keeps its own size, so the
+ * swap only succeeds if both tiles still fit inside the grid without
+ * overlapping each other or any remaining tile. A target that overlaps
+ * nothing is a plain move. Fixed tiles are never swapped.
+ *
+ * @param positions - Current positions keyed by tile ID
+ * @param tileId - ID of the dropped tile
+ * @param target - Drop position and size of that tile
+ * @param columns - Number of grid columns
+ * @param fixedIds - IDs of tiles that must not move
+ * @returns Resulting positions keyed by tile ID, or null if no valid swap exists
+ *
+ * Time Complexity: O(n) where n is number of tiles
+ * Space Complexity: O(n)
+ */
+export function planSwap(
+  positions: Map<string, TilePosition>,
+  tileId: string,
+  target: TilePosition,
+  columns: number,
+  fixedIds: Set<string> = new Set()
+): Map<string, TilePosition> | null {
+  const source = positions.get(tileId);
+  if (!source) return null;
+
+  const others = [...positions.entries()].filter(([id]) => id !== tileId);
+  const blockers = others.filter(([, position]) => positionsOverlap(target, position));
+
+  if (blockers.length === 0) {
+    return new Map(positions).set(tileId, { ...target });
+  }
+
+  const targetCell = { x: target.x, y: target.y, width: 1, height: 1 };
+  const partner = blockers.find(([, position]) => positionsOverlap(targetCell, position))
+    ?? (blockers.length === 1 ? blockers[0] : undefined);
+
+  if (!partner || fixedIds.has(partner[0])) return null;
+
+  const [partnerId, partnerPosition] = partner;
+  const movedSource = { ...source, x: partnerPosition.x, y: partnerPosition.y };
+  const movedPartner = { ...partnerPosition, x: source.x, y: source.y };
+
+  const fitsGrid = (position: TilePosition) => position.x + position.width <= columns;
+  const remaining = others.filter(([id]) => id !== partnerId).map(([, position]) => position);
+  const collides = (position: TilePosition) => remaining.some(other => positionsOverlap(position, other));
+
+  if (
+    !fitsGrid(movedSource) ||
+    !fitsGrid(movedPartner) ||
+    positionsOverlap(movedSource, movedPartner) ||
+    collides(movedSource) ||
+    collides(movedPartner)
+  ) {
+    return null;
+  }
+
+  return new Map(positions).set(tileId, movedSource).set(partnerId, movedPartner);
+}
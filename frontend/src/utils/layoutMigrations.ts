@@ -0,0 +1,234 @@
+/**
+ * Layout Schema Migrations
+ *
+ * Saved and exported layouts carry a schema `version`. When a layout from an
+ * older version is loaded, it is upgraded one version at a time through a
+ * chain of migration functions until it matches the current schema. See
+ * `docs/LAYOUT_SCHEMA.md` for the schema and its version history.
+ *
+ * Features:
+ * - Version detection, including the legacy `'1.0'` export format and unversioned storage
+ * - Step-by-step upgrades through registered migrations
+ * - Clear errors for layouts written by a newer version of the app
+ *
+ * Adding a schema version:
+ * 1. Increase `LAYOUT_SCHEMA_VERSION`
+ * 2. Register a migration from the previous version in `LAYOUT_MIGRATIONS`
+ * 3. Document the change in `docs/LAYOUT_SCHEMA.md`
+ *
+ * @author Dashboard System
+ * @version 1.0.0
+ */
+
+import type { ResponsiveBreakpoint } from '@/types/dashboard';
+import { DEFAULT_GRID_CONFIG } from '@/types/dashboard';
+import type { SerializedLayout, SerializedTile } from '@/utils/layoutSerialization';
+
+/**
+ * Current layout schema version, written to every saved and exported layout
+ */
+export const LAYOUT_SCHEMA_VERSION = 2;
+
+/**
+ * Layout data of any schema version, as parsed from JSON
+ */
+type LayoutRecord = Record<string, unknown>;
+
+/**
+ * Upgrades layout data from one schema version to the next
+ */
+type LayoutMigration = (layout: LayoutRecord) => LayoutRecord;
+
+/**
+ * Layout data upgraded to the current schema, without its `version` field
+ *
+ * Stored layouts contain every `SerializedLayout` field. Exported files may
+ * omit the ID and timestamps and carry extra fields such as `gridConfig`.
+ */
+export type MigratedLayoutData = Partial<Omit<SerializedLayout, 'tiles'>> & {
+  tiles: SerializedTile[];
+  [key: string]: unknown;
+};
+
+/**
+ * Breakpoints that may carry hand-edited tile positions
+ */
+const RESPONSIVE_BREAKPOINTS: ResponsiveBreakpoint[] = ['tablet', 'mobile', 'smallMobile'];
+
+/**
+ * Display names of the content types that existed in version 1
+ *
+ * Frozen copy used by the version 1 migration, so that its output does not
+ * change when content types are renamed or added later.
+ */
+const V1_CONTENT_DISPLAY_NAMES: Record<string, string> = {
+  'equity-quote': 'Stock Quote',
+  'placeholder': 'Placeholder',
+  'news': 'News Feed',
+};
+
+/**
+ * Checks whether a value is a plain object
+ *
+ * @param value - Value to check
+ * @returns True if the value is a non-null, non-array object
+ */
+function isRecord(value: unknown): value is LayoutRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Keeps only well-formed per-breakpoint positions of a version 1 tile
+ *
+ * @param positions - Raw `breakpointPositions` value
+ * @returns Valid positions, or undefined if none remain
+ */
+function migrateBreakpointPositions(positions: unknown): LayoutRecord | undefined {
+  if (!isRecord(positions)) return undefined;
+
+  const valid: LayoutRecord = {};
+  RESPONSIVE_BREAKPOINTS.forEach(breakpoint => {
+    const position = positions[breakpoint];
+    if (isRecord(position) && ['x', 'y', 'width', 'height'].every(key => typeof position[key] === 'number')) {
+      valid[breakpoint] = { x: position.x, y: position.y, width: position.width, height: position.height };
+    }
+  });
+
+  return Object.keys(valid).length > 0 ? valid : undefined;
+}
+
+/**
+ * Migrates a version 1 tile to version 2
+ *
+ * @param tile - Version 1 tile
+ * @returns Version 2 tile
+ */
+function migrateTileV1ToV2(tile: unknown): unknown {
+  if (!isRecord(tile)) return tile;
+
+  const migrated: LayoutRecord = { ...tile };
+
+  const breakpointPositions = migrateBreakpointPositions(tile.breakpointPositions);
+  if (breakpointPositions) {
+    migrated.breakpointPositions = breakpointPositions;
+  } else {
+    delete migrated.breakpointPositions;
+  }
+
+  if (tile.locked === true) {
+    migrated.locked = true;
+  } else {
+    delete migrated.locked;
+  }
+
+  // Content written before display names were required gets the registry name
+  const content = tile.content;
+  if (isRecord(content) && typeof content.type === 'string' && content.type in V1_CONTENT_DISPLAY_NAMES &&
+      typeof content.displayName !== 'string') {
+    migrated.content = { ...content, displayName: V1_CONTENT_DISPLAY_NAMES[content.type] };
+  }
+
+  return migrated;
+}
+
+/**
+ * Version 1 to 2: layout behavior settings and tile positions become part of the schema
+ *
+ * Version 1 covers the original `'1.0'` export files and layouts stored
+ * without a version. Their compaction and collision modes, lock flags and
+ * per-breakpoint positions were optional and unchecked; version 2 fills in
+ * defaults and drops malformed values.
+ *
+ * @param layout - Version 1 layout
+ * @returns Version 2 layout
+ */
+function migrateV1ToV2(layout: LayoutRecord): LayoutRecord {
+  const migrated: LayoutRecord = {
+    ...layout,
+    gridColumns: typeof layout.gridColumns === 'number' ? layout.gridColumns : DEFAULT_GRID_CONFIG.desktop,
+    compactionMode: layout.compactionMode === 'vertical' ? 'vertical' : 'none',
+    // Layouts from before collision modes rejected overlapping moves
+    collisionMode: layout.collisionMode === 'push' || layout.collisionMode === 'swap'
+      ? layout.collisionMode
+      : 'reject',
+    tiles: (layout.tiles as unknown[]).map(migrateTileV1ToV2),
+  };
+
+  if (layout.locked === true) {
+    migrated.locked = true;
+  } else {
+    delete migrated.locked;
+  }
+
+  return migrated;
+}
+
+/**
+ * Migrations keyed by the version they upgrade from
+ */
+const LAYOUT_MIGRATIONS: Record<number, LayoutMigration> = {
+  1: migrateV1ToV2,
+};
+
+/**
+ * Reads the schema version of layout data
+ *
+ * Layouts without a version and the original `'1.0'` export format are
+ * version 1.
+ *
+ * @param data - Parsed layout data
+ * @returns Schema version, or NaN if the version field is unreadable
+ */
+export function getLayoutSchemaVersion(data: LayoutRecord): number {
+  const version = data.version;
+
+  if (version === undefined || version === null) return 1;
+  if (typeof version === 'number') return version;
+  if (typeof version === 'string') return Math.floor(parseFloat(version));
+
+  return NaN;
+}
+
+/**
+ * Upgrades layout data of any supported version to the current schema
+ *
+ * @param data - Parsed layout data, as saved or exported
+ * @returns Layout data at the current schema version, without its `version` field
+ * @throws Error if the data is not a layout, has an unreadable version, or
+ *   was written by a newer version of the app
+ *
+ * Time Complexity: O(v * n) where v is number of migrations applied and n is number of tiles
+ * Space Complexity: O(n)
+ *
+ * @example
+ * ```typescript
+ * const layoutData = migrateLayout(JSON.parse(fileContents));
+ * ```
+ */
+export function migrateLayout(data: unknown): MigratedLayoutData {
+  if (!isRecord(data) || !Array.isArray(data.tiles)) {
+    throw new Error('Invalid layout data format');
+  }
+
+  const version = getLayoutSchemaVersion(data);
+
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`Unrecognized layout version "${String(data.version)}"`);
+  }
+
+  if (version > LAYOUT_SCHEMA_VERSION) {
+    throw new Error(
+      `This layout was saved by a newer version of the app (layout version ${version}, ` +
+      `supported up to ${LAYOUT_SCHEMA_VERSION}). Please update the app to open it.`
+    );
+  }
+
+  let layout: LayoutRecord = { ...data };
+  for (let from = version; from < LAYOUT_SCHEMA_VERSION; from++) {
+    layout = LAYOUT_MIGRATIONS[from](layout);
+    console.debug(`Migrated layout "${String(layout.name ?? '')}" from version ${from} to ${from + 1}`);
+  }
+
+  delete layout.version;
+  return layout as MigratedLayoutData;
+}
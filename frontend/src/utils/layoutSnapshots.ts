@@ -0,0 +1,206 @@
+/**
+ * Layout Snapshot Utilities
+ *
+ * Pure functions for managing saved copies of a dashboard layout: deciding
+ * which snapshots to keep and describing how two layouts differ.
+ *
+ * Features:
+ * - Retention policy that keeps named snapshots and thins out automatic ones
+ * - Tile-level diff between layouts (added, removed, moved, resized, reconfigured)
+ * - Detection of changed layout settings
+ *
+ * @author Dashboard System
+ * @version 1.0.0
+ */
+
+import type { DashboardLayout, LayoutSnapshot, Tile } from '@/types/dashboard';
+import { sortByReadingOrder } from '@/utils/gridLayout';
+
+/**
+ * Maximum number of named (manual) snapshots kept per dashboard
+ */
+export const MAX_NAMED_SNAPSHOTS = 20;
+
+/**
+ * Number of most recent automatic snapshots that are always kept
+ */
+export const RECENT_AUTO_SNAPSHOTS = 10;
+
+/**
+ * Number of days for which the latest automatic snapshot of each day is kept
+ */
+export const DAILY_AUTO_SNAPSHOT_DAYS = 14;
+
+/**
+ * Ways in which a tile can differ between two layouts
+ */
+export type TileDiffKind = 'added' | 'removed' | 'moved' | 'resized' | 'reconfigured';
+
+/**
+ * Difference of a single tile between two layouts
+ */
+export interface TileDiff {
+  tileId: string;
+  title: string;
+  kinds: TileDiffKind[];
+}
+
+/**
+ * Layout settings compared by `diffLayouts`
+ */
+export type LayoutSetting = 'gridColumns' | 'compactionMode' | 'collisionMode';
+
+/**
+ * Difference between two layouts
+ */
+export interface LayoutDiff {
+  /** Tiles that differ, in reading order of the layout they appear in */
+  tiles: TileDiff[];
+  /** Layout settings that differ */
+  settings: LayoutSetting[];
+}
+
+/**
+ * Returns the local calendar day of a date as a comparable key
+ *
+ * @param date - Date to convert
+ * @returns Key in the form `YYYY-M-D`
+ */
+function getDayKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+}
+
+/**
+ * Applies the snapshot retention policy
+ *
+ * Named snapshots are kept up to `MAX_NAMED_SNAPSHOTS`. Of the automatic
+ * snapshots, the `RECENT_AUTO_SNAPSHOTS` newest are kept, plus the newest
+ * snapshot of each of the last `DAILY_AUTO_SNAPSHOT_DAYS` days, so that
+ * earlier days stay reachable without keeping every automatic snapshot.
+ *
+ * @param snapshots - Snapshots of one dashboard, in any order
+ * @param now - Reference time for the daily window (defaults to the current time)
+ * @returns Kept snapshots, newest first
+ *
+ * Time Complexity: O(n log n) where n is number of snapshots
+ * Space Complexity: O(n)
+ */
+export function applySnapshotRetention(snapshots: LayoutSnapshot[], now: Date = new Date()): LayoutSnapshot[] {
+  const newestFirst = [...snapshots].sort((a, b) => b.created.getTime() - a.created.getTime());
+  const oldestDay = new Date(now.getFullYear(), now.getMonth(), now.getDate() - (DAILY_AUTO_SNAPSHOT_DAYS - 1));
+  const keptDays = new Set<string>();
+  let namedCount = 0;
+  let autoCount = 0;
+
+  return newestFirst.filter(snapshot => {
+    if (snapshot.kind === 'manual') {
+      namedCount++;
+      return namedCount <= MAX_NAMED_SNAPSHOTS;
+    }
+
+    autoCount++;
+    const dayKey = getDayKey(snapshot.created);
+    const isFirstOfDay = !keptDays.has(dayKey);
+    keptDays.add(dayKey);
+
+    return autoCount <= RECENT_AUTO_SNAPSHOTS || (isFirstOfDay && snapshot.created >= oldestDay);
+  });
+}
+
+/**
+ * Checks whether two layouts contain the same tiles and settings
+ *
+ * Timestamps are ignored, so a layout restored from a snapshot is equal to
+ * that snapshot.
+ *
+ * @param a - First layout
+ * @param b - Second layout
+ * @returns True if `diffLayouts` would report no differences
+ */
+export function layoutsEqual(a: DashboardLayout, b: DashboardLayout): boolean {
+  const diff = diffLayouts(a, b);
+  return diff.tiles.length === 0 && diff.settings.length === 0;
+}
+
+/**
+ * Compares the configuration of two versions of a tile, ignoring position and size
+ *
+ * @param before - Tile in the base layout
+ * @param after - Tile in the target layout
+ * @returns True if title, content, constraints or lock state differ
+ */
+function isReconfigured(before: Tile, after: Tile): boolean {
+  const configOf = (tile: Tile) => JSON.stringify([
+    tile.title,
+    tile.content ?? null,
+    tile.minWidth ?? null,
+    tile.minHeight ?? null,
+    tile.maxWidth ?? null,
+    tile.maxHeight ?? null,
+    tile.locked === true,
+  ]);
+
+  return configOf(before) !== configOf(after);
+}
+
+/**
+ * Describes how a layout differs from a base layout
+ *
+ * Tiles are matched by ID. A tile counts as moved when its desktop position
+ * or any of its per-breakpoint positions changed, and as resized when its
+ * desktop size changed.
+ *
+ * @param base - Layout to compare against (e.g. a snapshot)
+ * @param target - Layout to describe (e.g. the current layout)
+ * @returns Tile and setting differences from `base` to `target`
+ *
+ * Time Complexity: O(n log n) where n is number of tiles in both layouts
+ * Space Complexity: O(n)
+ *
+ * @example
+ * ```typescript
+ * const diff = diffLayouts(snapshot.layout, store.currentLayout);
+ * diff.tiles.filter(tile => tile.kinds.includes('added'));
+ * ```
+ */
+export function diffLayouts(base: DashboardLayout, target: DashboardLayout): LayoutDiff {
+  const baseTiles = new Map(base.tiles.map(tile => [tile.id, tile]));
+  const targetIds = new Set(target.tiles.map(tile => tile.id));
+  const tiles: TileDiff[] = [];
+
+  sortByReadingOrder(target.tiles).forEach(after => {
+    const before = baseTiles.get(after.id);
+    const kinds: TileDiffKind[] = [];
+
+    if (!before) {
+      kinds.push('added');
+    } else {
+      const positionsChanged = before.x !== after.x || before.y !== after.y ||
+        JSON.stringify(before.breakpointPositions ?? {}) !== JSON.stringify(after.breakpointPositions ?? {});
+
+      if (positionsChanged) kinds.push('moved');
+      if (before.width !== after.width || before.height !== after.height) kinds.push('resized');
+      if (isReconfigured(before, after)) kinds.push('reconfigured');
+    }
+
+    if (kinds.length > 0) {
+      tiles.push({ tileId: after.id, title: after.title, kinds });
+    }
+  });
+
+  sortByReadingOrder(base.tiles)
+    .filter(before => !targetIds.has(before.id))
+    .forEach(before => tiles.push({ tileId: before.id, title: before.title, kinds: ['removed'] }));
+
+  const settingsOf = (layout: DashboardLayout): Record<LayoutSetting, unknown> => ({
+    gridColumns: layout.gridColumns,
+    compactionMode: layout.compactionMode ?? 'none',
+    collisionMode: layout.collisionMode ?? 'reject',
+  });
+  const baseSettings = settingsOf(base);
+  const targetSettings = settingsOf(target);
+  const settings = (Object.keys(baseSettings) as LayoutSetting[])
+    .filter(setting => baseSettings[setting] !== targetSettings[setting]);
+
+  return { tiles, settings };
+}
@@ -0,0 +1,809 @@
+/**
+ * Layout Validation Utilities
+ *
+ * Strict validation of imported layout data against the current layout
+ * schema. Every problem is reported with the path of the offending value,
+ * and a repaired copy of the layout is produced alongside the report.
+ *
+ * Features:
+ * - Validation of the layout, its grid configuration and every tile, with
+ *   content checked against the configuration schema of its plugin
+ * - Per-field issue report with paths such as `tiles[2].content.symbol`
+ * - Automatic repair of fixable issues: clamped bounds, dropped unknown
+ *   fields, fresh IDs for duplicates and relocated overlapping tiles
+ *
+ * Validation runs on data that has already been upgraded by `migrateLayout`.
+ *
+ * @author Dashboard System
+ * @version 1.0.0
+ */
+
+import type { GridConfig, ResponsiveBreakpoint, TileContent, TilePosition } from '@/types/dashboard';
+import { DEFAULT_GRID_CONFIG } from '@/types/dashboard';
+import type { MigratedLayoutData } from '@/utils/layoutMigrations';
+import { findFirstFit, positionsOverlap } from '@/utils/gridLayout';
+import { getTileContentPlugin, type TileContentPlugin } from '@/utils/tileContentRegistry';
+import {
+  REFRESH_INTERVAL_RANGE,
+  SYMBOL_PATTERN,
+  flattenConfigFields,
+  getPathValue,
+  isEmptyConfigValue,
+  setPathValue,
+  validateConfigValues,
+  type TileConfigField,
+  type TileConfigValues,
+} from '@/utils/tileConfigSchema';
+
+/**
+ * Single problem found in layout data
+ */
+export interface LayoutIssue {
+  /** Location of the problem, e.g. `tiles[2].content.symbol` */
+  path: string;
+  /** Description of the problem and, if fixable, of the repair */
+  message: string;
+  /** Whether the repaired layout fixes the problem */
+  fixable: boolean;
+}
+
+/**
+ * Result of validating layout data
+ */
+export interface LayoutValidationResult {
+  /** Problems found, in document order (overlaps last) */
+  issues: LayoutIssue[];
+  /** Copy of the layout with every fixable issue repaired */
+  repaired: MigratedLayoutData;
+}
+
+/**
+ * Plain parsed JSON object
+ */
+type JsonRecord = Record<string, unknown>;
+
+/**
+ * Maximum tile title length, matching the tile edit form
+ */
+const TITLE_MAX_LENGTH = 100;
+
+/**
+ * Maximum number of grid columns at any breakpoint
+ */
+const MAX_GRID_COLUMNS = 24;
+
+/**
+ * Allowed ranges of the grid configuration values
+ */
+const GRID_CONFIG_RANGES: Record<keyof GridConfig, { min: number; max: number }> = {
+  desktop: { min: 1, max: MAX_GRID_COLUMNS },
+  tablet: { min: 1, max: MAX_GRID_COLUMNS },
+  mobile: { min: 1, max: MAX_GRID_COLUMNS },
+  smallMobile: { min: 1, max: MAX_GRID_COLUMNS },
+  gap: { min: 0, max: 32 },
+  padding: { min: 0, max: 64 },
+  rowHeight: { min: 20, max: 400 },
+};
+
+/**
+ * Fields allowed at the top level of a layout file
+ */
+const LAYOUT_FIELDS = [
+  'id', 'name', 'tiles', 'gridColumns', 'compactionMode', 'collisionMode', 'locked',
+  'created', 'modified', 'exportDate', 'gridConfig', 'metadata',
+];
+
+/**
+ * Fields allowed on a tile
+ */
+const TILE_FIELDS = [
+  'id', 'title', 'x', 'y', 'width', 'height', 'minWidth', 'minHeight', 'maxWidth', 'maxHeight',
+  'content', 'breakpointPositions', 'locked', 'created', 'modified',
+];
+
+/**
+ * Fields shared by every content type
+ */
+const BASE_CONTENT_FIELDS = ['type', 'displayName', 'autoRefresh', 'refreshInterval'];
+
+/**
+ * Lists the content fields a plugin declares
+ *
+ * A field is allowed if it appears in the default configuration or the
+ * configuration form of the content type.
+ *
+ * @param plugin - Plugin of the content type
+ * @returns Additional top-level fields and allowed display options
+ */
+function getPluginFields(plugin: TileContentPlugin): { fields: string[]; displayOptions: string[] } {
+  const defaults = plugin.defaultConfig as JsonRecord;
+  const fields = new Set(Object.keys(defaults));
+  const displayOptions = new Set(isRecord(defaults.displayOptions) ? Object.keys(defaults.displayOptions) : []);
+
+  flattenConfigFields(plugin.configSchema).forEach(({ path }) => {
+    const [key, option] = path.split('.');
+    fields.add(key);
+    if (key === 'displayOptions' && option) {
+      displayOptions.add(option);
+    }
+  });
+
+  BASE_CONTENT_FIELDS.forEach(field => fields.delete(field));
+  return { fields: [...fields], displayOptions: [...displayOptions] };
+}
+
+/**
+ * Breakpoints that may carry hand-edited tile positions
+ */
+const RESPONSIVE_BREAKPOINTS: ResponsiveBreakpoint[] = ['tablet', 'mobile', 'smallMobile'];
+
+/**
+ * Checks whether a value is a plain object
+ *
+ * @param value - Value to check
+ * @returns True if the value is a non-null, non-array object
+ */
+function isRecord(value: unknown): value is JsonRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks whether a value is a finite number
+ *
+ * @param value - Value to check
+ * @returns True if the value is a number other than NaN or Infinity
+ */
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Checks whether a value is a parseable date string
+ *
+ * @param value - Value to check
+ * @returns True if the value is a string holding a valid date
+ */
+function isDateString(value: unknown): boolean {
+  return typeof value === 'string' && !isNaN(new Date(value).getTime());
+}
+
+/**
+ * Reporting and repair helpers that add to one issue list
+ */
+interface IssueCollector {
+  /** Issues reported so far */
+  issues: LayoutIssue[];
+  /** Adds an issue */
+  report: (path: string, message: string, fixable?: boolean) => void;
+  /** Validates an integer and returns the repaired value */
+  checkInteger: (value: unknown, path: string, min: number, max?: number) => unknown;
+  /** Drops fields that are not part of the schema */
+  dropUnknownFields: (record: JsonRecord, allowed: string[], path: string) => JsonRecord;
+}
+
+/**
+ * Creates the reporting and repair helpers for an issue list
+ *
+ * @param issues - List the helpers report to
+ * @returns Helpers bound to the list
+ */
+function createIssueCollector(issues: LayoutIssue[]): IssueCollector {
+  const report = (path: string, message: string, fixable: boolean = true) => {
+    issues.push({ path, message, fixable });
+  };
+
+  /**
+   * Validates an integer and returns the repaired value
+   *
+   * Non-numbers are reported as not fixable and returned unchanged; decimals
+   * are rounded and values outside the range are clamped.
+   */
+  const checkInteger = (value: unknown, path: string, min: number, max: number = Infinity): unknown => {
+    if (!isFiniteNumber(value)) {
+      report(path, 'Must be a number', false);
+      return value;
+    }
+
+    let repaired = value;
+    if (!Number.isInteger(repaired)) {
+      repaired = Math.round(repaired);
+      report(path, `Must be a whole number; rounded to ${repaired}`);
+    }
+    if (repaired < min || repaired > max) {
+      const clamped = Math.min(Math.max(repaired, min), max);
+      const range = max === Infinity
+        ? `at least ${min}`
+        : min === -Infinity ? `at most ${max}` : `between ${min} and ${max}`;
+      report(path, `Must be ${range}; clamped to ${clamped}`);
+      repaired = clamped;
+    }
+
+    return repaired;
+  };
+
+  /**
+   * Drops fields that are not part of the schema
+   */
+  const dropUnknownFields = (record: JsonRecord, allowed: string[], path: string): JsonRecord => {
+    const kept: JsonRecord = {};
+
+    Object.entries(record).forEach(([key, value]) => {
+      if (allowed.includes(key)) {
+        kept[key] = value;
+      } else {
+        report(`${path}${path ? '.' : ''}${key}`, 'Unknown field; it will be removed');
+      }
+    });
+
+    return kept;
+  };
+
+  return { issues, report, checkInteger, dropUnknownFields };
+}
+
+/**
+ * Type of value each kind of configuration field stores, with the message
+ * reported for values of another type
+ */
+const CONFIG_VALUE_TYPES: Partial<Record<TileConfigField['kind'], { test: (value: unknown) => boolean; message: string }>> = {
+  text: { test: value => typeof value === 'string', message: 'Must be a string' },
+  textarea: { test: value => typeof value === 'string', message: 'Must be a string' },
+  symbol: { test: value => typeof value === 'string', message: 'Must be a stock symbol of up to 10 characters, e.g. AAPL' },
+  number: { test: isFiniteNumber, message: 'Must be a number' },
+  boolean: { test: value => typeof value === 'boolean', message: 'Must be true or false' },
+  list: { test: Array.isArray, message: 'Must be a list' },
+};
+
+/**
+ * Removes invalid and surplus items of a list field
+ *
+ * @param content - Content to repair in place
+ * @param fieldPath - Path of the list in the content
+ * @param field - Schema field of the list
+ * @param required - Whether the list needs at least one item
+ * @param issuePath - Path of the list in the reported issues
+ * @param collector - Helpers that record the issues
+ */
+function repairConfigList(
+  content: JsonRecord,
+  fieldPath: string,
+  field: TileConfigField,
+  required: boolean,
+  issuePath: string,
+  collector: IssueCollector
+): void {
+  const { report } = collector;
+  const items = getPathValue(content, fieldPath) as unknown[];
+  let kept = items.filter(
+    item => typeof item === 'string' && (field.itemKind !== 'symbol' || SYMBOL_PATTERN.test(item))
+  );
+
+  if (kept.length < items.length) {
+    report(issuePath, `Contains invalid ${field.itemKind === 'symbol' ? 'stock symbols' : 'items'}; they will be removed`);
+  }
+  if (field.maxItems !== undefined && kept.length > field.maxItems) {
+    report(issuePath, `Must have at most ${field.maxItems} items; the rest will be removed`);
+    kept = kept.slice(0, field.maxItems);
+  }
+  if (kept.length < items.length) {
+    setPathValue(content, fieldPath, kept);
+  }
+  if (kept.length === 0 && required) {
+    report(issuePath, 'Add at least one item', false);
+  }
+}
+
+/**
+ * Validates the fields declared by the configuration schema of a plugin
+ *
+ * Values are first checked for the type their input stores, then with
+ * `validateConfigValues`, the rules the tile editor applies. Numbers are
+ * rounded and clamped, select values fall back to the default, long text is
+ * shortened and invalid list items are dropped; invalid symbols and empty
+ * required fields need user input. Fields shared by all content types are
+ * left to the base checks, and paths that already have an issue are skipped.
+ *
+ * @param content - Content to check and repair in place
+ * @param plugin - Plugin of the content type
+ * @param path - Path of the content in the reported issues
+ * @param collector - Helpers that record the issues
+ *
+ * Time Complexity: O(f + l) where f is the number of fields and l the number of list items
+ * Space Complexity: O(f)
+ */
+function validateConfigFields(
+  content: JsonRecord,
+  plugin: TileContentPlugin,
+  path: string,
+  collector: IssueCollector
+): void {
+  const { issues, report, checkInteger } = collector;
+  const leaves = flattenConfigFields(plugin.configSchema).filter(({ path: fieldPath }) => !BASE_CONTENT_FIELDS.includes(fieldPath));
+  const isReported = (fieldPath: string) => issues.some(issue => issue.path === `${path}.${fieldPath}`);
+  const values: TileConfigValues = {};
+
+  leaves.forEach(({ path: fieldPath, field }) => {
+    const value = getPathValue(content, fieldPath);
+    const valueType = CONFIG_VALUE_TYPES[field.kind];
+    if (value === undefined || isReported(fieldPath)) return;
+
+    if (valueType && !valueType.test(value)) {
+      if (plugin.requiredFields.includes(fieldPath)) {
+        report(`${path}.${fieldPath}`, valueType.message, false);
+      } else {
+        report(`${path}.${fieldPath}`, `${valueType.message}; it will be removed`);
+        setPathValue(content, fieldPath, undefined);
+      }
+      return;
+    }
+
+    values[fieldPath] = value;
+  });
+
+  const errors = validateConfigValues(plugin.configSchema, plugin.requiredFields, values);
+
+  leaves.forEach(({ path: fieldPath, field }) => {
+    const issuePath = `${path}.${fieldPath}`;
+    const value = values[fieldPath];
+    const error = errors[fieldPath];
+    if (isReported(fieldPath)) return;
+
+    if (field.kind === 'list' && Array.isArray(value)) {
+      repairConfigList(content, fieldPath, field, plugin.requiredFields.includes(fieldPath), issuePath, collector);
+      return;
+    }
+    if (!error) return;
+
+    if (isEmptyConfigValue(value)) {
+      report(issuePath, error, false);
+      return;
+    }
+
+    switch (field.kind) {
+      case 'number': {
+        const min = field.min ?? -Infinity;
+        const max = field.max ?? Infinity;
+        if (Number.isInteger(field.step ?? 1)) {
+          setPathValue(content, fieldPath, checkInteger(value, issuePath, min, max));
+        } else {
+          const clamped = Math.min(Math.max(value as number, min), max);
+          report(issuePath, `${error}; clamped to ${clamped}`);
+          setPathValue(content, fieldPath, clamped);
+        }
+        break;
+      }
+      case 'select': {
+        const defaultValue = getPathValue(plugin.defaultConfig, fieldPath);
+        const choices = (field.options ?? []).map(option => option.value).join(', ');
+        if (defaultValue === undefined) {
+          report(issuePath, `Must be one of ${choices}; it will be removed`);
+        } else {
+          report(issuePath, `Must be one of ${choices}; "${String(defaultValue)}" will be used`);
+        }
+        setPathValue(content, fieldPath, defaultValue);
+        break;
+      }
+      case 'text':
+      case 'textarea':
+        report(issuePath, `${error}; it will be shortened`);
+        setPathValue(content, fieldPath, (value as string).slice(0, field.maxLength));
+        break;
+      default:
+        report(issuePath, error, false);
+    }
+  });
+}
+
+/**
+ * Validates fields of the default configuration that have no form input
+ *
+ * Such fields, e.g. the language of a news feed, must keep the type of their
+ * default value; other values are removed.
+ *
+ * @param content - Content to check and repair in place
+ * @param plugin - Plugin of the content type
+ * @param path - Path of the content in the reported issues
+ * @param collector - Helpers that record the issues
+ */
+function validateDefaultConfigFields(
+  content: JsonRecord,
+  plugin: TileContentPlugin,
+  path: string,
+  collector: IssueCollector
+): void {
+  const formFields = new Set(flattenConfigFields(plugin.configSchema).map(({ path: fieldPath }) => fieldPath.split('.')[0]));
+
+  Object.entries(plugin.defaultConfig as JsonRecord).forEach(([key, defaultValue]) => {
+    const value = content[key];
+    if (value === undefined || formFields.has(key) || BASE_CONTENT_FIELDS.includes(key) || key === 'displayOptions') return;
+
+    if (typeof value !== typeof defaultValue || Array.isArray(value) !== Array.isArray(defaultValue)) {
+      const expected = Array.isArray(defaultValue) ? 'a list' : `a ${typeof defaultValue}`;
+      collector.report(`${path}.${key}`, `Must be ${expected}; it will be removed`);
+      delete content[key];
+    }
+  });
+}
+
+/**
+ * Validates tile content against its content type
+ *
+ * Everything type-specific comes from the registered plugin: the allowed
+ * fields, the default display name and the configuration schema, so a
+ * content type needs no rules of its own here.
+ *
+ * @param rawContent - Content to check
+ * @param path - Path of the content in the reported issues
+ * @param collector - Helpers that record the issues
+ * @returns Repaired content, or null if the content should be removed
+ */
+function validateContent(rawContent: unknown, path: string, collector: IssueCollector): JsonRecord | null {
+  const { issues, report, checkInteger, dropUnknownFields } = collector;
+
+  if (!isRecord(rawContent)) {
+    report(path, 'Must be an object; the content will be removed');
+    return null;
+  }
+
+  const plugin = typeof rawContent.type === 'string' ? getTileContentPlugin(rawContent.type) : undefined;
+  if (!plugin) {
+    report(`${path}.type`, `Unknown content type "${String(rawContent.type)}"; the content will be removed`);
+    return null;
+  }
+
+  const pluginFields = getPluginFields(plugin);
+  // Repairs change nested objects, so they work on a copy of the input
+  const content = dropUnknownFields(
+    JSON.parse(JSON.stringify(rawContent)),
+    [...BASE_CONTENT_FIELDS, ...pluginFields.fields],
+    path
+  );
+
+  if (typeof content.displayName !== 'string' || !content.displayName) {
+    report(`${path}.displayName`, `Must be a non-empty string; "${plugin.displayName}" will be used`);
+    content.displayName = plugin.displayName;
+  }
+
+  if (content.autoRefresh !== undefined && typeof content.autoRefresh !== 'boolean') {
+    report(`${path}.autoRefresh`, 'Must be true or false; it will be removed');
+    delete content.autoRefresh;
+  }
+
+  if (content.refreshInterval !== undefined) {
+    if (isFiniteNumber(content.refreshInterval)) {
+      content.refreshInterval = checkInteger(
+        content.refreshInterval,
+        `${path}.refreshInterval`,
+        REFRESH_INTERVAL_RANGE.min,
+        REFRESH_INTERVAL_RANGE.max
+      );
+    } else {
+      report(`${path}.refreshInterval`, 'Must be a number of seconds; it will be removed');
+      delete content.refreshInterval;
+    }
+  }
+
+  validateConfigFields(content, plugin, path, collector);
+  validateDefaultConfigFields(content, plugin, path, collector);
+
+  if (content.displayOptions !== undefined) {
+    if (!isRecord(content.displayOptions)) {
+      report(`${path}.displayOptions`, 'Must be an object; it will be removed');
+      delete content.displayOptions;
+    } else {
+      const displayOptions = dropUnknownFields(content.displayOptions, pluginFields.displayOptions, `${path}.displayOptions`);
+
+      Object.entries(displayOptions).forEach(([key, value]) => {
+        if (typeof value !== 'boolean') {
+          report(`${path}.displayOptions.${key}`, 'Must be true or false; it will be removed');
+          delete displayOptions[key];
+        }
+      });
+      content.displayOptions = displayOptions;
+    }
+  }
+
+  // Required fields of every content type, unless a rule above already reported them
+  plugin.requiredFields.forEach(field => {
+    const fieldPath = `${path}.${field}`;
+    if (isEmptyConfigValue(getPathValue(content, field)) && !issues.some(issue => issue.path === fieldPath)) {
+      report(fieldPath, 'Required field is missing', false);
+    }
+  });
+
+  return content;
+}
+
+/**
+ * Validates the content of a single tile, e.g. a pasted tile or a preset
+ *
+ * @param content - Content to check
+ * @returns Issues found, with paths starting at `content`, and the repaired
+ *   content; null if the content is removed
+ *
+ * Time Complexity: O(f) where f is the number of content fields
+ * Space Complexity: O(f)
+ */
+export function validateTileContent(content: unknown): { issues: LayoutIssue[]; repaired: TileContent | null } {
+  const collector = createIssueCollector([]);
+  const repaired = validateContent(content, 'content', collector) as TileContent | null;
+  return { issues: collector.issues, repaired };
+}
+
+/**
+ * Validates layout data and produces a repaired copy
+ *
+ * Fixable problems are repaired in the returned copy: out-of-range numbers
+ * are rounded and clamped, unknown fields and malformed optional values are
+ * dropped, duplicate or missing tile IDs are replaced and overlapping tiles
+ * are moved to the next free position. Problems that need user input, such
+ * as a missing stock symbol or non-numeric coordinates, are reported as not
+ * fixable and left unchanged.
+ *
+ * @param data - Layout data upgraded to the current schema
+ * @returns Issue report and repaired layout
+ *
+ * Time Complexity: O(n² + n * r * c) where n is number of tiles, for overlap resolution
+ * Space Complexity: O(n)
+ *
+ * @example
+ * ```typescript
+ * const { issues, repaired } = validateLayout(migrateLayout(fileData));
+ * if (issues.every(issue => issue.fixable)) {
+ *   store.importLayout({ version: LAYOUT_SCHEMA_VERSION, ...repaired });
+ * }
+ * ```
+ */
+export function validateLayout(data: MigratedLayoutData): LayoutValidationResult {
+  const issues: LayoutIssue[] = [];
+  const collector = createIssueCollector(issues);
+  const { report, checkInteger, dropUnknownFields } = collector;
+
+  const layout = dropUnknownFields(data, LAYOUT_FIELDS, '');
+
+  // Layout fields
+  if (typeof layout.name !== 'string' || !layout.name.trim()) {
+    report('name', 'Must be a non-empty string; "Imported Dashboard" will be used');
+    layout.name = 'Imported Dashboard';
+  }
+
+  if (layout.id !== undefined && typeof layout.id !== 'string') {
+    report('id', 'Must be a string; it will be removed');
+    delete layout.id;
+  }
+
+  if (layout.gridColumns === undefined) {
+    layout.gridColumns = DEFAULT_GRID_CONFIG.desktop;
+  } else if (!isFiniteNumber(layout.gridColumns)) {
+    report('gridColumns', `Must be a number; ${DEFAULT_GRID_CONFIG.desktop} will be used`);
+    layout.gridColumns = DEFAULT_GRID_CONFIG.desktop;
+  } else {
+    layout.gridColumns = checkInteger(layout.gridColumns, 'gridColumns', 1, MAX_GRID_COLUMNS);
+  }
+  const columns = layout.gridColumns as number;
+
+  if (layout.compactionMode !== undefined && !['none', 'vertical'].includes(layout.compactionMode as string)) {
+    report('compactionMode', 'Must be "none" or "vertical"; "none" will be used');
+    layout.compactionMode = 'none';
+  }
+
+  if (layout.collisionMode !== undefined && !['reject', 'push', 'swap'].includes(layout.collisionMode as string)) {
+    report('collisionMode', 'Must be "reject", "push" or "swap"; "reject" will be used');
+    layout.collisionMode = 'reject';
+  }
+
+  if (layout.locked !== undefined && typeof layout.locked !== 'boolean') {
+    report('locked', 'Must be true or false; it will be removed');
+    delete layout.locked;
+  }
+
+  (['created', 'modified'] as const).forEach(field => {
+    if (layout[field] !== undefined && !isDateString(layout[field])) {
+      report(field, 'Must be a date; the import time will be used');
+      delete layout[field];
+    }
+  });
+
+  // Grid configuration
+  const breakpointColumns: Record<ResponsiveBreakpoint, number> = {
+    tablet: DEFAULT_GRID_CONFIG.tablet,
+    mobile: DEFAULT_GRID_CONFIG.mobile,
+    smallMobile: DEFAULT_GRID_CONFIG.smallMobile,
+  };
+
+  if (layout.gridConfig !== undefined) {
+    if (!isRecord(layout.gridConfig)) {
+      report('gridConfig', 'Must be an object; it will be removed');
+      delete layout.gridConfig;
+    } else {
+      const gridConfig = dropUnknownFields(layout.gridConfig, Object.keys(GRID_CONFIG_RANGES), 'gridConfig');
+
+      (Object.keys(GRID_CONFIG_RANGES) as Array<keyof GridConfig>).forEach(key => {
+        if (gridConfig[key] === undefined) return;
+
+        const { min, max } = GRID_CONFIG_RANGES[key];
+        if (isFiniteNumber(gridConfig[key])) {
+          gridConfig[key] = checkInteger(gridConfig[key], `gridConfig.${key}`, min, max);
+        } else {
+          report(`gridConfig.${key}`, 'Must be a number; the default will be used');
+          delete gridConfig[key];
+        }
+      });
+
+      RESPONSIVE_BREAKPOINTS.forEach(breakpoint => {
+        if (isFiniteNumber(gridConfig[breakpoint])) {
+          breakpointColumns[breakpoint] = gridConfig[breakpoint] as number;
+        }
+      });
+      layout.gridConfig = gridConfig;
+    }
+  }
+
+  // Tiles
+  const usedIds = new Set<string>();
+  const tileNumbers = data.tiles
+    .map(tile => (isRecord(tile) && typeof tile.id === 'string' ? /^tile-(\d+)$/.exec(tile.id) : null))
+    .map(match => (match ? parseInt(match[1], 10) : 0));
+  let nextTileNumber = Math.max(0, ...tileNumbers) + 1;
+
+  const tiles: Array<{ tile: JsonRecord; path: string }> = [];
+
+  data.tiles.forEach((rawTile: unknown, index) => {
+    const path = `tiles[${index}]`;
+
+    if (!isRecord(rawTile)) {
+      report(path, 'Must be an object; the tile will be removed');
+      return;
+    }
+
+    const tile = dropUnknownFields(rawTile, TILE_FIELDS, path);
+
+    // Identity
+    if (typeof tile.id !== 'string' || !tile.id) {
+      tile.id = `tile-${nextTileNumber++}`;
+      report(`${path}.id`, `Missing tile ID; "${tile.id}" will be used`);
+    } else if (usedIds.has(tile.id)) {
+      const duplicateId = tile.id;
+      tile.id = `tile-${nextTileNumber++}`;
+      report(`${path}.id`, `Duplicate tile ID "${duplicateId}"; "${tile.id}" will be used`);
+    }
+    usedIds.add(tile.id as string);
+
+    if (typeof tile.title !== 'string' || !tile.title.trim()) {
+      report(`${path}.title`, 'Must be a non-empty string; "Untitled Tile" will be used');
+      tile.title = 'Untitled Tile';
+    } else if (tile.title.length > TITLE_MAX_LENGTH) {
+      report(`${path}.title`, `Must be at most ${TITLE_MAX_LENGTH} characters; it will be shortened`);
+      tile.title = tile.title.slice(0, TITLE_MAX_LENGTH);
+    }
+
+    // Size constraints
+    (['minWidth', 'minHeight', 'maxWidth', 'maxHeight'] as const).forEach(field => {
+      if (tile[field] === undefined) return;
+
+      if (!isFiniteNumber(tile[field]) || !Number.isInteger(tile[field]) || (tile[field] as number) < 1) {
+        report(`${path}.${field}`, 'Must be a positive whole number; it will be removed');
+        delete tile[field];
+      }
+    });
+
+    (['Width', 'Height'] as const).forEach(dimension => {
+      const min = tile[`min${dimension}`] as number | undefined;
+      const max = tile[`max${dimension}`] as number | undefined;
+
+      if (min !== undefined && max !== undefined && min > max) {
+        report(`${path}.max${dimension}`, `Must not be less than min${dimension}; it will be removed`);
+        delete tile[`max${dimension}`];
+      }
+    });
+
+    // Position and size
+    tile.width = checkInteger(tile.width, `${path}.width`, 1, columns);
+    tile.height = checkInteger(tile.height, `${path}.height`, 1);
+
+    if (isFiniteNumber(tile.width) && isFiniteNumber(tile.height)) {
+      (['width', 'height'] as const).forEach(field => {
+        const dimension = field === 'width' ? 'Width' : 'Height';
+        const min = (tile[`min${dimension}`] as number | undefined) ?? 1;
+        const max = Math.min((tile[`max${dimension}`] as number | undefined) ?? Infinity, field === 'width' ? columns : Infinity);
+        const value = tile[field] as number;
+
+        if (value < min || value > max) {
+          const clamped = Math.min(Math.max(value, min), max);
+          report(`${path}.${field}`, `Must respect the tile's min${dimension}/max${dimension}; clamped to ${clamped}`);
+          tile[field] = clamped;
+        }
+      });
+    }
+
+    tile.x = checkInteger(tile.x, `${path}.x`, 0, isFiniteNumber(tile.width) ? columns - tile.width : Infinity);
+    tile.y = checkInteger(tile.y, `${path}.y`, 0);
+
+    // Per-breakpoint positions
+    if (tile.breakpointPositions !== undefined) {
+      if (!isRecord(tile.breakpointPositions)) {
+        report(`${path}.breakpointPositions`, 'Must be an object; it will be removed');
+        delete tile.breakpointPositions;
+      } else {
+        const positions = dropUnknownFields(tile.breakpointPositions, RESPONSIVE_BREAKPOINTS, `${path}.breakpointPositions`);
+
+        RESPONSIVE_BREAKPOINTS.forEach(breakpoint => {
+          const position = positions[breakpoint];
+          if (position === undefined) return;
+
+          const valid = isRecord(position) &&
+            ['x', 'y', 'width', 'height'].every(key => isFiniteNumber(position[key]) && Number.isInteger(position[key])) &&
+            (position.x as number) >= 0 && (position.y as number) >= 0 &&
+            (position.width as number) >= 1 && (position.height as number) >= 1 &&
+            (position.x as number) + (position.width as number) <= breakpointColumns[breakpoint];
+
+          if (!valid) {
+            report(
+              `${path}.breakpointPositions.${breakpoint}`,
+              `Must be a position inside the ${breakpointColumns[breakpoint]}-column ${breakpoint} grid; ` +
+              'it will be removed and derived from the desktop layout'
+            );
+            delete positions[breakpoint];
+          }
+        });
+
+        if (Object.keys(positions).length > 0) {
+          tile.breakpointPositions = positions;
+        } else {
+          delete tile.breakpointPositions;
+        }
+      }
+    }
+
+    if (tile.locked !== undefined && typeof tile.locked !== 'boolean') {
+      report(`${path}.locked`, 'Must be true or false; it will be removed');
+      delete tile.locked;
+    }
+
+    (['created', 'modified'] as const).forEach(field => {
+      if (tile[field] !== undefined && !isDateString(tile[field])) {
+        report(`${path}.${field}`, 'Must be a date; the import time will be used');
+        delete tile[field];
+      }
+    });
+
+    // Content
+    if (tile.content !== undefined) {
+      const content = validateContent(tile.content, `${path}.content`, collector);
+      if (content) {
+        tile.content = content;
+      } else {
+        delete tile.content;
+      }
+    }
+
+    tiles.push({ tile, path });
+  });
+
+  // Overlaps: tiles keep their place in reading order and later tiles move to the next free position
+  const placed: Array<{ position: TilePosition; path: string }> = [];
+  tiles
+    .filter(({ tile }) => ['x', 'y', 'width', 'height'].every(key => isFiniteNumber(tile[key])))
+    .sort((a, b) => (a.tile.y as number) - (b.tile.y as number) || (a.tile.x as number) - (b.tile.x as number))
+    .forEach(({ tile, path }) => {
+      const position = { x: tile.x, y: tile.y, width: tile.width, height: tile.height } as TilePosition;
+      const collision = placed.find(other => positionsOverlap(other.position, position));
+
+      if (collision) {
+        const target = findFirstFit(placed.map(other => other.position), position.width, position.height, columns, {
+          x: 0,
+          y: position.y,
+        });
+        report(path, `Overlaps ${collision.path}; it will be moved to column ${target.x}, row ${target.y}`);
+        position.x = tile.x = target.x;
+        position.y = tile.y = target.y;
+      }
+
+      placed.push({ position, path });
+    });
+
+  return {
+    issues,
+    repaired: { ...layout, tiles: tiles.map(({ tile }) => tile) } as MigratedLayoutData,
+  };
+}
@@ -15,7 +15,12 @@
  * @version 1.0.0
  */
 
-import type { GoogleFinanceQuote } from '@/services/googleFinanceService';
+import type {
+  GoogleFinanceQuote,
+  PriceHistory,
+  PriceHistoryRange,
+  PricePoint,
+} from '@/services/googleFinanceService';
 
 /**
  * Configuration for mock data generation
@@ -46,6 +51,36 @@ interface MockStockInfo {
   volatility: number;
 }
 
+/**
+ * Sampling of a mock price history range
+ */
+interface MockHistorySpec {
+  /** Number of points */
+  points: number;
+  /** Length of one interval in milliseconds */
+  intervalMs: number;
+  /** Length of one interval in trading days, scales volatility and volume */
+  tradingDays: number;
+  /** Whether intervals skip weekends */
+  skipWeekends: boolean;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Mock history sampling by range: 5-minute bars for a day, 30-minute bars
+ * for five days, daily bars up to a year and weekly bars for five years
+ */
+const MOCK_HISTORY_SPECS: Record<PriceHistoryRange, MockHistorySpec> = {
+  '1D': { points: 78, intervalMs: 5 * MINUTE_MS, tradingDays: 5 / 390, skipWeekends: false },
+  '5D': { points: 65, intervalMs: 30 * MINUTE_MS, tradingDays: 30 / 390, skipWeekends: false },
+  '1M': { points: 22, intervalMs: DAY_MS, tradingDays: 1, skipWeekends: true },
+  '6M': { points: 126, intervalMs: DAY_MS, tradingDays: 1, skipWeekends: true },
+  '1Y': { points: 252, intervalMs: DAY_MS, tradingDays: 1, skipWeekends: true },
+  '5Y': { points: 260, intervalMs: 7 * DAY_MS, tradingDays: 5, skipWeekends: false },
+};
+
 /**
  * Default mock data configuration
  */
@@ -281,9 +316,117 @@ export class MockDataProvider {
     return quote;
   }
 
+  /**
+   * Generates a mock price history for a symbol
+   *
+   * Walks backwards from the current mock price, so the last close matches
+   * the quote. The walk is seeded by symbol, range and interval, so repeated
+   * requests within one interval return the same history.
+   *
+   * @param symbol - Stock symbol to generate history for
+   * @param range - Period to cover, ending now
+   * @returns Promise resolving to mock price history
+   *
+   * Time Complexity: O(p) where p is the number of points in the range
+   * Space Complexity: O(p)
+   */
+  async getPriceHistory(symbol: string, range: PriceHistoryRange): Promise<PriceHistory> {
+    if (this.config.enableNetworkDelay) {
+      await this.delay(Math.random() * this.config.maxDelay);
+    }
+
+    const spec = MOCK_HISTORY_SPECS[range];
+    const stockInfo = this.getStockInfo(symbol);
+    const now = Date.now();
+    const bucket = Math.floor(now / spec.intervalMs);
+    const random = this.createRandom(this.hashCode(`${symbol}:${range}:${bucket}`));
+    const stepVolatility = stockInfo.volatility * Math.sqrt(spec.tradingDays);
+    const stepVolume = this.getBaseVolume(stockInfo.sector) * spec.tradingDays;
+
+    // Closes from the newest interval back to the close before the first one
+    const closes = [this.generateCurrentPrice(symbol, stockInfo)];
+    for (let i = 0; i < spec.points; i++) {
+      const movement = (random() - 0.5) * 2 * Math.sqrt(3) * stepVolatility;
+      closes.push(Math.max(0.01, closes[i] / (1 + movement)));
+    }
+    closes.reverse();
+
+    const timestamps = this.getHistoryTimestamps(bucket * spec.intervalMs, spec);
+    const points: PricePoint[] = timestamps.map((timestamp, i) => {
+      const open = closes[i];
+      const close = closes[i + 1];
+      return {
+        timestamp,
+        open: this.roundPrice(open),
+        high: this.roundPrice(Math.max(open, close) * (1 + random() * stepVolatility * 0.5)),
+        low: this.roundPrice(Math.min(open, close) * (1 - random() * stepVolatility * 0.5)),
+        close: this.roundPrice(close),
+        volume: Math.round(stepVolume * (0.5 + random())),
+      };
+    });
+
+    console.debug(`Mock ${range} price history generated for ${symbol}: ${points.length} points`);
+
+    return {
+      symbol,
+      range,
+      currency: stockInfo.currency,
+      previousClose: this.roundPrice(closes[0]),
+      points,
+      timestamp: now,
+    };
+  }
+
+  /**
+   * Lists the interval start times of a mock history
+   *
+   * @param lastStart - Start of the newest interval
+   * @param spec - Sampling of the range
+   * @returns Timestamps in chronological order
+   *
+   * Time Complexity: O(p) where p is the number of points
+   * Space Complexity: O(p)
+   */
+  private getHistoryTimestamps(lastStart: number, spec: MockHistorySpec): number[] {
+    const timestamps: number[] = [];
+    let timestamp = lastStart;
+
+    while (timestamps.length < spec.points) {
+      const day = new Date(timestamp).getUTCDay();
+      if (!spec.skipWeekends || (day !== 0 && day !== 6)) {
+        timestamps.push(timestamp);
+      }
+      timestamp -= spec.intervalMs;
+    }
+
+    return timestamps.reverse();
+  }
+
+  /**
+   * Creates a seeded pseudo-random number generator (mulberry32)
+   *
+   * @param seed - 32-bit seed
+   * @returns Function returning numbers in [0, 1)
+   *
+   * Time Complexity: O(1) per number
+   * Space Complexity: O(1)
+   */
+  private createRandom(seed: number): () => number {
+    let state = seed;
+    return () => {
+      state = (state + 0x6D2B79F5) | 0;
+      let t = Math.imul(state ^ (state >>> 15), 1 | state);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
   /**
    * Gets stock information for a symbol
    * 
+   * Symbols with an exchange also match the bare ticker, so 'AAPL:NASDAQ'
+   * finds 'AAPL'.
+   * 
    * @param symbol - Stock symbol
    * @returns Stock information or default data
    * 
@@ -291,7 +434,7 @@ export class MockDataProvider {
    * Space Complexity: O(1)
    */
   private getStockInfo(symbol: string): MockStockInfo {
-    return MOCK_STOCKS[symbol] || {
+    return MOCK_STOCKS[symbol] || MOCK_STOCKS[symbol.split(':')[0]] || {
       name: `${symbol} Company`,
       basePrice: 100,
       currency: 'USD',
@@ -0,0 +1,200 @@
+/**
+ * Share Link Utilities
+ *
+ * Encodes a dashboard layout into the fragment of a URL, so that a whole
+ * dashboard can be shared as a link without any server. Layout data is
+ * compressed with deflate and written as base64url. The fragment is never
+ * sent to a web server, so shared dashboards stay between the people who
+ * exchange the link.
+ *
+ * Fragment format: `#<encoding><data>` where the encoding is `z` for
+ * deflate-compressed JSON or `j` for uncompressed JSON, used by browsers
+ * without the Compression Streams API.
+ *
+ * @author Dashboard System
+ * @version 1.0.0
+ */
+
+/**
+ * Longest share URL created
+ *
+ * Browsers accept much longer URLs, but chat tools, mail clients and
+ * proxies commonly cut links off at around 8 KB.
+ */
+export const MAX_SHARE_URL_LENGTH = 8000;
+
+/**
+ * Encoding markers at the start of the fragment
+ */
+const DEFLATE_ENCODING = 'z';
+const JSON_ENCODING = 'j';
+
+/**
+ * Largest accepted decompressed layout, to reject decompression bombs
+ */
+const MAX_DECODED_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Checks whether the browser supports the Compression Streams API
+ *
+ * @returns True if deflate compression is available
+ */
+function supportsCompression(): boolean {
+  return typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+}
+
+/**
+ * Runs bytes through a compression or decompression stream
+ *
+ * @param bytes - Input bytes
+ * @param stream - Transform stream to use
+ * @param maxSize - Largest accepted output size
+ * @returns Output bytes, or null if the output exceeds the maximum size
+ */
+async function transformBytes(
+  bytes: Uint8Array,
+  stream: CompressionStream | DecompressionStream,
+  maxSize: number = Infinity
+): Promise<Uint8Array | null> {
+  const writer = stream.writable.getWriter();
+  void writer.write(bytes).then(() => writer.close()).catch(() => {});
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = stream.readable.getReader();
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.length;
+    if (size > maxSize) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const output = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  });
+
+  return output;
+}
+
+/**
+ * Encodes bytes as base64url without padding
+ *
+ * @param bytes - Bytes to encode
+ * @returns URL-safe base64 string
+ *
+ * Time Complexity: O(n) where n is number of bytes
+ * Space Complexity: O(n)
+ */
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decodes base64url, with or without padding
+ *
+ * @param text - URL-safe base64 string
+ * @returns Decoded bytes
+ * @throws {Error} If the text is not valid base64url
+ */
+function fromBase64Url(text: string): Uint8Array {
+  try {
+    if (!/^[A-Za-z0-9_-]*={0,2}$/.test(text)) throw new Error('Invalid characters');
+
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/').replace(/=+$/, ''));
+    return Uint8Array.from(binary, character => character.charCodeAt(0));
+  } catch {
+    throw new Error('Share link is damaged');
+  }
+}
+
+/**
+ * Encodes layout data for the fragment of a share URL
+ *
+ * @param data - Layout data in the export format
+ * @returns Encoded fragment, without the leading `#`
+ *
+ * @example
+ * ```typescript
+ * const fragment = await encodeShareData(layoutExport);
+ * const url = buildShareUrl(`${location.origin}/share`, fragment);
+ * ```
+ */
+export async function encodeShareData(data: unknown): Promise<string> {
+  const bytes = new TextEncoder().encode(JSON.stringify(data));
+
+  if (!supportsCompression()) {
+    return JSON_ENCODING + toBase64Url(bytes);
+  }
+
+  const compressed = await transformBytes(bytes, new CompressionStream('deflate-raw'));
+  return compressed
+    ? DEFLATE_ENCODING + toBase64Url(compressed)
+    : JSON_ENCODING + toBase64Url(bytes);
+}
+
+/**
+ * Decodes layout data from the fragment of a share URL
+ *
+ * @param fragment - URL fragment, with or without the leading `#`
+ * @returns Parsed layout data; validate it before use
+ * @throws {Error} If the fragment is empty, damaged or not supported by this browser
+ */
+export async function decodeShareData(fragment: string): Promise<unknown> {
+  const encoded = fragment.replace(/^#/, '');
+  if (!encoded) {
+    throw new Error('Share link does not contain a dashboard');
+  }
+
+  const encoding = encoded[0];
+  const bytes = fromBase64Url(encoded.slice(1));
+  let json: Uint8Array | null;
+
+  if (encoding === JSON_ENCODING) {
+    json = bytes;
+  } else if (encoding === DEFLATE_ENCODING) {
+    if (!supportsCompression()) {
+      throw new Error('This browser cannot open compressed share links');
+    }
+    try {
+      json = await transformBytes(bytes, new DecompressionStream('deflate-raw'), MAX_DECODED_SIZE);
+    } catch {
+      throw new Error('Share link is damaged');
+    }
+  } else {
+    throw new Error('Share link has an unknown format');
+  }
+
+  if (!json) {
+    throw new Error('Shared layout is too large');
+  }
+
+  try {
+    return JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    throw new Error('Share link is damaged');
+  }
+}
+
+/**
+ * Appends an encoded layout to the URL of the share page
+ *
+ * @param shareUrl - Absolute URL of the share page
+ * @param fragment - Encoded layout from {@link encodeShareData}
+ * @returns Share URL
+ */
+export function buildShareUrl(shareUrl: string, fragment: string): string {
+  return `${shareUrl}#${fragment}`;
+}
@@ -0,0 +1,214 @@
+/**
+ * Tile Clipboard Utilities
+ *
+ * Converts tiles to and from the JSON clipboard format used for copy and
+ * paste. The format is independent of any dashboard, so tiles copied in one
+ * dashboard or browser tab can be pasted into another. See
+ * `docs/TILE_CLIPBOARD_FORMAT.md` for the format specification.
+ *
+ * @author Dashboard System
+ * @version 1.0.0
+ */
+
+import type { Tile, TileContent } from '@/types/dashboard';
+import { sortByReadingOrder } from '@/utils/gridLayout';
+import { isTileContentType } from '@/utils/tileContentRegistry';
+import { validateTileContent } from '@/utils/layoutValidation';
+
+/**
+ * Format identifier written to every clipboard payload
+ */
+export const TILE_CLIPBOARD_FORMAT = 'tiler-omicron/tiles';
+
+/**
+ * Current version of the clipboard format
+ */
+export const TILE_CLIPBOARD_VERSION = 1;
+
+/**
+ * Tile as it appears on the clipboard: everything needed to recreate it,
+ * without its ID, position or timestamps
+ */
+export interface ClipboardTile {
+  title: string;
+  width: number;
+  height: number;
+  minWidth?: number;
+  minHeight?: number;
+  maxWidth?: number;
+  maxHeight?: number;
+  content?: TileContent;
+}
+
+/**
+ * Clipboard payload for copied tiles
+ */
+export interface TileClipboardData {
+  format: typeof TILE_CLIPBOARD_FORMAT;
+  version: number;
+  tiles: ClipboardTile[];
+}
+
+/**
+ * Checks that a value is a positive integer
+ *
+ * @param value - Value to check
+ * @returns True if the value is a positive integer
+ */
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Checks whether a value is a usable clipboard tile
+ *
+ * Tiles need a title and positive integer sizes; content, if present, must
+ * be of a known type.
+ *
+ * @param tile - Value to check
+ * @returns True if the value can be recreated as a tile
+ */
+export function isClipboardTile(tile: unknown): tile is ClipboardTile {
+  if (!tile || typeof tile !== 'object') return false;
+
+  const candidate = tile as Partial<ClipboardTile>;
+  return typeof candidate.title === 'string' &&
+    isPositiveInteger(candidate.width) &&
+    isPositiveInteger(candidate.height) &&
+    (!candidate.content || isTileContentType(candidate.content.type));
+}
+
+/**
+ * Builds a clean clipboard tile from untrusted data, e.g. pasted text or an
+ * imported preset
+ *
+ * Only the clipboard tile fields are copied, so IDs, positions, lock flags
+ * and unknown keys are dropped. The width is narrowed to the grid, size
+ * constraints that are not positive integers are dropped and the rest are
+ * widened to include the tile's size. Content is checked with the layout
+ * validation rules: fixable problems are repaired, and content that needs
+ * user input, such as a missing stock symbol, rejects the tile.
+ *
+ * @param tile - Value to sanitize
+ * @param maxWidth - Number of grid columns the tile must fit into
+ * @returns Sanitized tile, or null if the value cannot be used as a tile
+ *
+ * Time Complexity: O(f) where f is the number of content fields
+ * Space Complexity: O(f)
+ */
+export function sanitizeClipboardTile(tile: unknown, maxWidth: number = Infinity): ClipboardTile | null {
+  if (!isClipboardTile(tile)) return null;
+
+  const sanitized: ClipboardTile = {
+    title: tile.title,
+    width: Math.min(tile.width, maxWidth),
+    height: tile.height,
+  };
+
+  if (isPositiveInteger(tile.minWidth)) sanitized.minWidth = Math.min(tile.minWidth, sanitized.width);
+  if (isPositiveInteger(tile.minHeight)) sanitized.minHeight = Math.min(tile.minHeight, sanitized.height);
+  if (isPositiveInteger(tile.maxWidth)) sanitized.maxWidth = Math.max(tile.maxWidth, sanitized.width);
+  if (isPositiveInteger(tile.maxHeight)) sanitized.maxHeight = Math.max(tile.maxHeight, sanitized.height);
+
+  if (tile.content !== undefined) {
+    const { issues, repaired } = validateTileContent(JSON.parse(JSON.stringify(tile.content)));
+    if (issues.some(issue => !issue.fixable)) return null;
+    if (repaired) sanitized.content = repaired;
+  }
+
+  return sanitized;
+}
+
+/**
+ * Converts a tile to its clipboard form
+ *
+ * @param tile - Tile to copy
+ * @returns Clipboard tile with a deep copy of the content
+ *
+ * Time Complexity: O(1)
+ * Space Complexity: O(1)
+ */
+export function toClipboardTile(tile: Tile): ClipboardTile {
+  const clipboardTile: ClipboardTile = {
+    title: tile.title,
+    width: tile.width,
+    height: tile.height,
+  };
+
+  if (tile.minWidth !== undefined) clipboardTile.minWidth = tile.minWidth;
+  if (tile.minHeight !== undefined) clipboardTile.minHeight = tile.minHeight;
+  if (tile.maxWidth !== undefined) clipboardTile.maxWidth = tile.maxWidth;
+  if (tile.maxHeight !== undefined) clipboardTile.maxHeight = tile.maxHeight;
+  if (tile.content) clipboardTile.content = JSON.parse(JSON.stringify(tile.content));
+
+  return clipboardTile;
+}
+
+/**
+ * Serializes tiles into clipboard text, in reading order
+ *
+ * @param tiles - Tiles to copy
+ * @returns JSON text in the tile clipboard format
+ *
+ * Time Complexity: O(n log n) where n is number of tiles
+ * Space Complexity: O(n)
+ */
+export function serializeTileClipboard(tiles: Tile[]): string {
+  const data: TileClipboardData = {
+    format: TILE_CLIPBOARD_FORMAT,
+    version: TILE_CLIPBOARD_VERSION,
+    tiles: sortByReadingOrder(tiles).map(toClipboardTile),
+  };
+
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Parses clipboard text in the tile clipboard format
+ *
+ * Text that is not a tile clipboard payload (for example ordinary copied
+ * text) yields null. Each tile is rebuilt by `sanitizeClipboardTile`;
+ * tiles with missing titles, invalid sizes or unusable content are
+ * rejected individually.
+ *
+ * @param text - Clipboard text
+ * @returns Parsed tiles, or null if the text is not a tile clipboard payload
+ *
+ * Time Complexity: O(n) where n is the text length
+ * Space Complexity: O(n)
+ */
+export function parseTileClipboard(text: string): ClipboardTile[] | null {
+  let data: unknown;
+
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  if (!data || typeof data !== 'object') {
+    return null;
+  }
+
+  const payload = data as Partial<TileClipboardData>;
+  if (payload.format !== TILE_CLIPBOARD_FORMAT || !Array.isArray(payload.tiles)) {
+    return null;
+  }
+
+  if (typeof payload.version !== 'number' || payload.version > TILE_CLIPBOARD_VERSION) {
+    console.warn(`Unsupported tile clipboard version: ${payload.version}`);
+    return null;
+  }
+
+  return payload.tiles.reduce<ClipboardTile[]>((tiles, tile) => {
+    const sanitized = sanitizeClipboardTile(tile);
+
+    if (sanitized) {
+      tiles.push(sanitized);
+    } else {
+      console.warn('Skipping invalid tile in clipboard data:', tile);
+    }
+
+    return tiles;
+  }, []);
+}
@@ -0,0 +1,231 @@
+/**
+ * Tile Content Plugin Registry
+ *
+ * Single place where tile content types are declared. A plugin describes a
+ * content type: its display name, icon, default configuration, the fields of
+ * its configuration form, the size of new tiles and a lazily loaded component
+ * that renders it. The add-tile menu, the content renderer, the tile editor
+ * and layout validation all read the registry, so a new content type needs no
+ * changes outside its own module. See `docs/TILE_CONTENT_PLUGINS.md`.
+ *
+ * The registry does not know any content type itself: the built-in plugins
+ * are registered by `registerBuiltInTileContentPlugins` from `main.ts`, and
+ * other plugins must also be registered before the application is mounted.
+ *
+ * @author Dashboard System
+ * @version 1.0.0
+ */
+
+import { defineAsyncComponent, type Component, type InjectionKey, type Ref } from 'vue';
+import type { TileContent, TileContentType, TileContentTypeMap } from '@/types/dashboard';
+import { flattenConfigFields, type TileConfigField } from '@/utils/tileConfigSchema';
+
+/**
+ * Size of new tiles and the limits of resizing them, in grid units
+ */
+export interface TileSizeConstraints {
+  width: number;
+  height: number;
+  minWidth: number;
+  minHeight: number;
+  maxWidth?: number;
+  maxHeight?: number;
+}
+
+/**
+ * Configuration of a content type without its type and display name
+ */
+export type TileContentConfig<K extends TileContentType = TileContentType> =
+  Omit<TileContentTypeMap[K], 'type' | 'displayName'>;
+
+/**
+ * Declaration of a tile content type
+ *
+ * The component receives the content as its `config` prop and the tile size
+ * in grid units as its `tileSize` prop. Components with inline editing emit
+ * `updateConfig` with the changed content to save it, and should offer the
+ * editing controls only while `TILE_CONTENT_EDITABLE` is true.
+ *
+ * @interface TileContentPlugin
+ */
+export interface TileContentPlugin<K extends TileContentType = TileContentType> {
+  /** Content type identifier stored in tile content */
+  type: K;
+
+  /** Name shown in menus and stored as the content display name */
+  displayName: string;
+
+  /** One-line description shown in the tile editor */
+  description: string;
+
+  /** Font Awesome classes of the content type icon */
+  icon: string;
+
+  /** Configuration of new content, without type and display name */
+  defaultConfig: TileContentConfig<K>;
+
+  /** Fields of the configuration form in the tile editor */
+  configSchema: TileConfigField[];
+
+  /** Paths of configuration fields that must have a value, e.g. 'symbol' */
+  requiredFields: string[];
+
+  /** Field whose value summarizes a configured tile, e.g. its symbol */
+  summaryField?: string;
+
+  /** Size of new tiles and resize limits */
+  size: TileSizeConstraints;
+
+  /** Loads the component that renders the content */
+  component: () => Promise<Component | { default: Component }>;
+}
+
+/**
+ * Injected into content components: whether inline edits can be saved,
+ * false while the layout is locked
+ */
+export const TILE_CONTENT_EDITABLE: InjectionKey<Readonly<Ref<boolean>>> = Symbol('tileContentEditable');
+
+/**
+ * Registered plugins by content type, in registration order
+ */
+const plugins = new Map<string, TileContentPlugin>();
+
+/**
+ * Async components of the registered plugins, created on first use
+ */
+const components = new Map<string, Component>();
+
+/**
+ * Checks whether a value is a positive whole number
+ *
+ * @param value - Value to check
+ * @returns True if the value is an integer of at least 1
+ */
+function isPositiveInteger(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1;
+}
+
+/**
+ * Registers a tile content plugin
+ *
+ * @param plugin - Plugin to register
+ * @throws {Error} If the type is already registered or the plugin is incomplete
+ *
+ * Time Complexity: O(f) where f is the number of configuration fields
+ * Space Complexity: O(1)
+ *
+ * @example
+ * ```typescript
+ * registerTileContentPlugin({
+ *   type: 'order-book',
+ *   displayName: 'Order Book',
+ *   description: 'Bids and asks of a symbol',
+ *   icon: 'fas fa-list-ol',
+ *   defaultConfig: { symbol: 'AAPL', depth: 10 },
+ *   configSchema: [{ key: 'symbol', label: 'Symbol', kind: 'symbol' }],
+ *   requiredFields: ['symbol'],
+ *   size: { width: 2, height: 4, minWidth: 2, minHeight: 3 },
+ *   component: () => import('./OrderBookContent.vue'),
+ * });
+ * ```
+ */
+export function registerTileContentPlugin<K extends TileContentType>(plugin: TileContentPlugin<K>): void {
+  if (typeof plugin.type !== 'string' || !plugin.type.trim()) {
+    throw new Error('Tile content plugins need a type');
+  }
+
+  if (plugins.has(plugin.type)) {
+    throw new Error(`Tile content type "${plugin.type}" is already registered`);
+  }
+
+  if (!plugin.displayName.trim()) {
+    throw new Error(`Tile content type "${plugin.type}" needs a display name`);
+  }
+
+  const { width, height, minWidth, minHeight, maxWidth, maxHeight } = plugin.size;
+  const sizes = [width, height, minWidth, minHeight, maxWidth ?? width, maxHeight ?? height];
+  if (!sizes.every(isPositiveInteger) || minWidth > width || minHeight > height ||
+      (maxWidth !== undefined && maxWidth < width) || (maxHeight !== undefined && maxHeight < height)) {
+    throw new Error(`Tile content type "${plugin.type}" has invalid size constraints`);
+  }
+
+  const fieldPaths = flattenConfigFields(plugin.configSchema).map(({ path }) => path);
+  const unknownRequired = plugin.requiredFields.filter(path => !fieldPaths.includes(path));
+  if (unknownRequired.length > 0) {
+    throw new Error(`Tile content type "${plugin.type}" requires unknown fields: ${unknownRequired.join(', ')}`);
+  }
+
+  plugins.set(plugin.type, plugin as TileContentPlugin);
+  console.debug(`Registered tile content type: ${plugin.type}`);
+}
+
+/**
+ * Checks whether a value names a registered content type
+ *
+ * @param type - Value to check
+ * @returns True if a plugin is registered for the value
+ */
+export function isTileContentType(type: unknown): type is TileContentType {
+  return typeof type === 'string' && plugins.has(type);
+}
+
+/**
+ * Looks up the plugin of a content type
+ *
+ * @param type - Content type identifier
+ * @returns Registered plugin, or undefined for unknown types
+ */
+export function getTileContentPlugin(type: string): TileContentPlugin | undefined {
+  return plugins.get(type);
+}
+
+/**
+ * Lists the registered plugins
+ *
+ * @returns Plugins in registration order
+ */
+export function getTileContentPlugins(): TileContentPlugin[] {
+  return [...plugins.values()];
+}
+
+/**
+ * Gets the component that renders a content type
+ *
+ * The component is loaded when it is first rendered.
+ *
+ * @param type - Content type identifier
+ * @returns Async component, or null for unknown types
+ */
+export function getTileContentComponent(type: string): Component | null {
+  const plugin = plugins.get(type);
+  if (!plugin) return null;
+
+  let component = components.get(type);
+  if (!component) {
+    component = defineAsyncComponent(plugin.component);
+    components.set(type, component);
+  }
+
+  return component;
+}
+
+/**
+ * Creates content of a type from its default configuration
+ *
+ * @param type - Content type identifier
+ * @returns New content with a deep copy of the default configuration
+ * @throws {Error} If the type is not registered
+ */
+export function createTileContent(type: TileContentType): TileContent {
+  const plugin = plugins.get(type);
+  if (!plugin) {
+    throw new Error(`Unknown tile content type "${type}"`);
+  }
+
+  return {
+    type: plugin.type,
+    displayName: plugin.displayName,
+    ...JSON.parse(JSON.stringify(plugin.defaultConfig)),
+  } as TileContent;
+}